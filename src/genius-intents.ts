@@ -3,18 +3,104 @@ import { IntentPriceParams } from './types/price-params';
 import { IntentQuoteParams } from './types/quote-params';
 import { PriceResponse } from './types/price-response';
 import { QuoteResponse } from './types/quote-response';
-import { ChainIdEnum, ProtocolEnum, SdkErrorEnum } from './types/enums';
-import { ILogger, LoggerFactory, LogLevelEnum } from './utils/logger';
+import {
+  ChainIdEnum,
+  CircuitStateEnum,
+  CompositeStepTypeEnum,
+  ProtocolEnum,
+  RequestPriorityEnum,
+  SdkErrorEnum,
+} from './types/enums';
+import { ProtocolFactory, ProtocolId, ProtocolServiceConfig } from './types/protocol';
+import {
+  getProtocolOverrides,
+  hasProtocolConfigChanged,
+  resolveProtocolConfig,
+} from './lib/config/protocol-config';
+import {
+  ConfigIssue,
+  ConfigValidationReport,
+  ProtocolConfigStatus,
+  ProtocolSkipReason,
+} from './types/config-schema';
+import { formatConfigIssues, validateConfigSchema } from './lib/config/config-validation';
+import { PROTOCOL_CONFIG_SCHEMAS } from './lib/config/protocol-config-schemas';
+import { ILogger, LoggerFactory } from './utils/logger';
 import { sdkError } from './utils/throw-error';
+import { isSdkError } from './utils/sdk-error';
+import {
+  IMetrics,
+  ISpan,
+  MetricNameEnum,
+  NoOpMetrics,
+  SpanNameEnum,
+  withSpan,
+} from './utils/metrics';
+import { getErrorCode } from './lib/retry/error-classification';
 import {
+  ConfigUpdateSummary,
   GeniusIntentsConfig,
   IntentPriceResult,
   IntentQuoteResult,
+  GeniusIntentsQuoteParams,
   GeniusIntentsResults,
+  IntentBatchPriceResult,
   IntentRaceExecutionResult,
+  IntentStreamUpdate,
+  PriorPriceResponses,
 } from './types/genius-intents';
-import { GeniusIntentsSDKConfig } from './types/sdk-config';
+import { IntentRequestOptions, ProtocolRequestOptions } from './types/request-options';
+import { RequestScheduler } from './lib/scheduler/request-scheduler';
+import {
+  CachedRequestType,
+  ResultsCache,
+  copyCachedResponse,
+  getRequestKey,
+} from './lib/cache/results-cache';
+import { ProtocolHealthTracker } from './lib/health/protocol-health-tracker';
+import { DEFAULT_RETRY_POLICY, withRetry } from './lib/retry/retry';
+import { RetryPolicy } from './types/retry';
+import { ProtocolHealth } from './types/health';
+import { MiddlewarePipeline } from './lib/middleware/middleware-pipeline';
+import { IIntentsMiddleware } from './interfaces/intents-middleware';
+import { ErrorHookContext, MiddlewareStage, MiddlewareStageTypes } from './types/middleware';
+import { isAbortError, linkAbortController, raceAbort, throwIfAborted } from './utils/abort';
+import { scoreNetValue } from './lib/scoring/net-value';
+import { IRankingStrategy } from './interfaces/ranking-strategy';
+import {
+  MaxOutputRankingStrategy,
+  MinInputRankingStrategy,
+  NetValueRankingStrategy,
+  isSimulationOk,
+} from './lib/ranking/ranking-strategies';
+import { RankableResult, RankedResult } from './types/ranking';
+import {
+  ProtocolCapabilities,
+  ProtocolRouteSupport,
+  RouteQuery,
+  SupportedRoutes,
+} from './types/routes';
+import { SplitQuoteLeg, SplitQuoteOptions, SplitQuoteResult } from './types/split';
+import { DEFAULT_SPLIT_PARTS, allocateSplit, getPartAmount } from './lib/split/split-allocation';
+import {
+  CompositeQuoteOptions,
+  CompositeQuoteResult,
+  CompositeRoute,
+  CompositeRouteFailure,
+  CompositeRouteStep,
+  IntermediateAsset,
+} from './types/composite';
+import {
+  applySlippage,
+  compoundSlippage,
+  getIntermediateAssets,
+  isSameToken,
+} from './lib/composite/composite-route';
+import { isEVMNetwork } from './utils/check-vm';
+import { isNative } from './utils/is-native';
+import { isExactOut } from './utils/swap-mode';
 import { toQuantity } from 'ethers';
+import { randomUUID } from 'crypto';
 
 // Static imports for all protocols (required for esbuild bundling)
 import { OdosService } from './protocols/odos/odos.service';
@@ -38,8 +124,8 @@ import {
 } from './types/quote-execution-payload';
 import { JsonRpcProvider, ethers } from 'ethers';
 import simulateJito from './utils/jito';
-
-let logger: ILogger;
+import { IHttpClient } from './interfaces/http-client';
+import { createHttpClient } from './lib/http/protocol-http-client';
 
 // Available protocols array
 const AVAILABLE_PROTOCOLS: ProtocolEnum[] = [
@@ -72,39 +158,84 @@ const SERVICE_MAP: Record<ProtocolEnum, new (config: any) => IIntentProtocol> =
   [ProtocolEnum.ACROSS]: AcrossService,
 };
 
+/**
+ * True when there is no token list or no token to look for, EVM addresses compare case-insensitively
+ */
+const includesToken = (tokens?: string[], token?: string): boolean => {
+  if (!tokens || !token) return true;
+  const normalized = token.toLowerCase();
+  return tokens.some(listed => listed === token || listed.toLowerCase() === normalized);
+};
+
 export class GeniusIntents {
   protected config: GeniusIntentsConfig;
-  protected protocols: Map<ProtocolEnum, IIntentProtocol> = new Map();
+  protected protocols: Map<ProtocolId, IIntentProtocol> = new Map();
+  protected registeredProtocols: Map<ProtocolId, IIntentProtocol | ProtocolFactory> = new Map();
+  protected scheduler: RequestScheduler;
+  protected cache?: ResultsCache;
+  protected health: ProtocolHealthTracker;
+  protected middleware: MiddlewarePipeline;
+  protected metrics: IMetrics;
+  protected http: IHttpClient;
+  protected logger: ILogger;
   private _protocolsInitialized = false;
   private _initializationPromise: Promise<void> | null = null;
 
   constructor(config: GeniusIntentsConfig = {}) {
-    // Configure logging
-    if (config.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    } else if (config.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-    logger = LoggerFactory.getLogger();
+    // Scoped to this instance, other instances in the process keep their own logger
+    this.logger = LoggerFactory.fromConfig(config);
+    this.metrics = config.metrics || new NoOpMetrics();
+    // Used for the SDK's own requests, protocol services create their own clients
+    this.http = createHttpClient('sdk', config);
 
     // Set default configuration
     this.config = {
       method: 'best',
+      scoring: 'amountOut',
       timeout: 30000, // 30 seconds
       maxConcurrency: 10,
       ...config,
       // Properly merge excludeProtocols arrays
       excludeProtocols: [
         ...(config.excludeProtocols || []),
-        ...(config.includeProtocols ? [] : [ProtocolEnum.GENIUS_BRIDGE]), // Only exclude by default if not explicitly included
+        // Only exclude by default if not explicitly included or enabled
+        ...(config.includeProtocols || config.protocols?.[ProtocolEnum.GENIUS_BRIDGE]?.enabled
+          ? []
+          : [ProtocolEnum.GENIUS_BRIDGE]),
       ],
       solanaRpcUrl: config.solanaRpcUrl || config.rpcs?.[ChainIdEnum.SOLANA] || undefined,
+      suiRpcUrl: config.suiRpcUrl || config.rpcs?.[ChainIdEnum.SUI] || undefined,
       rpcs: {
         ...config.rpcs,
         [ChainIdEnum.SOLANA]: config.solanaRpcUrl || config.rpcs?.[ChainIdEnum.SOLANA] || '',
         [ChainIdEnum.SUI]: config.suiRpcUrl || config.rpcs?.[ChainIdEnum.SUI] || '',
       },
     };
+
+    // Shared across every concurrent fetchPrice/fetchQuote call on this instance
+    this.scheduler = new RequestScheduler(this.config.maxConcurrency!);
+
+    if (this.config.cache) {
+      this.cache = new ResultsCache(this.config.cache, this.logger);
+    }
+
+    this.health = new ProtocolHealthTracker(
+      this.config.circuitBreaker || {},
+      this.config.circuitBreaker !== false,
+    );
+
+    this.middleware = new MiddlewarePipeline(this.config.middleware);
+
+    if (this.config.strictConfig) {
+      const report = this.validateConfig();
+      if (!report.valid) {
+        throw sdkError(
+          SdkErrorEnum.INVALID_CONFIG,
+          `Misconfigured protocols, fix or exclude them: ${formatConfigIssues(report.issues)}`,
+          { details: { issues: report.issues } },
+        );
+      }
+    }
   }
 
   /**
@@ -129,57 +260,147 @@ export class GeniusIntents {
    * Initialize protocol instances using static imports (compatible with esbuild)
    */
   protected async initializeProtocols(): Promise<void> {
-    const protocolsToLoad = AVAILABLE_PROTOCOLS.filter(protocol => {
-      // Skip if specifically excluded
-      if (this.config.excludeProtocols?.includes(protocol)) {
-        logger.debug(`Skipping excluded protocol: ${protocol}`);
-        return false;
-      }
+    // Registered protocols replace the built-in protocol with the same id
+    const protocolsToLoad = AVAILABLE_PROTOCOLS.filter(
+      protocol => !this.registeredProtocols.has(protocol) && this.isProtocolEnabled(protocol),
+    );
+    const registeredToLoad = Array.from(this.registeredProtocols.entries()).filter(([id]) =>
+      this.isProtocolEnabled(id),
+    );
 
-      // Skip if includeProtocols is specified and this protocol is not included
-      if (this.config.includeProtocols && !this.config.includeProtocols.includes(protocol)) {
-        logger.debug(`Skipping non-included protocol: ${protocol}`);
-        return false;
-      }
+    this.logger.info(
+      `Loading ${protocolsToLoad.length} protocols statically and ${registeredToLoad.length} registered protocols`,
+    );
 
-      return true;
-    });
+    const loadedProtocols = [
+      ...protocolsToLoad.map(protocol => this.loadBuiltInProtocol(protocol)),
+      ...registeredToLoad.map(([id, protocol]) => this.loadRegisteredProtocol(id, protocol)),
+    ];
+    const successfulLoads = loadedProtocols.filter(Boolean);
 
-    logger.info(`Loading ${protocolsToLoad.length} protocols statically`);
+    this.logger.info(
+      `Successfully initialized ${successfulLoads.length} protocols: ${successfulLoads.join(', ')}`,
+    );
+  }
 
-    // Load protocols using static imports (compatible with esbuild)
-    const loadPromises = protocolsToLoad.map(async protocol => {
-      try {
-        const serviceClass = SERVICE_MAP[protocol];
+  /**
+   * Whether includeProtocols/excludeProtocols allow loading the protocol
+   */
+  protected isProtocolEnabled(protocol: ProtocolId): boolean {
+    const reason = this.getFilterReason(protocol);
+    if (reason) {
+      this.logger.debug(`Skipping ${reason} protocol: ${protocol}`);
+      return false;
+    }
+    return true;
+  }
 
-        if (!serviceClass) {
-          logger.error(`Service class for protocol ${protocol} not found in SERVICE_MAP`);
-          return null;
-        }
+  protected getFilterReason(
+    protocol: ProtocolId,
+    config: GeniusIntentsConfig = this.config,
+  ): ProtocolSkipReason | undefined {
+    // Skip if specifically excluded
+    if (config.excludeProtocols?.includes(protocol)) {
+      return 'excluded';
+    }
 
-        // Create service instance with config
-        const serviceInstance = new serviceClass(this.config as unknown as GeniusIntentsSDKConfig);
-
-        this.protocols.set(protocol, serviceInstance);
-        logger.debug(`Successfully loaded protocol: ${protocol}`);
-        return protocol;
-      } catch (error: unknown) {
-        // Log the error but don't throw - this allows other protocols to continue loading
-        logger.warn(
-          `Failed to load protocol ${protocol}, skipping: ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`,
-        );
+    // Skip if includeProtocols is specified and this protocol is not included
+    if (config.includeProtocols && !config.includeProtocols.includes(protocol)) {
+      return 'not-included';
+    }
+
+    if (getProtocolOverrides(config, protocol).enabled === false) {
+      return 'disabled';
+    }
+
+    return undefined;
+  }
+
+  protected getConfigIssues(protocol: ProtocolEnum): ConfigIssue[] {
+    return validateConfigSchema(
+      protocol,
+      PROTOCOL_CONFIG_SCHEMAS[protocol],
+      this.getProtocolConfig(protocol),
+    );
+  }
+
+  protected loadBuiltInProtocol(protocol: ProtocolEnum): ProtocolEnum | null {
+    const issues = this.getConfigIssues(protocol);
+    if (issues.length > 0) {
+      this.logger.warn(
+        `Skipping misconfigured protocol ${protocol}: ${formatConfigIssues(issues)}`,
+      );
+      return null;
+    }
+
+    try {
+      const serviceClass = SERVICE_MAP[protocol];
+
+      if (!serviceClass) {
+        this.logger.error(`Service class for protocol ${protocol} not found in SERVICE_MAP`);
         return null;
       }
-    });
 
-    const loadedProtocols = await Promise.all(loadPromises);
-    const successfulLoads = loadedProtocols.filter(Boolean);
+      // Create service instance with config
+      const serviceInstance = new serviceClass(this.getProtocolConfig(protocol));
 
-    logger.info(
-      `Successfully initialized ${successfulLoads.length} protocols: ${successfulLoads.join(', ')}`,
-    );
+      this.protocols.set(protocol, serviceInstance);
+      this.logger.debug(`Successfully loaded protocol: ${protocol}`);
+      return protocol;
+    } catch (error: unknown) {
+      // Log the error but don't throw - this allows other protocols to continue loading
+      this.logger.warn(
+        `Failed to load protocol ${protocol}, skipping: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+      return null;
+    }
+  }
+
+  protected loadRegisteredProtocol(
+    id: ProtocolId,
+    protocol: IIntentProtocol | ProtocolFactory,
+  ): ProtocolId | null {
+    try {
+      const instance =
+        typeof protocol === 'function' ? protocol(this.getProtocolConfig(id)) : protocol;
+      this.assertProtocolId(id, instance);
+
+      this.protocols.set(id, instance);
+      this.logger.debug(`Successfully loaded registered protocol: ${id}`);
+      return id;
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Failed to load registered protocol ${id}, skipping: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Config handed to protocol services, only their own keys and logging through a child of
+   * the instance logger
+   */
+  protected getProtocolConfig(protocol: ProtocolId): ProtocolServiceConfig {
+    return {
+      ...resolveProtocolConfig(this.config, protocol),
+      // Already applied to the instance logger, would replace the child logger otherwise
+      debug: false,
+      logger: LoggerFactory.createChildLogger(this.logger, { protocol }),
+    };
+  }
+
+  protected assertProtocolId(id: ProtocolId, instance: IIntentProtocol): void {
+    if (instance.protocol !== id) {
+      throw sdkError(
+        SdkErrorEnum.INVALID_PARAMS,
+        `Protocol registered as ${id} reports itself as ${instance.protocol}`,
+        { protocol: id },
+      );
+    }
   }
 
   /**
@@ -192,7 +413,7 @@ export class GeniusIntents {
     try {
       return factory();
     } catch (error: unknown) {
-      logger.error(
+      this.logger.error(
         `Failed to initialize ${protocolName} protocol:`,
         error instanceof Error ? error : new Error('Unknown error'),
       );
@@ -204,45 +425,247 @@ export class GeniusIntents {
    * Get compatible protocols for the given parameters
    */
   protected async getCompatibleProtocols(
-    params: IntentPriceParams | IntentQuoteParams,
+    params: Pick<IntentPriceParams, 'networkIn' | 'networkOut' | 'swapMode' | 'amountOut'>,
   ): Promise<IIntentProtocol[]> {
+    const exactOut = isExactOut(params);
+    if (exactOut && !params.amountOut) {
+      throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'amountOut is required for exact-out swaps');
+    }
+
+    await this.ensureProtocolsInitialized();
+
+    return Array.from(this.protocols.values()).filter(
+      protocol =>
+        this.isRouteCompatible(protocol, params.networkIn, params.networkOut) &&
+        // Protocols without exact-out support would silently swap amountIn instead
+        (!exactOut || protocol.supportsExactOut),
+    );
+  }
+
+  protected isRouteCompatible(
+    protocol: IIntentProtocol,
+    networkIn: number,
+    networkOut: number,
+  ): boolean {
+    // Skip if protocol is undefined or doesn't have required properties
+    if (!protocol || !protocol.chains) {
+      return false;
+    }
+
+    // Check if protocol supports the required chains, narrowed by its chains override
+    const chains = this.getProtocolChains(protocol);
+    const supportsNetworkIn = chains.includes(networkIn as ChainIdEnum);
+    const supportsNetworkOut = chains.includes(networkOut as ChainIdEnum);
+
+    if (networkIn === networkOut) {
+      // Same-chain swap: protocol must support single-chain operations and the chain
+      return protocol.singleChain && supportsNetworkIn;
+    }
+
+    // Cross-chain swap: protocol must support multi-chain operations and both chains
+    return protocol.multiChain && supportsNetworkIn && supportsNetworkOut;
+  }
+
+  protected getProtocolChains(protocol: IIntentProtocol): ChainIdEnum[] {
+    const { chains } = getProtocolOverrides(this.config, protocol.protocol);
+    return chains ? protocol.chains.filter(chain => chains.includes(chain)) : protocol.chains;
+  }
+
+  protected getProtocolTimeout(protocol: ProtocolId): number {
+    return getProtocolOverrides(this.config, protocol).timeout ?? this.config.timeout!;
+  }
+
+  protected getProtocolCapabilities(protocol: IIntentProtocol): ProtocolCapabilities {
+    const builtIn = this.registeredProtocols.has(protocol.protocol)
+      ? undefined
+      : AVAILABLE_PROTOCOLS.find(available => available === protocol.protocol);
+
+    return {
+      singleChain: protocol.singleChain,
+      multiChain: protocol.multiChain,
+      exactOut: protocol.supportsExactOut ?? false,
+      receiver: protocol.supportsReceiver ?? false,
+      configured: !builtIn || this.getConfigIssues(builtIn).length === 0,
+      chains: this.getProtocolChains(protocol),
+    };
+  }
+
+  /**
+   * Route support of one protocol, `undefined` when its route listing rules the query out.
+   * A failed listing is reported on the result so the protocol stays a candidate.
+   */
+  protected async getRouteSupport(
+    protocol: IIntentProtocol,
+    query: RouteQuery,
+    options: ProtocolRequestOptions,
+  ): Promise<ProtocolRouteSupport | undefined> {
+    const support: ProtocolRouteSupport = {
+      protocol: protocol.protocol,
+      capabilities: this.getProtocolCapabilities(protocol),
+    };
+
+    if (!protocol.getRoutes) {
+      return support;
+    }
+
+    try {
+      const routes = await this.withTimeout(
+        signal => protocol.getRoutes!(query, { ...options, signal }),
+        options.signal,
+        this.getProtocolTimeout(protocol.protocol),
+      );
+
+      const listsTokens =
+        includesToken(routes.tokensIn, query.tokenIn) &&
+        includesToken(routes.tokensOut, query.tokenOut);
+
+      return routes.supported && listsTokens ? { ...support, routes } : undefined;
+    } catch (error: unknown) {
+      if (isAbortError(error) && options.signal?.aborted) {
+        throw error;
+      }
+      this.getLogger(options).warn(
+        `Failed to fetch routes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return { ...support, error: this.toResultError(protocol.protocol, error) };
+    }
+  }
+
+  /**
+   * Execute price requests across compatible protocols
+   */
+  async fetchPrice(
+    params: IntentPriceParams,
+    options: IntentRequestOptions = {},
+  ): Promise<GeniusIntentsResults<PriceResponse>> {
+    return this.priceProtocols(params, options, await this.getCompatibleProtocols(params));
+  }
+
+  /**
+   * Price many pairs at once. Identical pairs are requested once, the protocol requests of every
+   * pair share the instance concurrency limit, and protocols with a batch price endpoint price
+   * all their pairs in one call. Results follow the order of `paramsList`.
+   */
+  async fetchPrices(
+    paramsList: IntentPriceParams[],
+    options: IntentRequestOptions = {},
+  ): Promise<IntentBatchPriceResult[]> {
     await this.ensureProtocolsInitialized();
 
-    const compatibleProtocols: IIntentProtocol[] = [];
+    const pairs = new Map<string, IntentPriceParams>();
+    for (const params of paramsList) {
+      const key = getRequestKey(params);
+      if (!pairs.has(key)) {
+        pairs.set(key, params);
+      }
+    }
+
+    // Started first so the batch calls are queued ahead of the pair requests waiting on them
+    const batched = this.startPriceBatches(Array.from(pairs.values()), options);
+
+    const pending = new Map(
+      Array.from(pairs, ([key, params]) => [
+        key,
+        this.getCompatibleProtocols(params)
+          .then(protocols =>
+            this.priceProtocols(
+              params,
+              options,
+              protocols.map(protocol => batched.get(protocol.protocol) ?? protocol),
+            ),
+          )
+          .then(
+            (results): Omit<IntentBatchPriceResult, 'params'> => ({ results }),
+            (error: unknown) => ({
+              error: error instanceof Error ? error : new Error('Unknown error'),
+            }),
+          ),
+      ]),
+    );
+
+    return Promise.all(
+      paramsList.map(async params => ({
+        params,
+        ...(await pending.get(getRequestKey(params))!),
+      })),
+    );
+  }
+
+  /**
+   * Call the batch price endpoint of each protocol that has one, once for all the pairs it
+   * serves. Returns views of those protocols answering `fetchPrice` from the batch, with a
+   * regular call for the pairs the batch could not price.
+   */
+  protected startPriceBatches(
+    pairs: IntentPriceParams[],
+    options: IntentRequestOptions,
+  ): Map<ProtocolId, IIntentProtocol> {
+    const batched = new Map<ProtocolId, IIntentProtocol>();
 
     for (const protocol of this.protocols.values()) {
-      // Skip if protocol is undefined or doesn't have required properties
-      if (!protocol || !protocol.chains) {
+      const batchPairs = pairs.filter(params =>
+        this.isRouteCompatible(protocol, params.networkIn, params.networkOut),
+      );
+      if (
+        !protocol.fetchPrices ||
+        batchPairs.length === 0 ||
+        this.health.getHealth(protocol.protocol).state === CircuitStateEnum.OPEN
+      ) {
         continue;
       }
 
-      // Check if protocol supports the required chains
-      const isSameChain = params.networkIn === params.networkOut;
-      const supportsNetworkIn = protocol.chains.includes(params.networkIn as ChainIdEnum);
-      const supportsNetworkOut = protocol.chains.includes(params.networkOut as ChainIdEnum);
+      const logger = LoggerFactory.createChildLogger(this.getLogger(options), {
+        protocol: protocol.protocol,
+      });
+      const responses = this.withScheduledTimeout(protocol.protocol, options, signal =>
+        protocol.fetchPrices!(batchPairs, { signal, logger }),
+      )
+        .then(
+          results =>
+            new Map(batchPairs.map((params, index) => [getRequestKey(params), results[index]])),
+        )
+        .catch((error: unknown) => {
+          logger.warn(
+            `Batch price request failed, pricing pairs one by one: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+          );
+          return new Map<string, PriceResponse | Error | undefined>();
+        });
 
-      if (isSameChain) {
-        // Same-chain swap: protocol must support single-chain operations and the chain
-        if (protocol.singleChain && supportsNetworkIn) {
-          compatibleProtocols.push(protocol);
-        }
-      } else {
-        // Cross-chain swap: protocol must support multi-chain operations and both chains
-        if (protocol.multiChain && supportsNetworkIn && supportsNetworkOut) {
-          compatibleProtocols.push(protocol);
-        }
-      }
+      batched.set(
+        protocol.protocol,
+        Object.create(protocol, {
+          fetchPrice: {
+            value: async (
+              params: IntentPriceParams,
+              requestOptions?: ProtocolRequestOptions,
+            ): Promise<PriceResponse> => {
+              const response = (await raceAbort(responses, requestOptions?.signal)).get(
+                getRequestKey(params),
+              );
+              return response && !(response instanceof Error)
+                ? response
+                : protocol.fetchPrice(params, requestOptions);
+            },
+          },
+        }),
+      );
     }
 
-    return compatibleProtocols;
+    return batched;
   }
 
   /**
-   * Execute price requests across compatible protocols
+   * Price one pair across the given protocols and select the best result
    */
-  async fetchPrice(params: IntentPriceParams): Promise<GeniusIntentsResults<PriceResponse>> {
+  protected async priceProtocols(
+    params: IntentPriceParams,
+    options: IntentRequestOptions,
+    compatibleProtocols: IIntentProtocol[],
+  ): Promise<GeniusIntentsResults<PriceResponse>> {
     const startTime = Date.now();
-    const compatibleProtocols = await this.getCompatibleProtocols(params);
+    options = this.withRequestContext(params, options);
 
     if (compatibleProtocols.length === 0) {
       throw sdkError(
@@ -251,29 +674,56 @@ export class GeniusIntents {
       );
     }
 
-    logger.info(`Found ${compatibleProtocols.length} compatible protocols for price request`);
+    this.getLogger(options).info(
+      `Found ${compatibleProtocols.length} compatible protocols for price request`,
+    );
 
-    const promises = compatibleProtocols.map((protocol: IIntentProtocol) =>
-      this.executePriceRequest(protocol, params),
+    // One controller per protocol so race losers can be cancelled individually
+    const links = compatibleProtocols.map(() => linkAbortController(options.signal));
+    const promises = compatibleProtocols.map((protocol: IIntentProtocol, index: number) =>
+      this.executePriceRequest(protocol, params, {
+        ...options,
+        signal: links[index]!.controller.signal,
+      }),
     );
 
     let allResults: IntentPriceResult[];
     let result: PriceResponse | undefined;
+    let ranking: RankedResult<IntentPriceResult>[] | undefined;
+    const selection = this.metrics.startSpan(SpanNameEnum.SELECTION, {
+      type: 'price',
+      method: this.config.method!,
+    });
 
-    if (this.config.method === 'race') {
-      // Race mode: return the first successful response
-      const raceResult = await this.executeRace(promises);
-      allResults = raceResult.allResults as IntentPriceResult[];
-      result = raceResult.winner?.response as PriceResponse | undefined;
-    } else {
-      // Best mode: wait for all responses and select the best one
-      allResults = (await this.executeAll(promises)) as IntentPriceResult[];
-      result = this.selectBestPriceResponse(allResults);
+    try {
+      if (this.config.method === 'race') {
+        // Race mode: return the first successful response and cancel the others
+        const raceResult = await this.executeRace(promises);
+        links.forEach(link => link.controller.abort());
+        allResults = raceResult.allResults as IntentPriceResult[];
+        result = raceResult.winner?.response as PriceResponse | undefined;
+      } else {
+        // Best mode: wait for all responses and select the best one
+        allResults = (await this.executeAll(promises)) as IntentPriceResult[];
+        if (this.config.scoring === 'netValue') {
+          await this.scoreResults(allResults, params, options.signal, this.getLogger(options));
+        }
+        ranking = this.rankResults(allResults, params);
+        result = ranking[0]?.result.response;
+      }
+      this.recordSelection('price', selection, result);
+    } finally {
+      links.forEach(link => link.unlink());
+      selection.end();
     }
 
+    throwIfAborted(options.signal);
+
     return {
       result,
       allResults,
+      ranking,
+      cached: this.isCachedResponse(allResults, result),
       method: this.config.method!,
       totalDuration: Date.now() - startTime,
     };
@@ -282,19 +732,16 @@ export class GeniusIntents {
   /**
    * Execute quote requests across compatible protocols
    */
-  async fetchQuote(params: IntentQuoteParams): Promise<GeniusIntentsResults<QuoteResponse>> {
+  async fetchQuote(
+    params: GeniusIntentsQuoteParams,
+    options: IntentRequestOptions = {},
+  ): Promise<GeniusIntentsResults<QuoteResponse>> {
     const startTime = Date.now();
+    options = this.withRequestContext(params, options);
 
-    if (this.config.simulateQuotes || this.config.checkApprovals) {
-      if (!this.config.rpcs?.[params.networkIn]) {
-        throw sdkError(
-          SdkErrorEnum.MISSING_RPC_URL,
-          'rpcs are required for quote simulation and approval checks',
-        );
-      }
-    }
+    this.validateQuoteRpc(params);
 
-    const compatibleProtocols = await this.getCompatibleProtocols(params);
+    let compatibleProtocols = await this.getCompatibleProtocols(params);
 
     if (compatibleProtocols.length === 0) {
       throw sdkError(
@@ -303,28 +750,90 @@ export class GeniusIntents {
       );
     }
 
-    logger.info(`Found ${compatibleProtocols.length} compatible protocols for quote request`);
+    this.getLogger(options).info(
+      `Found ${compatibleProtocols.length} compatible protocols for quote request`,
+    );
+
+    let priceResults: IntentPriceResult[] | undefined;
+    let priceResponses = this.getPriorPriceResponses(params.priceResponse);
+    if (this.config.quoteTopK && this.config.quoteTopK >= 1) {
+      ({
+        protocols: compatibleProtocols,
+        priceResults,
+        priceResponses,
+      } = await this.selectTopProtocols(
+        compatibleProtocols,
+        params,
+        options,
+        this.config.quoteTopK,
+        priceResponses,
+      ));
+
+      if (compatibleProtocols.length === 0) {
+        throw sdkError(
+          SdkErrorEnum.QUOTE_NOT_FOUND,
+          `None of the ${priceResults.length} priced protocols returned a price to quote`,
+          { cause: priceResults.find(result => result.error)?.error, details: { priceResults } },
+        );
+      }
+    }
 
-    const promises = compatibleProtocols.map((protocol: IIntentProtocol) =>
-      this.executeQuoteRequest(protocol, params),
+    // One controller per protocol so race losers can be cancelled individually
+    const links = compatibleProtocols.map(() => linkAbortController(options.signal));
+    const promises = compatibleProtocols.map((protocol: IIntentProtocol, index: number) =>
+      this.executeQuoteRequest(
+        protocol,
+        { ...params, priceResponse: priceResponses.get(protocol.protocol) },
+        {
+          ...options,
+          signal: links[index]!.controller.signal,
+        },
+      ),
     );
 
     let allResults: IntentQuoteResult[];
     let result: QuoteResponse | undefined;
+    let ranking: RankedResult<IntentQuoteResult>[] | undefined;
+    const selection = this.metrics.startSpan(SpanNameEnum.SELECTION, {
+      type: 'quote',
+      method: this.config.method!,
+    });
 
-    if (this.config.method === 'race') {
-      // Race mode: return the first successful response
-      const raceResult = await this.executeRace(promises);
-      allResults = raceResult.allResults as IntentQuoteResult[];
-      result = raceResult.winner?.response as QuoteResponse | undefined;
-    } else {
-      // Best mode: wait for all responses and select the best one
-      allResults = (await this.executeAll(promises)) as IntentQuoteResult[];
-      result = this.selectBestQuoteResponse(allResults);
+    try {
+      if (this.config.method === 'race') {
+        // Race mode: return the first successful response and cancel the others
+        const raceResult = await this.executeRace(promises);
+        links.forEach(link => link.controller.abort());
+        allResults = raceResult.allResults as IntentQuoteResult[];
+        result = raceResult.winner?.response as QuoteResponse | undefined;
+      } else {
+        // Best mode: wait for all responses and select the best one
+        allResults = (await this.executeAll(promises)) as IntentQuoteResult[];
+        if (this.config.scoring === 'netValue') {
+          // Approval gas is only charged once the allowance of every candidate is known
+          if (!isExactOut(params)) {
+            await this.resolveApprovals(allResults, options.signal, this.getLogger(options));
+          }
+          await this.scoreResults(allResults, params, options.signal, this.getLogger(options));
+        }
+        ranking = this.rankResults(allResults, params);
+        result = ranking[0]?.result.response;
+      }
+      this.recordSelection('quote', selection, result);
+    } finally {
+      links.forEach(link => link.unlink());
+      selection.end();
     }
 
+    throwIfAborted(options.signal);
+
     if (this.config.checkApprovals && result) {
-      const approvalChecked = await this.checkApproval(result);
+      const approvalChecked = await withSpan(
+        this.metrics,
+        SpanNameEnum.APPROVAL_CHECK,
+        { protocol: result.protocol },
+        () => this.checkApproval(result, options.signal),
+      );
       if (result.evmExecutionPayload && approvalChecked) {
         result.evmExecutionPayload.approval = {
           ...result.evmExecutionPayload.approval,
@@ -336,67 +845,879 @@ export class GeniusIntents {
     return {
       result,
       allResults,
+      ranking,
+      priceResults,
+      cached: this.isCachedResponse(allResults, result),
       method: this.config.method!,
       totalDuration: Date.now() - startTime,
     };
   }
 
+  /**
+   * Key the price responses of an earlier call by the protocol that returned them
+   */
+  protected getPriorPriceResponses(
+    priceResponse?: PriorPriceResponses,
+  ): Map<ProtocolId, PriceResponse> {
+    if (!priceResponse) {
+      return new Map();
+    }
+    if ('allResults' in priceResponse && Array.isArray(priceResponse.allResults)) {
+      return new Map(
+        (priceResponse.allResults as IntentPriceResult[])
+          .filter(result => result.response && !result.error)
+          .map(result => [result.protocol, result.response!]),
+      );
+    }
+    if ('protocolResponse' in priceResponse && typeof priceResponse.protocol === 'string') {
+      return new Map([[priceResponse.protocol, priceResponse as PriceResponse]]);
+    }
+    return new Map(
+      Object.entries(priceResponse as Partial<Record<ProtocolId, PriceResponse>>).filter(
+        (entry): entry is [ProtocolId, PriceResponse] => entry[1] !== undefined,
+      ),
+    );
+  }
+
+  /**
+   * First phase of `quoteTopK`: price every protocol and keep the best ranked ones, each with
+   * the price response its quote reuses. Protocols with a prior price response are not priced
+   * again.
+   */
+  protected async selectTopProtocols(
+    protocols: IIntentProtocol[],
+    params: GeniusIntentsQuoteParams,
+    options: IntentRequestOptions,
+    topK: number,
+    priorResponses: Map<ProtocolId, PriceResponse>,
+  ): Promise<{
+    protocols: IIntentProtocol[];
+    priceResults: IntentPriceResult[];
+    priceResponses: Map<ProtocolId, PriceResponse>;
+  }> {
+    const priceResults = (await this.executeAll(
+      protocols.map(protocol => {
+        const response = priorResponses.get(protocol.protocol);
+        return response
+          ? Promise.resolve({
+              protocol: protocol.protocol,
+              response,
+              duration: 0,
+              queueDuration: 0,
+              attempts: 0,
+            })
+          : this.executePriceRequest(protocol, params, options);
+      }),
+    )) as IntentPriceResult[];
+
+    throwIfAborted(options.signal);
+
+    if (this.config.scoring === 'netValue') {
+      await this.scoreResults(priceResults, params, options.signal, this.getLogger(options));
+    }
+    const top = this.rankResults(priceResults, params)
+      .slice(0, Math.floor(topK))
+      .map(entry => entry.result);
+
+    this.getLogger(options).info(
+      `Quoting the top ${top.length} of ${protocols.length} priced protocols`,
+    );
+
+    return {
+      protocols: top.map(result =>
+        protocols.find(protocol => protocol.protocol === result.protocol)!,
+      ),
+      priceResults,
+      priceResponses: new Map(top.map(result => [result.protocol, result.response!])),
+    };
+  }
+
+  /**
+   * Split one order over several protocols. Every compatible protocol is priced at each fraction
+   * of amountIn, the allocation with the highest combined output is picked and every leg is
+   * quoted for its share. Only exact-in swaps can be split.
+   */
+  async fetchSplitQuote(
+    params: IntentQuoteParams,
+    options: SplitQuoteOptions = {},
+  ): Promise<SplitQuoteResult> {
+    const startTime = Date.now();
+    const { parts = DEFAULT_SPLIT_PARTS, maxLegs = parts, ...rest } = options;
+    const requestOptions = this.withRequestContext(params, rest);
+
+    if (isExactOut(params)) {
+      throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Split routing only supports exact-in swaps');
+    }
+    if (!Number.isInteger(parts) || parts < 1 || !Number.isInteger(maxLegs) || maxLegs < 1) {
+      throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'parts and maxLegs must be positive integers');
+    }
+
+    this.validateQuoteRpc(params);
+
+    const compatibleProtocols = await this.getCompatibleProtocols(params);
+
+    if (compatibleProtocols.length === 0) {
+      throw sdkError(
+        SdkErrorEnum.INVALID_PARAMS,
+        `No compatible protocols found for quote from chain ${params.networkIn} to chain ${params.networkOut}`,
+      );
+    }
+
+    this.getLogger(requestOptions).info(
+      `Pricing ${parts} parts of the order on ${compatibleProtocols.length} compatible protocols`,
+    );
+
+    const amounts = Array.from({ length: parts }, (_, index) =>
+      getPartAmount(params.amountIn, index + 1, parts),
+    );
+    const priceResults = await this.executeAll(
+      compatibleProtocols.flatMap(protocol =>
+        amounts.map(amountIn =>
+          this.executePriceRequest(protocol, { ...params, amountIn }, requestOptions),
+        ),
+      ),
+    );
+
+    throwIfAborted(requestOptions.signal);
+
+    // priced[protocol][parts - 1]
+    const priced = compatibleProtocols.map((_, protocolIndex) =>
+      priceResults
+        .slice(protocolIndex * parts, (protocolIndex + 1) * parts)
+        .map(result => (result.response && !result.error ? result.response : undefined)),
+    );
+    const allocation = allocateSplit(
+      priced.map(responses => responses.map(response => response && BigInt(response.amountOut))),
+      parts,
+      maxLegs,
+    );
+
+    if (!allocation) {
+      throw sdkError(SdkErrorEnum.PRICE_NOT_FOUND, 'No protocol could price the split order');
+    }
+
+    // Largest leg first, it also takes the rounding remainder of the part amounts
+    const allocations = [...allocation.allocations].sort(
+      (a, b) => b.parts - a.parts || a.index - b.index,
+    );
+    const legAmounts = allocations.map(entry => getPartAmount(params.amountIn, entry.parts, parts));
+    const remainder = legAmounts.reduce(
+      (left, amount) => left - BigInt(amount),
+      BigInt(params.amountIn),
+    );
+    legAmounts[0] = (BigInt(legAmounts[0]!) + remainder).toString();
+
+    const quoteResults = await this.executeAll(
+      allocations.map((entry, index) => {
+        const amountIn = legAmounts[index]!;
+        const priceResponse = priced[entry.index]![entry.parts - 1];
+        return this.executeQuoteRequest(
+          compatibleProtocols[entry.index]!,
+          {
+            ...params,
+            amountIn,
+            // Only reusable when the leg kept the exact amount it was priced at
+            priceResponse: priceResponse?.amountIn === amountIn ? priceResponse : undefined,
+          },
+          requestOptions,
+        );
+      }),
+    );
+
+    throwIfAborted(requestOptions.signal);
+
+    const legs = allocations.map((entry, index): SplitQuoteLeg => {
+      const result = quoteResults[index]!;
+      if (!result.response || result.error) {
+        throw sdkError(
+          SdkErrorEnum.QUOTE_NOT_FOUND,
+          `Failed to quote the ${result.protocol} leg of the split order`,
+          { protocol: result.protocol, cause: result.error },
+        );
+      }
+      return {
+        protocol: result.protocol,
+        index,
+        parts: entry.parts,
+        amountIn: legAmounts[index]!,
+        amountOut: result.response.amountOut,
+        quote: result.response,
+      };
+    });
+
+    await this.checkSplitApprovals(
+      legs.map(leg => leg.quote),
+      requestOptions.signal,
+    );
+
+    return {
+      amountIn: params.amountIn,
+      amountOut: legs.reduce((total, leg) => total + BigInt(leg.amountOut), BigInt(0)).toString(),
+      parts,
+      legs,
+      priceResults,
+      quoteResults,
+      totalDuration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Quote a cross-chain swap that no bridge supports directly by chaining a swap into an
+   * intermediate asset on the source chain, a bridge of that asset and a swap out of it on the
+   * destination chain. Each intermediate asset is tried as its own route and the route
+   * delivering the most wins. Every step is sized by the minimum output of the step before it.
+   */
+  async fetchCompositeQuote(
+    params: IntentQuoteParams,
+    options: CompositeQuoteOptions = {},
+  ): Promise<CompositeQuoteResult> {
+    const startTime = Date.now();
+    const { intermediates, ...rest } = options;
+    const requestOptions = this.withRequestContext(params, rest);
+
+    if (params.networkIn === params.networkOut) {
+      throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Composite routes are only built across chains');
+    }
+    if (isExactOut(params)) {
+      throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Composite routes only support exact-in swaps');
+    }
+
+    this.validateQuoteRpc(params);
+
+    const assets = intermediates ?? getIntermediateAssets(params.networkIn, params.networkOut);
+    if (assets.length === 0) {
+      throw sdkError(
+        SdkErrorEnum.INVALID_PARAMS,
+        `No intermediate asset known between chain ${params.networkIn} and chain ${params.networkOut}`,
+      );
+    }
+
+    const outcomes = await Promise.all(
+      assets.map(intermediate =>
+        this.quoteCompositeRoute(params, intermediate, requestOptions).then(
+          (route): CompositeRoute | CompositeRouteFailure => route,
+          (error: unknown) => ({
+            intermediate,
+            error: error instanceof Error ? error : new Error('Unknown error'),
+          }),
+        ),
+      ),
+    );
+
+    throwIfAborted(requestOptions.signal);
+
+    const routes = outcomes
+      .filter((outcome): outcome is CompositeRoute => 'steps' in outcome)
+      .sort((a, b) => {
+        const difference = BigInt(b.amountOut) - BigInt(a.amountOut);
+        return difference === BigInt(0) ? 0 : difference > BigInt(0) ? 1 : -1;
+      });
+    const failures = outcomes.filter(
+      (outcome): outcome is CompositeRouteFailure => 'error' in outcome,
+    );
+
+    failures.forEach(({ intermediate, error }) =>
+      this.getLogger(requestOptions).warn(
+        `Composite route through ${intermediate.symbol} failed: ${error.message}`,
+      ),
+    );
+
+    if (!routes[0]) {
+      throw sdkError(
+        SdkErrorEnum.QUOTE_NOT_FOUND,
+        `No composite route found from chain ${params.networkIn} to chain ${params.networkOut}`,
+        { cause: failures[0]?.error },
+      );
+    }
+
+    return {
+      route: routes[0],
+      routes,
+      failures,
+      totalDuration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Quote the steps of one composite route in order, each with the best protocol for it
+   */
+  protected async quoteCompositeRoute(
+    params: IntentQuoteParams,
+    intermediate: IntermediateAsset,
+    options: IntentRequestOptions,
+  ): Promise<CompositeRoute> {
+    const plan: (Pick<
+      IntentQuoteParams,
+      'networkIn' | 'networkOut' | 'tokenIn' | 'tokenOut' | 'from' | 'receiver'
+    > & { type: CompositeStepTypeEnum })[] = [];
+    // Without a receiver the sender receives on the destination chain, same as a direct quote
+    const receiver = params.receiver ?? params.from;
+
+    if (!isSameToken(params.tokenIn, intermediate.tokenIn)) {
+      plan.push({
+        type: CompositeStepTypeEnum.SOURCE_SWAP,
+        networkIn: params.networkIn,
+        networkOut: params.networkIn,
+        tokenIn: params.tokenIn,
+        tokenOut: intermediate.tokenIn,
+        from: params.from,
+        receiver: params.from,
+      });
+    }
+    plan.push({
+      type: CompositeStepTypeEnum.BRIDGE,
+      networkIn: params.networkIn,
+      networkOut: params.networkOut,
+      tokenIn: intermediate.tokenIn,
+      tokenOut: intermediate.tokenOut,
+      from: params.from,
+      receiver,
+    });
+    if (!isSameToken(params.tokenOut, intermediate.tokenOut)) {
+      plan.push({
+        type: CompositeStepTypeEnum.DESTINATION_SWAP,
+        networkIn: params.networkOut,
+        networkOut: params.networkOut,
+        tokenIn: intermediate.tokenOut,
+        tokenOut: params.tokenOut,
+        from: receiver,
+        receiver,
+      });
+    }
+
+    const steps: CompositeRouteStep[] = [];
+    let amountIn = params.amountIn;
+
+    for (const { type, ...step } of plan) {
+      const { result } = await this.fetchQuote(
+        { ...params, ...step, amountIn, priceResponse: undefined },
+        options,
+      );
+      if (!result) {
+        throw sdkError(
+          SdkErrorEnum.QUOTE_NOT_FOUND,
+          `No ${type} quote from ${step.tokenIn} to ${step.tokenOut}`,
+        );
+      }
+
+      const minAmountOut = applySlippage(result.amountOut, params.slippage);
+      steps.push({
+        type,
+        protocol: result.protocol,
+        amountIn,
+        amountOut: result.amountOut,
+        minAmountOut,
+        quote: result,
+      });
+      amountIn = minAmountOut;
+    }
+
+    const last = steps[steps.length - 1]!;
+    return {
+      intermediate,
+      steps,
+      amountIn: params.amountIn,
+      amountOut: last.amountOut,
+      minAmountOut: last.minAmountOut,
+      slippage: compoundSlippage(steps.map(() => params.slippage)),
+    };
+  }
+
+  /**
+   * Stream price results as each protocol responds, together with the best result so far.
+   * Breaking out of the loop cancels the requests that are still outstanding.
+   */
+  async *streamPrices(
+    params: IntentPriceParams,
+    options: IntentRequestOptions = {},
+  ): AsyncGenerator<IntentStreamUpdate<IntentPriceResult>, void, undefined> {
+    options = this.withRequestContext(params, options);
+    const compatibleProtocols = await this.getCompatibleProtocols(params);
+
+    if (compatibleProtocols.length === 0) {
+      throw sdkError(
+        SdkErrorEnum.INVALID_PARAMS,
+        `No compatible protocols found for swap from chain ${params.networkIn} to chain ${params.networkOut}`,
+      );
+    }
+
+    this.getLogger(options).info(
+      `Streaming prices from ${compatibleProtocols.length} compatible protocols`,
+    );
+
+    yield* this.streamResults(
+      compatibleProtocols,
+      (protocol, requestOptions) => this.executePriceRequest(protocol, params, requestOptions),
+      params,
+      options,
+    );
+  }
+
+  /**
+   * Stream quote results as each protocol responds, together with the best result so far.
+   * Quotes are simulated when enabled; approval checks only run in `fetchQuote`.
+   * Breaking out of the loop cancels the requests that are still outstanding.
+   */
+  async *streamQuotes(
+    params: GeniusIntentsQuoteParams,
+    options: IntentRequestOptions = {},
+  ): AsyncGenerator<IntentStreamUpdate<IntentQuoteResult>, void, undefined> {
+    options = this.withRequestContext(params, options);
+    this.validateQuoteRpc(params);
+
+    const compatibleProtocols = await this.getCompatibleProtocols(params);
+
+    if (compatibleProtocols.length === 0) {
+      throw sdkError(
+        SdkErrorEnum.INVALID_PARAMS,
+        `No compatible protocols found for quote from chain ${params.networkIn} to chain ${params.networkOut}`,
+      );
+    }
+
+    this.getLogger(options).info(
+      `Streaming quotes from ${compatibleProtocols.length} compatible protocols`,
+    );
+
+    const priceResponses = this.getPriorPriceResponses(params.priceResponse);
+
+    yield* this.streamResults(
+      compatibleProtocols,
+      (protocol, requestOptions) =>
+        this.executeQuoteRequest(
+          protocol,
+          { ...params, priceResponse: priceResponses.get(protocol.protocol) },
+          requestOptions,
+        ),
+      params,
+      options,
+    );
+  }
+
+  protected async *streamResults<T extends RankableResult>(
+    protocols: IIntentProtocol[],
+    execute: (protocol: IIntentProtocol, options: IntentRequestOptions) => Promise<T>,
+    params: IntentPriceParams,
+    options: IntentRequestOptions,
+  ): AsyncGenerator<IntentStreamUpdate<T>, void, undefined> {
+    const links = protocols.map(() => linkAbortController(options.signal));
+    const pending = new Map<number, Promise<{ index: number; result: T }>>();
+
+    protocols.forEach((protocol, index) => {
+      const promise = execute(protocol, {
+        ...options,
+        signal: links[index]!.controller.signal,
+      }).then(
+        result => ({ index, result }),
+        // Requests aborted while still queued reject instead of resolving with an error result
+        error => ({
+          index,
+          result: {
+            protocol: protocol.protocol,
+            error: error instanceof Error ? error : new Error('Unknown error'),
+            duration: 0,
+            queueDuration: 0,
+          } as T,
+        }),
+      );
+      pending.set(index, promise);
+    });
+
+    const results: T[] = [];
+    let scoringContext: Promise<{ gasPrice: bigint; nativeRate: bigint } | undefined> | undefined;
+
+    try {
+      while (pending.size > 0) {
+        const { index, result } = await Promise.race(pending.values());
+        pending.delete(index);
+        throwIfAborted(options.signal);
+
+        if (
+          this.config.scoring === 'netValue' &&
+          !isExactOut(params) &&
+          result.response &&
+          !result.error
+        ) {
+          scoringContext ??= this.getScoringContext(
+            params,
+            options.signal,
+            this.getLogger(options),
+          );
+          const context = await scoringContext;
+          if (context) {
+            result.score = scoreNetValue(result.response, context.gasPrice, context.nativeRate);
+          }
+        }
+
+        results.push(result);
+
+        yield {
+          result,
+          best: this.rankResults(results, params)[0]?.result,
+          completed: results.length,
+          total: protocols.length,
+        };
+      }
+    } finally {
+      // Runs when the stream completes, fails or the consumer breaks out early
+      links.forEach(link => {
+        link.controller.abort();
+        link.unlink();
+      });
+    }
+  }
+
+  protected recordSelection(
+    type: MiddlewareStage,
+    span: ISpan,
+    response: PriceResponse | QuoteResponse | undefined,
+  ): void {
+    span.setAttributes({ winner: response?.protocol ?? 'none' });
+    if (response) {
+      this.metrics.add(MetricNameEnum.WINS, 1, {
+        protocol: response.protocol,
+        type,
+        method: this.config.method!,
+      });
+    }
+  }
+
   /**
    * Execute a single price request with timeout and error handling
    */
   protected async executePriceRequest(
     protocol: IIntentProtocol,
     params: IntentPriceParams,
+    options: IntentRequestOptions = {},
   ): Promise<IntentPriceResult> {
+    options = this.withProtocolContext(protocol, options);
+    return this.withTelemetry('price', protocol, () =>
+      this.withMiddleware('price', protocol, params, hookedParams =>
+        this.withCache('price', protocol, hookedParams, options, requestOptions =>
+          this.withCircuitBreaker(protocol, requestOptions, () =>
+            this.requestPrice(protocol, hookedParams, requestOptions),
+          ),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Execute a single quote request with timeout and error handling
+   */
+  protected async executeQuoteRequest(
+    protocol: IIntentProtocol,
+    params: IntentQuoteParams,
+    options: IntentRequestOptions = {},
+  ): Promise<IntentQuoteResult> {
+    options = this.withProtocolContext(protocol, options);
+    return this.withTelemetry('quote', protocol, () =>
+      this.withMiddleware('quote', protocol, params, hookedParams =>
+        this.withCache('quote', protocol, hookedParams, options, requestOptions =>
+          this.withCircuitBreaker(protocol, requestOptions, () =>
+            this.requestQuote(protocol, hookedParams, requestOptions),
+          ),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Emit the span, request count, latency and error count of a protocol request.
+   * Cancelled requests, e.g. race losers, are not counted as errors.
+   */
+  protected async withTelemetry<T extends RankableResult>(
+    type: MiddlewareStage,
+    protocol: IIntentProtocol,
+    request: () => Promise<T>,
+  ): Promise<T> {
+    const attributes = { protocol: protocol.protocol, type };
+    const spanName = type === 'price' ? SpanNameEnum.PRICE_REQUEST : SpanNameEnum.QUOTE_REQUEST;
+
+    return withSpan(this.metrics, spanName, attributes, async span => {
+      const result = await request();
+      const cancelled = !!result.error && isAbortError(result.error);
+
+      span.setAttributes({
+        cached: !!result.cached,
+        attempts: result.attempts ?? 0,
+        success: !result.error,
+        cancelled,
+      });
+      this.metrics.add(MetricNameEnum.REQUESTS, 1, { ...attributes, cached: !!result.cached });
+      this.metrics.record(MetricNameEnum.LATENCY, result.duration, {
+        ...attributes,
+        success: !result.error,
+      });
+
+      if (result.error && !cancelled) {
+        const code = isSdkError(result.error)
+          ? result.error.code
+          : getErrorCode(
+              result.error,
+              type === 'price' ? SdkErrorEnum.PRICE_NOT_FOUND : SdkErrorEnum.QUOTE_NOT_FOUND,
+            );
+        span.setAttributes({ code });
+        span.recordError(result.error);
+        this.metrics.add(MetricNameEnum.ERRORS, 1, { ...attributes, code });
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Run the before hooks, then the request unless a hook answered it, then the after hooks on
+   * success or the error hooks on failure
+   */
+  protected async withMiddleware<S extends MiddlewareStage, T extends RankableResult>(
+    stage: S,
+    protocol: IIntentProtocol,
+    params: MiddlewareStageTypes[S]['params'],
+    request: (params: MiddlewareStageTypes[S]['params']) => Promise<T>,
+  ): Promise<T> {
+    if (!this.middleware.has(protocol.protocol)) {
+      return request(params);
+    }
+
     const startTime = Date.now();
+    let result: T;
 
     try {
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Request timeout')), this.config.timeout);
-      });
+      const before = await this.middleware.before(stage, { protocol: protocol.protocol, params });
+      params = before.params;
+      result = before.response
+        ? ({
+            protocol: protocol.protocol,
+            response: before.response,
+            duration: Date.now() - startTime,
+            queueDuration: 0,
+            attempts: 0,
+          } as RankableResult as T)
+        : await request(params);
+
+      if (result.response) {
+        const response = await this.middleware.after(stage, {
+          protocol: protocol.protocol,
+          params,
+          response: result.response as MiddlewareStageTypes[S]['response'],
+        });
+        return { ...result, response };
+      }
+    } catch (error) {
+      result = {
+        protocol: protocol.protocol,
+        error: this.toResultError(protocol.protocol, error),
+        duration: Date.now() - startTime,
+        queueDuration: 0,
+        attempts: 0,
+      } as RankableResult as T;
+    }
+
+    const handled = await this.middleware.onError({
+      stage,
+      protocol: protocol.protocol,
+      params,
+      error: result.error || new Error('Unknown error'),
+    } as ErrorHookContext);
+
+    return { ...result, response: handled.response, error: handled.error };
+  }
+
+  /**
+   * Serve a successful response from the cache when enabled, otherwise run the request once
+   * for every concurrent identical caller and cache its response
+   */
+  protected async withCache<T extends RankableResult>(
+    type: CachedRequestType,
+    protocol: IIntentProtocol,
+    params: IntentPriceParams | IntentQuoteParams,
+    options: IntentRequestOptions,
+    request: (options: IntentRequestOptions) => Promise<T>,
+  ): Promise<T> {
+    const cache = this.cache;
+    const ttl = cache?.getTtl(type, protocol.protocol) ?? 0;
+
+    if (!cache || ttl <= 0) {
+      return request(options);
+    }
+
+    const key = cache.getKey(type, protocol.protocol, params);
+    const cached = await cache.get<T['response']>(key);
+    if (cached) {
+      this.getLogger(options).debug(`Serving cached ${type} for ${protocol.protocol}`);
+      return {
+        protocol: protocol.protocol,
+        response: copyCachedResponse(cached),
+        duration: 0,
+        queueDuration: 0,
+        attempts: 0,
+        cached: true,
+      } as T;
+    }
+
+    const result = await cache.coalesce(
+      key,
+      async signal => {
+        const fetched = await request({ ...options, signal });
+        if (fetched.response && !fetched.error) {
+          await cache.set(key, copyCachedResponse(fetched.response), ttl);
+        }
+        return fetched;
+      },
+      options.signal,
+    );
+
+    // Each caller gets its own result and response, scoring and approval checks mutate them
+    return {
+      ...result,
+      response: result.response && copyCachedResponse(result.response),
+    };
+  }
+
+  /**
+   * Skip protocols whose circuit is open and record the outcome of every request sent
+   */
+  protected async withCircuitBreaker<T extends RankableResult>(
+    protocol: IIntentProtocol,
+    options: IntentRequestOptions,
+    request: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.health.tryAcquire(protocol.protocol)) {
+      const nextProbeAt = this.health.getNextProbeAt(protocol.protocol);
+      this.getLogger(options).debug(`Skipping ${protocol.protocol}, circuit open`);
+      return {
+        protocol: protocol.protocol,
+        error: sdkError(
+          SdkErrorEnum.CIRCUIT_OPEN,
+          `${protocol.protocol} skipped after repeated failures${
+            nextProbeAt ? `, next probe at ${new Date(nextProbeAt).toISOString()}` : ''
+          }`,
+          { protocol: protocol.protocol, retryable: false },
+        ),
+        duration: 0,
+        queueDuration: 0,
+        attempts: 0,
+      } as RankableResult as T;
+    }
+
+    let result: T;
+    try {
+      result = await request();
+    } catch (error) {
+      this.health.release(protocol.protocol);
+      throw error;
+    }
 
-      const response = await Promise.race([protocol.fetchPrice(params), timeoutPromise]);
+    if (options.signal?.aborted) {
+      // Cancelled by the caller or a race winner, says nothing about the protocol
+      this.health.release(protocol.protocol);
+    } else {
+      this.health.record(protocol.protocol, result.duration, result.error);
+    }
+
+    return result;
+  }
+
+  protected async requestPrice(
+    protocol: IIntentProtocol,
+    params: IntentPriceParams,
+    options: IntentRequestOptions,
+  ): Promise<IntentPriceResult> {
+    const queuedAt = Date.now();
+    let startTime = queuedAt;
+    let queueDuration = 0;
+    let attempts = 0;
+
+    try {
+      const response = await this.withScheduledTimeout(protocol.protocol, options, signal => {
+        startTime = Date.now();
+        queueDuration = startTime - queuedAt;
+        return this.withRetry(
+          protocol.protocol,
+          () => protocol.fetchPrice(params, { signal, logger: options.logger }),
+          signal,
+          attempt => (attempts = attempt),
+          this.getLogger(options),
+        );
+      });
 
       return {
         protocol: protocol.protocol,
         response,
         duration: Date.now() - startTime,
+        queueDuration,
+        attempts,
       };
     } catch (error) {
       return {
         protocol: protocol.protocol,
-        error: error instanceof Error ? error : new Error('Unknown error'),
+        error: this.toResultError(protocol.protocol, error),
         duration: Date.now() - startTime,
+        queueDuration,
+        attempts,
       };
     }
   }
 
-  /**
-   * Execute a single quote request with timeout and error handling
-   */
-  protected async executeQuoteRequest(
+  protected async requestQuote(
     protocol: IIntentProtocol,
     params: IntentQuoteParams,
+    options: IntentRequestOptions,
   ): Promise<IntentQuoteResult> {
-    const startTime = Date.now();
+    const queuedAt = Date.now();
+    let startTime = queuedAt;
+    let queueDuration = 0;
+    let attempts = 0;
 
     try {
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Request timeout')), this.config.timeout);
+      // Only the protocol call holds a scheduler slot, simulation runs against our own RPCs
+      let response = await this.withScheduledTimeout(protocol.protocol, options, signal => {
+        startTime = Date.now();
+        queueDuration = startTime - queuedAt;
+        return this.withRetry(
+          protocol.protocol,
+          () => protocol.fetchQuote(params, { signal, logger: options.logger }),
+          signal,
+          attempt => (attempts = attempt),
+          this.getLogger(options),
+        );
       });
 
-      const response = await Promise.race([protocol.fetchQuote(params), timeoutPromise]);
-
       if (this.config.simulateQuotes) {
-        const simulationResult = await this.simulateQuote(response);
-        response.simulationSuccess = simulationResult.simulationSuccess;
-        if (response.evmExecutionPayload && simulationResult.quoteGasEstimate) {
-          response.evmExecutionPayload.transactionData.gasEstimate =
-            simulationResult.quoteGasEstimate;
-        }
-        if (response.evmExecutionPayload && simulationResult.approvalGasEstimate) {
-          response.evmExecutionPayload.approval.txnData!.gasEstimate =
-            simulationResult.approvalGasEstimate;
+        const hooked = await this.middleware.beforeSimulate({
+          protocol: protocol.protocol,
+          params,
+          response,
+        });
+        response = hooked.response ?? response;
+
+        if (!hooked.skip) {
+          const simulationResult = await withSpan(
+            this.metrics,
+            SpanNameEnum.SIMULATION,
+            { protocol: protocol.protocol },
+            async span => {
+              const simulation = await this.simulateQuote(
+                response,
+                options.signal,
+                this.getLogger(options),
+              );
+              span.setAttributes({ success: !!simulation.simulationSuccess });
+              if (simulation.simulationError) {
+                span.recordError(simulation.simulationError);
+              }
+              return simulation;
+            },
+          );
+          response.simulationSuccess = simulationResult.simulationSuccess;
+          if (response.evmExecutionPayload && simulationResult.quoteGasEstimate) {
+            response.evmExecutionPayload.transactionData.gasEstimate =
+              simulationResult.quoteGasEstimate;
+          }
+          if (response.evmExecutionPayload && simulationResult.approvalGasEstimate) {
+            response.evmExecutionPayload.approval.txnData!.gasEstimate =
+              simulationResult.approvalGasEstimate;
+          }
         }
       }
 
@@ -404,16 +1725,164 @@ export class GeniusIntents {
         protocol: protocol.protocol,
         response,
         duration: Date.now() - startTime,
+        queueDuration,
+        attempts,
       };
     } catch (error) {
       return {
         protocol: protocol.protocol,
-        error: error instanceof Error ? error : new Error('Unknown error'),
+        error: this.toResultError(protocol.protocol, error),
         duration: Date.now() - startTime,
+        queueDuration,
+        attempts,
       };
     }
   }
 
+  /**
+   * Attribute SDK errors to the protocol they came from, other errors are passed through
+   */
+  protected toResultError(protocol: ProtocolId, error: unknown): Error {
+    if (isSdkError(error) && !error.protocol) {
+      error.protocol = protocol;
+    }
+    return error instanceof Error ? error : new Error('Unknown error');
+  }
+
+  /**
+   * Run a protocol call with its own abort signal. The signal is aborted, and the call rejected,
+   * when the configured timeout elapses or the parent signal aborts.
+   */
+  protected async withTimeout<T>(
+    task: (signal: AbortSignal) => Promise<T>,
+    parentSignal?: AbortSignal,
+    timeout: number = this.config.timeout!,
+  ): Promise<T> {
+    const { controller, unlink } = linkAbortController(parentSignal);
+    const timer = setTimeout(() => controller.abort(new Error('Request timeout')), timeout);
+
+    try {
+      return await raceAbort(task(controller.signal), controller.signal);
+    } finally {
+      clearTimeout(timer);
+      unlink();
+    }
+  }
+
+  /**
+   * Run a protocol call in a scheduler slot. The timeout starts at enqueue, so a call still
+   * queued when it elapses is dropped from the queue without taking a slot.
+   */
+  protected async withScheduledTimeout<T>(
+    protocol: ProtocolId,
+    options: IntentRequestOptions,
+    task: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    return this.withTimeout(
+      signal =>
+        this.scheduler.schedule(() => task(signal), { ...this.scheduleOptions(options), signal }),
+      options.signal,
+      this.getProtocolTimeout(protocol),
+    );
+  }
+
+  /**
+   * True when the selected response was served from the cache
+   */
+  protected isCachedResponse(
+    results: RankableResult[],
+    response: PriceResponse | QuoteResponse | undefined,
+  ): boolean {
+    return results.some(result => result.cached === true && result.response === response);
+  }
+
+  /**
+   * Retry a protocol call according to its retry policy, never waiting past the request timeout
+   */
+  protected withRetry<T>(
+    protocol: ProtocolId,
+    task: () => Promise<T>,
+    signal: AbortSignal,
+    onAttempt: (attempt: number) => void,
+    logger: ILogger = this.logger,
+  ): Promise<T> {
+    return withRetry(task, this.getRetryPolicy(protocol), {
+      signal,
+      deadline: Date.now() + this.getProtocolTimeout(protocol),
+      onAttempt: attempt => {
+        if (attempt > 1) {
+          logger.debug(`Retrying ${protocol}, attempt ${attempt}`);
+        }
+        onAttempt(attempt);
+      },
+    });
+  }
+
+  protected getRetryPolicy(protocol: ProtocolId): Required<RetryPolicy> {
+    const { protocols, ...policy } = this.config.retry ?? {};
+    return {
+      ...DEFAULT_RETRY_POLICY,
+      ...policy,
+      ...protocols?.[protocol],
+    };
+  }
+
+  protected validateQuoteRpc(params: Pick<IntentQuoteParams, 'networkIn'>): void {
+    if (this.config.simulateQuotes || this.config.checkApprovals) {
+      if (!this.config.rpcs?.[params.networkIn]) {
+        throw sdkError(
+          SdkErrorEnum.MISSING_RPC_URL,
+          'rpcs are required for quote simulation and approval checks',
+        );
+      }
+    }
+  }
+
+  /**
+   * Give the call a request id and a logger adding it, with the chain, to every log line
+   */
+  protected withRequestContext(
+    params: Pick<IntentPriceParams, 'networkIn' | 'networkOut'>,
+    options: IntentRequestOptions,
+  ): IntentRequestOptions {
+    const requestId = options.requestId ?? randomUUID();
+    return {
+      ...options,
+      requestId,
+      logger: LoggerFactory.createChildLogger(this.getLogger(options), {
+        requestId,
+        chain: params.networkIn,
+        ...(params.networkOut !== params.networkIn && { destinationChain: params.networkOut }),
+      }),
+    };
+  }
+
+  protected withProtocolContext(
+    protocol: IIntentProtocol,
+    options: IntentRequestOptions,
+  ): IntentRequestOptions {
+    return {
+      ...options,
+      logger: LoggerFactory.createChildLogger(this.getLogger(options), {
+        protocol: protocol.protocol,
+      }),
+    };
+  }
+
+  protected getLogger(options?: ProtocolRequestOptions): ILogger {
+    return options?.logger ?? this.logger;
+  }
+
+  protected scheduleOptions(options: IntentRequestOptions): {
+    priority: number;
+    signal?: AbortSignal;
+  } {
+    return {
+      priority: options.priority ?? RequestPriorityEnum.NORMAL,
+      signal: options.signal,
+    };
+  }
+
   /**
    * Execute all promises and wait for completion
    */
@@ -429,10 +1898,16 @@ export class GeniusIntents {
   protected async executeRace<T extends IntentPriceResult | IntentQuoteResult>(
     promises: Promise<T>[],
   ): Promise<IntentRaceExecutionResult<T>> {
+    if (promises.length === 0) {
+      return { allResults: [] };
+    }
+
     return new Promise(resolve => {
       const results: T[] = [];
       let completed = 0;
       let winner: T | undefined;
+      // First successful estimate, only wins when no routed result arrives
+      let estimate: T | undefined;
 
       promises.forEach(async promise => {
         try {
@@ -447,13 +1922,18 @@ export class GeniusIntents {
             BigInt(result.response.amountOut) > BigInt(0) &&
             this.isQuoteSimulationStatusOk(result.response)
           ) {
-            winner = result;
+            if (this.isEstimate(result.response)) {
+              estimate ??= result;
+            } else {
+              winner = result;
+            }
           }
         } catch (error) {
           results.push({
             protocol: ProtocolEnum.JUPITER, // This will be overridden by actual protocol
             error: error instanceof Error ? error : new Error('Unknown error'),
             duration: 0,
+            queueDuration: 0,
           } as T);
         }
 
@@ -461,55 +1941,158 @@ export class GeniusIntents {
 
         // If we have a winner or all promises are completed
         if (winner || completed === promises.length) {
-          resolve({ winner, allResults: results });
+          resolve({ winner: winner ?? estimate, allResults: results });
         }
       });
     });
   }
 
   /**
-   * Select the best price response based on output amount
+   * Attach a net value score to every successful result. When the gas price or native rate
+   * cannot be resolved, results are left unscored and selection falls back to amountOut.
    */
-  protected selectBestPriceResponse(results: IntentPriceResult[]): PriceResponse | undefined {
+  protected async scoreResults(
+    results: Array<IntentPriceResult | IntentQuoteResult>,
+    params: IntentPriceParams,
+    signal?: AbortSignal,
+    logger: ILogger = this.logger,
+  ): Promise<void> {
     const successfulResults = results.filter(r => r.response && !r.error);
 
-    if (successfulResults.length === 0) {
-      return undefined;
+    // Gas is scored against the output, exact-out results all deliver the same output
+    if (successfulResults.length === 0 || isExactOut(params)) {
+      return;
     }
 
-    // Find the result with the highest output amount
-    return successfulResults.reduce((best, current) => {
-      const bestAmount = BigInt(best.response!.amountOut);
-      const currentAmount = BigInt(current.response!.amountOut);
-      const betterAmountOut = currentAmount > bestAmount;
-      const currentSimulationOk =
-        current.response && this.isQuoteSimulationStatusOk(current.response);
-      const bestSimulationOk = best.response && this.isQuoteSimulationStatusOk(best.response);
-      const betterSimulationOk = currentSimulationOk && !bestSimulationOk;
-      const bothSimulationSame = currentSimulationOk === bestSimulationOk;
-      return (betterAmountOut && bothSimulationSame) || betterSimulationOk ? current : best;
-    }).response;
+    const context = await this.getScoringContext(params, signal, logger);
+    if (!context) {
+      return;
+    }
+
+    for (const result of successfulResults) {
+      result.score = scoreNetValue(result.response!, context.gasPrice, context.nativeRate);
+    }
   }
 
   /**
-   * Select the best quote response based on output amount
+   * Resolve the gas price and native rate used by net value scoring, undefined when unavailable
    */
-  protected selectBestQuoteResponse(results: IntentQuoteResult[]): QuoteResponse | undefined {
-    const successfulResults = results.filter(r => r.response && !r.error);
+  protected async getScoringContext(
+    params: IntentPriceParams,
+    signal?: AbortSignal,
+    logger: ILogger = this.logger,
+  ): Promise<{ gasPrice: bigint; nativeRate: bigint } | undefined> {
+    if (!isEVMNetwork(params.networkIn)) {
+      return undefined;
+    }
 
-    if (successfulResults.length === 0) {
+    try {
+      const [gasPrice, nativeRate] = await raceAbort(
+        Promise.all([this.getGasPrice(params.networkIn), this.getNativeTokenRate(params)]),
+        signal,
+      );
+      return { gasPrice, nativeRate };
+    } catch (error) {
+      throwIfAborted(signal);
+      logger.warn(
+        `Net value scoring unavailable, ranking by amountOut: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
       return undefined;
     }
+  }
+
+  protected async getGasPrice(network: number): Promise<bigint> {
+    if (this.config.getGasPrice) {
+      return BigInt(await this.config.getGasPrice(network));
+    }
+
+    const rpcUrl = this.config.rpcs?.[network];
+    if (!rpcUrl) {
+      throw sdkError(
+        SdkErrorEnum.MISSING_RPC_URL,
+        `rpc for network ${network} is required to fetch the gas price`,
+      );
+    }
+
+    const feeData = await new JsonRpcProvider(rpcUrl).getFeeData();
+    const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas;
+    if (gasPrice === null) {
+      throw sdkError(SdkErrorEnum.FAILED_HTTP_REQUEST, `No gas price returned for ${network}`);
+    }
+
+    return gasPrice;
+  }
+
+  protected async getNativeTokenRate(params: IntentPriceParams): Promise<bigint> {
+    // Gas is paid in the output token itself
+    if (params.networkIn === params.networkOut && isNative(params.tokenOut)) {
+      return BigInt(10) ** BigInt(18);
+    }
 
-    // Find the result with the highest output amount
-    return successfulResults.reduce((best, current) => {
-      const bestAmount = BigInt(best.response!.amountOut);
-      const currentAmount = BigInt(current.response!.amountOut);
-      return currentAmount > bestAmount ? current : best;
-    }).response;
+    if (!this.config.getNativeTokenRate) {
+      throw sdkError(
+        SdkErrorEnum.INVALID_PARAMS,
+        'getNativeTokenRate is required for netValue scoring',
+      );
+    }
+
+    return BigInt(
+      await this.config.getNativeTokenRate(params.networkIn, params.tokenOut, params.networkOut),
+    );
+  }
+
+  /**
+   * Strategy ordering results in 'best' mode
+   */
+  protected getRankingStrategy(params?: IntentPriceParams): IRankingStrategy {
+    // Exact-out results deliver the same output, the cheapest input wins
+    if (isExactOut(params)) {
+      return new MinInputRankingStrategy();
+    }
+    if (this.config.ranking) {
+      return this.config.ranking;
+    }
+    return this.config.scoring === 'netValue'
+      ? new NetValueRankingStrategy()
+      : new MaxOutputRankingStrategy();
+  }
+
+  /**
+   * Rank the successful results, best first
+   */
+  protected rankResults<T extends RankableResult>(
+    results: T[],
+    params?: IntentPriceParams,
+  ): RankedResult<T>[] {
+    const successfulResults = results.filter(r => r.response && !r.error);
+    const strategy = this.getRankingStrategy(params);
+    // Estimates are not comparable with routed prices, they only rank behind them
+    return [
+      ...strategy.rank(successfulResults.filter(r => !this.isEstimate(r.response!))),
+      ...strategy.rank(successfulResults.filter(r => this.isEstimate(r.response!))),
+    ];
+  }
+
+  /**
+   * Select the best price response using the configured ranking strategy
+   */
+  protected selectBestPriceResponse(results: IntentPriceResult[]): PriceResponse | undefined {
+    return this.rankResults(results)[0]?.result.response;
+  }
+
+  /**
+   * Select the best quote response using the configured ranking strategy
+   */
+  protected selectBestQuoteResponse(results: IntentQuoteResult[]): QuoteResponse | undefined {
+    return this.rankResults(results)[0]?.result.response;
   }
 
-  protected async checkApproval(result: QuoteResponse): Promise<{
+  protected async checkApproval(
+    result: QuoteResponse,
+    signal?: AbortSignal,
+  ): Promise<{
     approvalRequired?: boolean;
     txnData: EvmTransactionData;
   } | null> {
@@ -536,9 +2119,9 @@ export class GeniusIntents {
     }
 
     const erc20 = new Erc20Service(result.tokenIn, rpcUrl);
-    const allowance = await erc20.allowance(
-      result.from,
-      result.evmExecutionPayload.approval.spender,
+    const allowance = await raceAbort(
+      erc20.allowance(result.from, result.evmExecutionPayload.approval.spender),
+      signal,
     );
 
     return {
@@ -547,6 +2130,88 @@ export class GeniusIntents {
     };
   }
 
+  /**
+   * Set whether each successful EVM quote needs an approval, so net value scoring can charge
+   * the approval gas. A quote whose allowance cannot be read is left unresolved.
+   */
+  protected async resolveApprovals(
+    results: IntentQuoteResult[],
+    signal?: AbortSignal,
+    logger: ILogger = this.logger,
+  ): Promise<void> {
+    await Promise.all(
+      results.map(async result => {
+        const response = result.response;
+        const payload = response?.evmExecutionPayload;
+        if (!response || !payload || result.error || isNative(response.tokenIn)) return;
+
+        try {
+          const checked = await this.checkApproval(response, signal);
+          if (typeof checked?.approvalRequired === 'undefined') return;
+
+          payload.approval = {
+            ...payload.approval,
+            required: checked.approvalRequired,
+            txnData: payload.approval.txnData ?? checked.txnData,
+          };
+        } catch (error) {
+          throwIfAborted(signal);
+          logger.warn(
+            `Failed to check the ${response.protocol} allowance: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+          );
+        }
+      }),
+    );
+  }
+
+  /**
+   * Set the approval of every leg of a split order, in execution order. Legs approving the same
+   * spender draw on one allowance, so a later leg needs its own approval once earlier legs used
+   * the allowance up.
+   */
+  protected async checkSplitApprovals(
+    quotes: QuoteResponse[],
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const allowances = new Map<string, bigint>();
+
+    for (const quote of quotes) {
+      const payload = quote.evmExecutionPayload;
+      if (!payload || isNative(quote.tokenIn)) continue;
+
+      const approval = payload.approval;
+      const txnData = approval.txnData ?? {
+        to: quote.tokenIn,
+        data: Erc20Service.getApproveTxData(approval.spender, approval.amount),
+        value: '0',
+      };
+
+      const rpcUrl = this.config.rpcs?.[quote.networkIn];
+      if (!rpcUrl) {
+        payload.approval = { ...approval, txnData };
+        continue;
+      }
+
+      const key = `${quote.tokenIn}:${approval.spender}`.toLowerCase();
+      const allowance =
+        allowances.get(key) ??
+        (await raceAbort(
+          new Erc20Service(quote.tokenIn, rpcUrl).allowance(quote.from, approval.spender),
+          signal,
+        ));
+      const required = allowance < BigInt(approval.amount);
+
+      // Approving replaces the allowance, the leg then spends its amountIn from it
+      allowances.set(
+        key,
+        (required ? BigInt(approval.amount) : allowance) - BigInt(quote.amountIn),
+      );
+      payload.approval = { ...approval, required, txnData };
+    }
+  }
+
   /**
    * Helper to calculate ERC20 allowance storage slot
    * Standard ERC20 allowance mapping is at slot 1
@@ -582,7 +2247,11 @@ export class GeniusIntents {
     return storage;
   }
 
-  protected async simulateQuote(result: QuoteResponse): Promise<{
+  protected async simulateQuote(
+    result: QuoteResponse,
+    signal?: AbortSignal,
+    logger: ILogger = this.logger,
+  ): Promise<{
     simulationSuccess?: boolean;
     simulationError?: Error;
     quoteGasEstimate?: string;
@@ -602,11 +2271,13 @@ export class GeniusIntents {
           result.from,
           result.tokenIn,
           result.evmExecutionPayload,
+          signal,
+          logger,
         );
       }
 
       if (result.svmExecutionPayload) {
-        return await this.simulateQuoteSvm(result.svmExecutionPayload);
+        return await this.simulateQuoteSvm(result.svmExecutionPayload, signal, logger);
       }
     } catch (error) {
       logger.error(
@@ -615,7 +2286,9 @@ export class GeniusIntents {
       );
       return {
         simulationSuccess: false,
-        simulationError: new Error('Quote simulation failed'),
+        simulationError: sdkError(SdkErrorEnum.SIMULATION_FAILED, 'Quote simulation failed', {
+          cause: error,
+        }),
       };
     }
 
@@ -633,6 +2306,8 @@ export class GeniusIntents {
     from: string,
     tokenIn: string,
     evmExecutionPayload: EvmQuoteExecutionPayload,
+    signal?: AbortSignal,
+    logger: ILogger = this.logger,
   ): Promise<{
     simulationSuccess?: boolean;
     simulationError?: Error;
@@ -656,12 +2331,15 @@ export class GeniusIntents {
     try {
       let approvalGasEstimate: bigint | undefined;
       if (evmExecutionPayload.approval.txnData) {
-        approvalGasEstimate = await provider.estimateGas({
-          to: evmExecutionPayload.approval.txnData.to,
-          data: evmExecutionPayload.approval.txnData.data,
-          value: evmExecutionPayload.approval.txnData.value,
-          from,
-        });
+        approvalGasEstimate = await raceAbort(
+          provider.estimateGas({
+            to: evmExecutionPayload.approval.txnData.to,
+            data: evmExecutionPayload.approval.txnData.data,
+            value: evmExecutionPayload.approval.txnData.value,
+            from,
+          }),
+          signal,
+        );
       }
 
       // Calculate the allowance storage slot
@@ -672,26 +2350,29 @@ export class GeniusIntents {
       const balanceSlots = this.generateBalanceOverrides(from);
 
       // Use eth_estimateGas with state overrides to simulate the swap with approval already set
-      const swapGasHex = await provider.send('eth_estimateGas', [
-        {
-          to: evmExecutionPayload.transactionData.to,
-          data: evmExecutionPayload.transactionData.data,
-          value: toQuantity(evmExecutionPayload.transactionData.value),
-          from,
-        },
-        'latest',
-        {
-          [tokenIn]: {
-            stateDiff: {
-              ...approvalSlots,
-              ...balanceSlots,
-            },
+      const swapGasHex = await raceAbort<string>(
+        provider.send('eth_estimateGas', [
+          {
+            to: evmExecutionPayload.transactionData.to,
+            data: evmExecutionPayload.transactionData.data,
+            value: toQuantity(evmExecutionPayload.transactionData.value),
+            from,
           },
-          [from]: {
-            balance: '0x9999999999999999999999999999999999',
+          'latest',
+          {
+            [tokenIn]: {
+              stateDiff: {
+                ...approvalSlots,
+                ...balanceSlots,
+              },
+            },
+            [from]: {
+              balance: '0x9999999999999999999999999999999999',
+            },
           },
-        },
-      ]);
+        ]),
+        signal,
+      );
 
       const swapGas = BigInt(swapGasHex);
 
@@ -707,12 +2388,20 @@ export class GeniusIntents {
       );
       return {
         simulationSuccess: false,
-        simulationError: new Error('EVM quote simulation with state override failed'),
+        simulationError: sdkError(
+          SdkErrorEnum.SIMULATION_FAILED,
+          'EVM quote simulation with state override failed',
+          { cause: error },
+        ),
       };
     }
   }
 
-  protected async simulateQuoteSvm(svmExecutionPayload: SvmQuoteExecutionPayload): Promise<{
+  protected async simulateQuoteSvm(
+    svmExecutionPayload: SvmQuoteExecutionPayload,
+    signal?: AbortSignal,
+    logger: ILogger = this.logger,
+  ): Promise<{
     simulationSuccess?: boolean;
     simulationError?: Error;
   }> {
@@ -736,7 +2425,13 @@ export class GeniusIntents {
     }
 
     // Simulate using Jito
-    const simulationResult = await simulateJito(this.config.jitoRpc, rpcUrl, svmExecutionPayload);
+    const simulationResult = await simulateJito(
+      this.config.jitoRpc,
+      rpcUrl,
+      svmExecutionPayload,
+      signal,
+      this.http,
+    );
 
     if (!simulationResult.simsPassed) {
       logger.error(
@@ -745,7 +2440,13 @@ export class GeniusIntents {
       );
       return {
         simulationSuccess: false,
-        simulationError: new Error('Solana quote simulation failed'),
+        simulationError: sdkError(
+          SdkErrorEnum.SIMULATION_FAILED,
+          'Solana quote simulation failed',
+          {
+            details: { error: simulationResult.error },
+          },
+        ),
       };
     }
 
@@ -756,7 +2457,7 @@ export class GeniusIntents {
   /**
    * Get list of initialized protocols
    */
-  async getInitializedProtocols(): Promise<ProtocolEnum[]> {
+  async getInitializedProtocols(): Promise<ProtocolId[]> {
     await this.ensureProtocolsInitialized();
     return Array.from(this.protocols.keys());
   }
@@ -764,27 +2465,256 @@ export class GeniusIntents {
   /**
    * Get a specific protocol instance
    */
-  async getProtocol(protocol: ProtocolEnum): Promise<IIntentProtocol | undefined> {
+  async getProtocol(protocol: ProtocolId): Promise<IIntentProtocol | undefined> {
     await this.ensureProtocolsInitialized();
     return this.protocols.get(protocol);
   }
 
   /**
-   * Update configuration
+   * Protocols that can serve a route, with their capabilities. Protocols whose API lists routes
+   * (Across, DeBridge, Jupiter) are checked against the live listing, including `tokenIn` and
+   * `tokenOut` when given, and return the listed tokens.
+   */
+  async getSupportedRoutes(
+    query: RouteQuery,
+    options: IntentRequestOptions = {},
+  ): Promise<SupportedRoutes> {
+    options = this.withRequestContext(query, options);
+    const candidates = await this.getCompatibleProtocols(query);
+
+    const protocols = await Promise.all(
+      candidates.map(protocol =>
+        this.getRouteSupport(protocol, query, this.withProtocolContext(protocol, options)),
+      ),
+    );
+
+    return {
+      networkIn: query.networkIn,
+      networkOut: query.networkOut,
+      crossChain: query.networkIn !== query.networkOut,
+      protocols: protocols.filter((support): support is ProtocolRouteSupport => !!support),
+      unconfigured: this.validateConfig().protocols.filter(
+        status => status.reason === 'invalid-config',
+      ),
+    };
+  }
+
+  /**
+   * Report which protocols will be loaded and why the others are skipped, without loading them.
+   * Registered protocols are only checked against includeProtocols/excludeProtocols.
+   */
+  validateConfig(): ConfigValidationReport {
+    const ids = new Set<ProtocolId>([...AVAILABLE_PROTOCOLS, ...this.registeredProtocols.keys()]);
+
+    const protocols = Array.from(ids).map((protocol): ProtocolConfigStatus => {
+      const registered = this.registeredProtocols.has(protocol);
+      const builtIn = AVAILABLE_PROTOCOLS.find(available => available === protocol);
+      const filterReason = this.getFilterReason(protocol);
+      const issues = filterReason || registered || !builtIn ? [] : this.getConfigIssues(builtIn);
+      const reason = filterReason ?? (issues.length > 0 ? 'invalid-config' : undefined);
+
+      return {
+        protocol,
+        enabled: !reason,
+        ...(reason && { reason }),
+        issues,
+        ...(registered && { registered }),
+      };
+    });
+    const issues = protocols.flatMap(status => status.issues);
+
+    return {
+      valid: issues.length === 0,
+      enabled: protocols.filter(status => status.enabled).map(status => status.protocol),
+      skipped: protocols.filter(status => !status.enabled).map(status => status.protocol),
+      protocols,
+      issues,
+    };
+  }
+
+  /**
+   * Add a protocol next to the built-in ones, or replace the built-in protocol with the same id.
+   * A factory is called with the SDK config whenever protocols are (re)initialized.
+   * Registered protocols honour includeProtocols/excludeProtocols like the built-in ones.
+   */
+  registerProtocol(id: ProtocolId, protocol: IIntentProtocol | ProtocolFactory): void {
+    if (typeof protocol !== 'function') {
+      this.assertProtocolId(id, protocol);
+    }
+
+    this.registeredProtocols.set(id, protocol);
+    this.health.reset(id);
+
+    // Protocols already initialized (or initializing) pick the registration up right away
+    if (this._initializationPromise) {
+      this.protocols.delete(id);
+      if (this.isProtocolEnabled(id)) {
+        this.loadRegisteredProtocol(id, protocol);
+      }
+    }
+  }
+
+  /**
+   * Remove a registered protocol. A built-in protocol it replaced becomes available again.
+   * Returns false when nothing was registered under the id.
+   */
+  unregisterProtocol(id: ProtocolId): boolean {
+    if (!this.registeredProtocols.delete(id)) {
+      return false;
+    }
+
+    this.protocols.delete(id);
+    this.health.reset(id);
+
+    const builtIn = AVAILABLE_PROTOCOLS.find(protocol => protocol === id);
+    if (this._initializationPromise && builtIn && this.isProtocolEnabled(builtIn)) {
+      this.loadBuiltInProtocol(builtIn);
+    }
+
+    return true;
+  }
+
+  /**
+   * Update configuration. Protocols are rebuilt only when a config key they are built from
+   * changes, requests already in flight finish on the previous instance. `rpcs` entries are
+   * merged into the current ones.
+   */
+  updateConfig(config: Partial<GeniusIntentsConfig>): ConfigUpdateSummary {
+    const previous = this.config;
+    const solanaRpcUrl =
+      config.solanaRpcUrl || config.rpcs?.[ChainIdEnum.SOLANA] || previous.solanaRpcUrl;
+    const suiRpcUrl = config.suiRpcUrl || config.rpcs?.[ChainIdEnum.SUI] || previous.suiRpcUrl;
+
+    this.config = {
+      ...previous,
+      ...config,
+      solanaRpcUrl,
+      suiRpcUrl,
+      rpcs: {
+        ...previous.rpcs,
+        ...config.rpcs,
+        [ChainIdEnum.SOLANA]: solanaRpcUrl || '',
+        [ChainIdEnum.SUI]: suiRpcUrl || '',
+      },
+    };
+
+    if ('circuitBreaker' in config) {
+      this.health.configure(config.circuitBreaker ?? {});
+    }
+
+    if ('cache' in config) {
+      this.cache = config.cache ? new ResultsCache(config.cache, this.logger) : undefined;
+    }
+
+    if ('middleware' in config) {
+      this.middleware = new MiddlewarePipeline(config.middleware);
+    }
+
+    if (config.maxConcurrency !== undefined) {
+      this.scheduler.setMaxConcurrency(config.maxConcurrency);
+    }
+
+    if ('httpClient' in config || 'http' in config) {
+      this.http = createHttpClient('sdk', this.config);
+    }
+
+    if ('logger' in config || 'debug' in config) {
+      this.logger = LoggerFactory.fromConfig(this.config);
+    }
+
+    return this.reloadProtocols(previous);
+  }
+
+  /**
+   * Bring the loaded protocols in line with the current config
    */
-  updateConfig(config: Partial<GeniusIntentsConfig>): void {
-    this.config = { ...this.config, ...config };
+  protected reloadProtocols(previous: GeniusIntentsConfig): ConfigUpdateSummary {
+    const summary: ConfigUpdateSummary = { reloaded: [], added: [], removed: [], failed: [] };
+
+    // Nothing loaded yet, the first request loads every protocol with the new config
+    if (!this._initializationPromise) {
+      return summary;
+    }
+
+    const ids = new Set<ProtocolId>([...AVAILABLE_PROTOCOLS, ...this.registeredProtocols.keys()]);
 
-    // Reinitialize protocols if protocol-specific configs changed
-    if (config.includeProtocols || config.excludeProtocols) {
-      this.protocols.clear();
-      this._protocolsInitialized = false;
-      this._initializationPromise = null;
+    for (const id of ids) {
+      const loaded = this.protocols.has(id);
+
+      if (!this.isProtocolEnabled(id)) {
+        if (loaded) {
+          this.protocols.delete(id);
+          summary.removed.push(id);
+        }
+        continue;
+      }
+
+      const wasEnabled = !this.getFilterReason(id, previous);
+      const registered = this.registeredProtocols.get(id);
+      // Registered instances are not built from the config
+      const changed =
+        (!registered || typeof registered === 'function') &&
+        hasProtocolConfigChanged(previous, this.config, id);
+
+      if ((loaded || wasEnabled) && !changed) {
+        continue;
+      }
+
+      // Only the map entry is replaced, in-flight requests keep the instance they started with
+      this.protocols.delete(id);
+      if (!this.loadProtocol(id)) {
+        summary.failed.push(id);
+      } else if (loaded) {
+        this.health.reset(id);
+        summary.reloaded.push(id);
+      } else {
+        summary.added.push(id);
+      }
+    }
+
+    if (summary.reloaded.length + summary.added.length + summary.removed.length > 0) {
+      this.logger.info('Protocols reloaded after config update', summary);
+    }
+
+    return summary;
+  }
+
+  protected loadProtocol(id: ProtocolId): ProtocolId | null {
+    const registered = this.registeredProtocols.get(id);
+    if (registered) {
+      return this.loadRegisteredProtocol(id, registered);
     }
+
+    const builtIn = AVAILABLE_PROTOCOLS.find(protocol => protocol === id);
+    return builtIn ? this.loadBuiltInProtocol(builtIn) : null;
+  }
+
+  /**
+   * Add a middleware after the configured ones. Returns a function that removes it again.
+   */
+  use(middleware: IIntentsMiddleware): () => void {
+    return this.middleware.use(middleware);
+  }
+
+  /**
+   * Rolling error rate, latency and circuit state of every initialized protocol
+   */
+  getProtocolHealth(): ProtocolHealth[] {
+    return Array.from(this.protocols.keys()).map(protocol => this.health.getHealth(protocol));
+  }
+
+  /**
+   * Drop every cached price and quote response
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
   }
 
   protected isQuoteSimulationStatusOk(result: QuoteResponse | PriceResponse): boolean {
-    // If undefined or missing, it means the simulation was not necessary for this protocol
-    return !('simulationSuccess' in result) || result.simulationSuccess !== false;
+    return isSimulationOk(result);
+  }
+
+  protected isEstimate(response: QuoteResponse | PriceResponse): boolean {
+    return 'estimate' in response && response.estimate === true;
   }
 }
@@ -12,10 +12,20 @@ export * as GeniusBridge from './protocols/genius-bridge';
 export * as Across from './protocols/across';
 
 // Core types and utilities
-import { ChainIdEnum, ProtocolEnum, SdkErrorEnum, ChainVmTypeEnum } from './types/enums';
+import {
+  ChainIdEnum,
+  ProtocolEnum,
+  SdkErrorEnum,
+  ChainVmTypeEnum,
+  RequestPriorityEnum,
+  SwapModeEnum,
+  CircuitStateEnum,
+  CompositeStepTypeEnum,
+} from './types/enums';
 import { IntentPriceParams } from './types/price-params';
 import { PriceResponse, RawProtocolPriceResponse } from './types/price-response';
 import { IntentQuoteParams } from './types/quote-params';
+import { IntentRequestOptions, ProtocolRequestOptions } from './types/request-options';
 import { QuoteResponse, RawProtocolQuoteResponse } from './types/quote-response';
 import { GeniusIntentsSDKConfig } from './types/sdk-config';
 import { GeniusIntents } from './genius-intents';
@@ -24,8 +34,57 @@ import {
   GeniusIntentsResults,
   IntentPriceResult,
   IntentQuoteResult,
+  IntentStreamUpdate,
+  IntentBatchPriceResult,
+  GeniusIntentsQuoteParams,
+  PriorPriceResponses,
+  ProtocolOverrides,
+  ProtocolsConfig,
+  ConfigUpdateSummary,
 } from './types/genius-intents';
 import { IIntentProtocol } from './interfaces/intent-protocol';
+import { IRankingStrategy } from './interfaces/ranking-strategy';
+import { ICacheStorage } from './interfaces/cache-storage';
+import { IIntentsMiddleware } from './interfaces/intents-middleware';
+import {
+  ErrorHookContext,
+  ErrorHookResult,
+  MiddlewareStage,
+  RequestHookContext,
+  RequestHookResult,
+  ResponseHookContext,
+  SimulateHookContext,
+  SimulateHookResult,
+} from './types/middleware';
+import { CacheTtl, IntentsCacheConfig } from './types/cache';
+import { CircuitBreakerConfig, ProtocolHealth } from './types/health';
+import { RetryConfig, RetryPolicy } from './types/retry';
+import { getErrorCode, getHttpStatus, isRetryableError } from './lib/retry/error-classification';
+import { LruCacheStorage } from './lib/cache/lru-cache-storage';
+import { IHttpClient } from './interfaces/http-client';
+import { AxiosHttpClient } from './lib/http/axios-http-client';
+import { HttpError } from './lib/http/http-error';
+import { RecordingHttpClient, ReplayHttpClient } from './lib/http/record-replay-http-client';
+import {
+  HttpConfig,
+  HttpFixture,
+  HttpHeaders,
+  HttpProxyConfig,
+  HttpRecordReplayConfig,
+  HttpRequestConfig,
+  HttpRequestDefaults,
+  HttpResponse,
+} from './types/http';
+import { RankableResult, RankedResult } from './types/ranking';
+import {
+  MaxOutputRankingStrategy,
+  MinInputRankingStrategy,
+  NetValueRankingStrategy,
+  LowestLatencyRankingStrategy,
+  PreferSimulatedRankingStrategy,
+  ProtocolPreferenceRankingStrategy,
+  ProtocolPreferenceOptions,
+} from './lib/ranking/ranking-strategies';
 import {
   EvmQuoteExecutionPayload,
   SvmQuoteExecutionPayload,
@@ -33,7 +92,59 @@ import {
 import { EvmTransactionData } from './types/evm-transaction-data';
 import { SolanaTransactionData } from './types/solana-transaction-data';
 import { Erc20Approval } from './types/erc20-approval';
-import { ILogger, LogLevelEnum, LoggerFactory, ConsoleLogger, NoOpLogger } from './utils/logger';
+import { ScoreBreakdown, ScoringMode } from './types/scoring';
+import { ProtocolFactory, ProtocolId, ProtocolServiceConfig } from './types/protocol';
+import {
+  ConfigFieldSchema,
+  ConfigIssue,
+  ConfigValidationReport,
+  ProtocolConfigSchema,
+  ProtocolConfigStatus,
+  ProtocolSkipReason,
+} from './types/config-schema';
+import { PROTOCOL_CONFIG_SCHEMAS } from './lib/config/protocol-config-schemas';
+import {
+  ProtocolCapabilities,
+  ProtocolRouteSupport,
+  ProtocolRoutes,
+  RouteQuery,
+  SupportedRoutes,
+} from './types/routes';
+import { SplitQuoteLeg, SplitQuoteOptions, SplitQuoteResult } from './types/split';
+import { allocateSplit, SplitAllocation } from './lib/split/split-allocation';
+import {
+  CompositeQuoteOptions,
+  CompositeQuoteResult,
+  CompositeRoute,
+  CompositeRouteFailure,
+  CompositeRouteStep,
+  IntermediateAsset,
+} from './types/composite';
+import { USDC_ADDRESSES, getIntermediateAssets } from './lib/composite/composite-route';
+import { validateConfigSchema } from './lib/config/config-validation';
+import {
+  ILogger,
+  LogContext,
+  LogLevelEnum,
+  LoggerFactory,
+  ChildLogger,
+  ConsoleLogger,
+  NoOpLogger,
+} from './utils/logger';
+import {
+  IMetrics,
+  IOpenTelemetryMeter,
+  IOpenTelemetrySpan,
+  IOpenTelemetryTracer,
+  ISpan,
+  MetricAttributes,
+  MetricNameEnum,
+  SpanNameEnum,
+  NoOpMetrics,
+  OpenTelemetryMetrics,
+} from './utils/metrics';
+import { isAbortError } from './utils/abort';
+import { SdkError, SdkErrorOptions, isSdkError } from './utils/sdk-error';
 
 export {
   // Main IntentsProtocols class - the primary entrypoint
@@ -43,19 +154,113 @@ export {
   GeniusIntentsConfig as IntentsProtocolsConfig,
   GeniusIntentsConfig,
   GeniusIntentsSDKConfig,
+  IntentsCacheConfig,
+  CacheTtl,
+  CircuitBreakerConfig,
+  RetryConfig,
+  RetryPolicy,
+  ProtocolsConfig,
+  ProtocolOverrides,
+  ProtocolServiceConfig,
+  ConfigUpdateSummary,
+
+  // Config validation
+  ConfigValidationReport,
+  ProtocolConfigStatus,
+  ProtocolSkipReason,
+  ConfigIssue,
+  ConfigFieldSchema,
+  ProtocolConfigSchema,
+  PROTOCOL_CONFIG_SCHEMAS,
+  validateConfigSchema,
+
+  // Route discovery
+  RouteQuery,
+  SupportedRoutes,
+  ProtocolRouteSupport,
+  ProtocolCapabilities,
+  ProtocolRoutes,
+
+  // Split routing
+  SplitQuoteOptions,
+  SplitQuoteResult,
+  SplitQuoteLeg,
+  SplitAllocation,
+  allocateSplit,
+
+  // Composite cross-chain routes
+  CompositeQuoteOptions,
+  CompositeQuoteResult,
+  CompositeRoute,
+  CompositeRouteStep,
+  CompositeRouteFailure,
+  IntermediateAsset,
+  USDC_ADDRESSES,
+  getIntermediateAssets,
 
   // Results and response types
   GeniusIntentsResults,
   IntentPriceResult,
   IntentQuoteResult,
+  IntentStreamUpdate,
+  IntentBatchPriceResult,
+  GeniusIntentsQuoteParams,
+  PriorPriceResponses,
   PriceResponse,
   QuoteResponse,
   RawProtocolPriceResponse,
   RawProtocolQuoteResponse,
+  ScoreBreakdown,
+  ScoringMode,
+  ProtocolHealth,
+  RankableResult,
+  RankedResult,
+
+  // Ranking strategies
+  IRankingStrategy,
+  MaxOutputRankingStrategy,
+  MinInputRankingStrategy,
+  NetValueRankingStrategy,
+  LowestLatencyRankingStrategy,
+  PreferSimulatedRankingStrategy,
+  ProtocolPreferenceRankingStrategy,
+  ProtocolPreferenceOptions,
+
+  // Middleware
+  IIntentsMiddleware,
+  MiddlewareStage,
+  RequestHookContext,
+  RequestHookResult,
+  ResponseHookContext,
+  SimulateHookContext,
+  SimulateHookResult,
+  ErrorHookContext,
+  ErrorHookResult,
+
+  // HTTP transport
+  IHttpClient,
+  AxiosHttpClient,
+  HttpError,
+  RecordingHttpClient,
+  ReplayHttpClient,
+  HttpConfig,
+  HttpRecordReplayConfig,
+  HttpFixture,
+  HttpHeaders,
+  HttpProxyConfig,
+  HttpRequestConfig,
+  HttpRequestDefaults,
+  HttpResponse,
+
+  // Cache storage
+  ICacheStorage,
+  LruCacheStorage,
 
   // Parameter types
   IntentPriceParams,
   IntentQuoteParams,
+  IntentRequestOptions,
+  ProtocolRequestOptions,
 
   // Transaction and execution types
   EvmQuoteExecutionPayload,
@@ -70,13 +275,42 @@ export {
   SdkErrorEnum,
   ChainVmTypeEnum,
   LogLevelEnum,
+  RequestPriorityEnum,
+  SwapModeEnum,
+  CircuitStateEnum,
+  CompositeStepTypeEnum,
 
   // Interface for extensibility
   IIntentProtocol,
+  ProtocolId,
+  ProtocolFactory,
 
   // Logging utilities
   ILogger,
+  LogContext,
   LoggerFactory,
+  ChildLogger,
   ConsoleLogger,
   NoOpLogger,
+
+  // Metrics and tracing
+  IMetrics,
+  IOpenTelemetryMeter,
+  IOpenTelemetrySpan,
+  IOpenTelemetryTracer,
+  ISpan,
+  MetricAttributes,
+  MetricNameEnum,
+  SpanNameEnum,
+  NoOpMetrics,
+  OpenTelemetryMetrics,
+
+  // Error utilities
+  isAbortError,
+  isRetryableError,
+  getHttpStatus,
+  getErrorCode,
+  SdkError,
+  SdkErrorOptions,
+  isSdkError,
 };
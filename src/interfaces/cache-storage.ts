@@ -0,0 +1,13 @@
+/**
+ * Storage backend of the results cache. Implement it to share cached results between
+ * instances, e.g. with Redis.
+ */
+export interface ICacheStorage {
+  get<T>(key: string): Promise<T | undefined>;
+  /**
+   * Store a value that must not be returned once `ttl` milliseconds have elapsed
+   */
+  set<T>(key: string, value: T, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
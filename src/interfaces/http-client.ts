@@ -0,0 +1,15 @@
+import { HttpRequestConfig, HttpResponse } from '../types/http';
+
+/**
+ * Transport used by the protocol services for their HTTP requests. Implement it to route
+ * requests through your own client; failed requests should reject with an error carrying a
+ * `response: { status, data, headers }`, like `HttpError`, so they are classified correctly.
+ */
+export interface IHttpClient {
+  get<T = unknown>(url: string, config?: HttpRequestConfig): Promise<HttpResponse<T>>;
+  post<T = unknown>(
+    url: string,
+    data?: unknown,
+    config?: HttpRequestConfig,
+  ): Promise<HttpResponse<T>>;
+}
@@ -1,19 +1,38 @@
-import { ChainIdEnum, ProtocolEnum } from '../types/enums';
+import { ChainIdEnum } from '../types/enums';
+import { ProtocolId } from '../types/protocol';
 import { IntentPriceParams } from '../types/price-params';
 import { PriceResponse } from '../types/price-response';
 import { IntentQuoteParams } from '../types/quote-params';
 import { QuoteResponse } from '../types/quote-response';
+import { ProtocolRequestOptions } from '../types/request-options';
+import { ProtocolRoutes, RouteQuery } from '../types/routes';
 
 export interface IIntentProtocol {
-  protocol: ProtocolEnum;
+  protocol: ProtocolId;
   singleChain: boolean;
   multiChain: boolean;
   chains: ChainIdEnum[];
   baseUrl?: string;
   //EVM only
   includeApprovals?: boolean;
-  fetchPrice(params: IntentPriceParams): Promise<PriceResponse>;
-  fetchQuote(params: IntentQuoteParams): Promise<QuoteResponse>;
+  // Quotes pay out to `receiver` instead of always to `from`
+  supportsReceiver?: boolean;
+  // Quotes can be requested for a fixed output amount
+  supportsExactOut?: boolean;
+  fetchPrice(params: IntentPriceParams, options?: ProtocolRequestOptions): Promise<PriceResponse>;
+  /**
+   * Price many pairs in one call, for protocols with a batch price endpoint. Results follow the
+   * order of `paramsList`, pairs the endpoint cannot price are returned as errors.
+   */
+  fetchPrices?(
+    paramsList: IntentPriceParams[],
+    options?: ProtocolRequestOptions,
+  ): Promise<(PriceResponse | Error)[]>;
+  fetchQuote(params: IntentQuoteParams, options?: ProtocolRequestOptions): Promise<QuoteResponse>;
+  /**
+   * Routes the protocol API currently lists between two chains, used by route discovery
+   */
+  getRoutes?(query: RouteQuery, options?: ProtocolRequestOptions): Promise<ProtocolRoutes>;
   isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
   }): config is T;
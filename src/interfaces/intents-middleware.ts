@@ -0,0 +1,48 @@
+import { ProtocolId } from '../types/protocol';
+
+import { PriceResponse } from '../types/price-response';
+import { QuoteResponse } from '../types/quote-response';
+import {
+  ErrorHookContext,
+  ErrorHookResult,
+  MaybePromise,
+  RequestHookContext,
+  RequestHookResult,
+  ResponseHookContext,
+  SimulateHookContext,
+  SimulateHookResult,
+} from '../types/middleware';
+
+/**
+ * Hooks run around every protocol request of a `GeniusIntents` instance, in registration order.
+ * Every hook is optional, returning nothing leaves the request unchanged.
+ */
+export interface IIntentsMiddleware {
+  name?: string;
+  /**
+   * Protocols the hooks apply to, every protocol when omitted
+   */
+  protocols?: ProtocolId[];
+  beforePrice?(
+    context: RequestHookContext<'price'>,
+  ): MaybePromise<RequestHookResult<'price'> | void>;
+  /**
+   * Return a new response to replace it, cached responses are shared and must not be mutated
+   */
+  afterPrice?(context: ResponseHookContext<'price'>): MaybePromise<PriceResponse | void>;
+  beforeQuote?(
+    context: RequestHookContext<'quote'>,
+  ): MaybePromise<RequestHookResult<'quote'> | void>;
+  /**
+   * Return a new response to replace it, cached responses are shared and must not be mutated
+   */
+  afterQuote?(context: ResponseHookContext<'quote'>): MaybePromise<QuoteResponse | void>;
+  /**
+   * Runs before a quote is simulated, only when `simulateQuotes` is enabled
+   */
+  beforeSimulate?(context: SimulateHookContext): MaybePromise<SimulateHookResult | void>;
+  /**
+   * Runs for failed requests, including errors thrown by other hooks and skipped protocols
+   */
+  onError?(context: ErrorHookContext): MaybePromise<ErrorHookResult | void>;
+}
@@ -0,0 +1,9 @@
+import { RankableResult, RankedResult } from '../types/ranking';
+
+export interface IRankingStrategy {
+  name: string;
+  /**
+   * Order results from best to worst. Only successful results (with a response) are passed in.
+   */
+  rank<T extends RankableResult>(results: T[]): RankedResult<T>[];
+}
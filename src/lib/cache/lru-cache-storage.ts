@@ -0,0 +1,53 @@
+import { ICacheStorage } from '../../interfaces/cache-storage';
+
+type CacheEntry = {
+  value: unknown;
+  expiresAt: number;
+};
+
+/**
+ * In-memory cache storage bounded by entry count, evicting the least recently used entry first
+ */
+export class LruCacheStorage implements ICacheStorage {
+  // Map iteration follows insertion order, re-inserting on read keeps the oldest entry first
+  private _entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly _maxEntries: number = 1000) {}
+
+  get size(): number {
+    return this._entries.size;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this._entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this._entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    this._entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttl: number): Promise<void> {
+    this._entries.delete(key);
+    this._entries.set(key, { value, expiresAt: Date.now() + ttl });
+
+    while (this._entries.size > this._maxEntries) {
+      const oldest = this._entries.keys().next().value as string;
+      this._entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this._entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this._entries.clear();
+  }
+}
@@ -0,0 +1,64 @@
+import { getAbortReason, raceAbort } from '../../utils/abort';
+
+type InFlightRequest = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+};
+
+/**
+ * Shares one in-flight request between concurrent callers using the same key.
+ * The shared request is only aborted once every caller has aborted.
+ */
+export class RequestCoalescer {
+  private _inFlight = new Map<string, InFlightRequest>();
+
+  get pending(): number {
+    return this._inFlight.size;
+  }
+
+  join<T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(getAbortReason(signal));
+    }
+
+    let request = this._inFlight.get(key);
+    if (!request) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        subscribers: 0,
+        promise: Promise.resolve()
+          .then(() => task(controller.signal))
+          .finally(() => {
+            if (this._inFlight.get(key) === created) {
+              this._inFlight.delete(key);
+            }
+          }),
+      };
+      this._inFlight.set(key, created);
+      request = created;
+    }
+
+    const shared = request;
+    shared.subscribers++;
+
+    const onAbort = (): void => {
+      shared.subscribers--;
+      if (shared.subscribers === 0) {
+        // Nobody waits for the result anymore, later callers start a fresh request
+        this._inFlight.delete(key);
+        shared.controller.abort(getAbortReason(signal!));
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    return raceAbort(shared.promise as Promise<T>, signal).finally(() =>
+      signal?.removeEventListener('abort', onAbort),
+    );
+  }
+}
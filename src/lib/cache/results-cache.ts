@@ -0,0 +1,157 @@
+import { ProtocolId } from '../../types/protocol';
+import { ICacheStorage } from '../../interfaces/cache-storage';
+import { IntentsCacheConfig } from '../../types/cache';
+
+import { IntentPriceParams } from '../../types/price-params';
+import { PriceResponse } from '../../types/price-response';
+import { IntentQuoteParams } from '../../types/quote-params';
+import { QuoteResponse } from '../../types/quote-response';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { isExactOut } from '../../utils/swap-mode';
+import { LruCacheStorage } from './lru-cache-storage';
+import { RequestCoalescer } from './request-coalescer';
+
+export type CachedRequestType = 'price' | 'quote';
+
+type CachedValue<T> = {
+  value: T;
+  expiresAt: number;
+};
+
+export const DEFAULT_PRICE_CACHE_TTL = 5000;
+export const DEFAULT_QUOTE_CACHE_TTL = 0;
+
+// Solana and Sui addresses are case sensitive, only EVM hex addresses are normalized
+const normalizeAddress = (address: string | undefined): string =>
+  address && /^0x[0-9a-fA-F]{40}$/.test(address) ? address.toLowerCase() : (address ?? '');
+
+const normalizeAmount = (amount: string): string => {
+  try {
+    return BigInt(amount).toString();
+  } catch {
+    return amount;
+  }
+};
+
+/**
+ * Identity of a request's params, shared by the cache keys and the deduplication of batch requests
+ */
+export const getRequestKey = (params: IntentPriceParams | IntentQuoteParams): string =>
+  [
+    params.networkIn,
+    params.networkOut,
+    normalizeAddress(params.tokenIn),
+    normalizeAddress(params.tokenOut),
+    normalizeAmount(params.amountIn),
+    params.slippage,
+    normalizeAddress(params.from),
+    'receiver' in params ? normalizeAddress(params.receiver) : '',
+    // Only exact-out requests carry the mode, exact-in keys stay as they were
+    ...(isExactOut(params) ? [params.swapMode, normalizeAmount(params.amountOut ?? '')] : []),
+    // Protocol overrides change the request, keys without them stay as they were
+    ...(params.overrideParamsJupiter || params.overrideParamsDebridge
+      ? [
+          JSON.stringify([
+            params.overrideParamsJupiter ?? null,
+            params.overrideParamsDebridge ?? null,
+          ]),
+        ]
+      : []),
+  ].join(':');
+
+/**
+ * Copy of a response that a caller can update, e.g. with the approval check or simulation
+ * results, without changing the cache entry or the response handed to another caller
+ */
+export const copyCachedResponse = <T extends PriceResponse | QuoteResponse>(response: T): T => {
+  const payload = 'evmExecutionPayload' in response ? response.evmExecutionPayload : undefined;
+  if (!payload) {
+    return { ...response };
+  }
+
+  const { txnData, ...approval } = payload.approval;
+  return {
+    ...response,
+    evmExecutionPayload: {
+      transactionData: { ...payload.transactionData },
+      approval: txnData ? { ...approval, txnData: { ...txnData } } : approval,
+    },
+  };
+};
+
+/**
+ * Per-protocol cache of price and quote responses with in-flight request coalescing.
+ * Expiry is checked on every read so a storage that keeps entries longer never serves them.
+ */
+export class ResultsCache {
+  private readonly _storage: ICacheStorage;
+  private readonly _coalescer = new RequestCoalescer();
+  private readonly _logger: ILogger;
+
+  constructor(
+    private readonly _config: IntentsCacheConfig,
+    logger: ILogger = LoggerFactory.getLogger(),
+  ) {
+    this._storage = _config.storage ?? new LruCacheStorage(_config.maxEntries);
+    this._logger = logger;
+  }
+
+  getTtl(type: CachedRequestType, protocol: ProtocolId): number {
+    const override = this._config.protocols?.[protocol]?.[type];
+    if (override !== undefined) {
+      return override;
+    }
+    if (type === 'price') {
+      return this._config.price ?? DEFAULT_PRICE_CACHE_TTL;
+    }
+    return this._config.quote ?? DEFAULT_QUOTE_CACHE_TTL;
+  }
+
+  getKey(
+    type: CachedRequestType,
+    protocol: ProtocolId,
+    params: IntentPriceParams | IntentQuoteParams,
+  ): string {
+    return [type, protocol, getRequestKey(params)].join(':');
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const cached = await this._storage.get<CachedValue<T>>(key);
+      if (!cached || cached.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      return cached.value;
+    } catch (error) {
+      this._logger.warn(`Failed to read cache entry ${key}, fetching instead`, { error });
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttl: number): Promise<void> {
+    if (ttl <= 0) {
+      return;
+    }
+
+    try {
+      await this._storage.set<CachedValue<T>>(key, { value, expiresAt: Date.now() + ttl }, ttl);
+    } catch (error) {
+      this._logger.warn(`Failed to write cache entry ${key}`, { error });
+    }
+  }
+
+  /**
+   * Share one in-flight fetch between concurrent identical requests
+   */
+  coalesce<T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    return this._coalescer.join(key, task, signal);
+  }
+
+  async clear(): Promise<void> {
+    await this._storage.clear();
+  }
+}
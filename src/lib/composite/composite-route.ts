@@ -0,0 +1,62 @@
+import { ChainIdEnum } from '../../types/enums';
+import { IntermediateAsset } from '../../types/composite';
+import { isEVMNetwork } from '../../utils/check-vm';
+import { isNative } from '../../utils/is-native';
+import { NATIVE_ADDRESS, NATIVE_SOL, NATIVE_SUI } from '../../utils/constants';
+
+export const USDC_ADDRESSES: Partial<Record<ChainIdEnum, string>> = {
+  [ChainIdEnum.ETHEREUM]: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+  [ChainIdEnum.ARBITRUM]: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+  [ChainIdEnum.OPTIMISM]: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+  [ChainIdEnum.BASE]: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  [ChainIdEnum.POLYGON]: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+  [ChainIdEnum.AVALANCHE]: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+  [ChainIdEnum.BSC]: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+  [ChainIdEnum.SONIC]: '0x29219dd400f2Bf60E5a23d13Be72B486D4038894',
+  [ChainIdEnum.SOLANA]: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  [ChainIdEnum.SUI]:
+    '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC',
+};
+
+export const getNativeAddress = (network: number): string | undefined => {
+  if (network === ChainIdEnum.SOLANA) return NATIVE_SOL;
+  if (network === ChainIdEnum.SUI) return NATIVE_SUI;
+  return isEVMNetwork(network) ? NATIVE_ADDRESS : undefined;
+};
+
+/**
+ * Default assets to bridge between two chains: USDC and the native token, where both chains
+ * have them
+ */
+export function getIntermediateAssets(networkIn: number, networkOut: number): IntermediateAsset[] {
+  const assets: IntermediateAsset[] = [];
+
+  const usdcIn = USDC_ADDRESSES[networkIn as ChainIdEnum];
+  const usdcOut = USDC_ADDRESSES[networkOut as ChainIdEnum];
+  if (usdcIn && usdcOut) {
+    assets.push({ symbol: 'USDC', tokenIn: usdcIn, tokenOut: usdcOut });
+  }
+
+  const nativeIn = getNativeAddress(networkIn);
+  const nativeOut = getNativeAddress(networkOut);
+  if (nativeIn && nativeOut) {
+    assets.push({ symbol: 'native', tokenIn: nativeIn, tokenOut: nativeOut });
+  }
+
+  return assets;
+}
+
+export const isSameToken = (a: string, b: string): boolean =>
+  a.toLowerCase() === b.toLowerCase() || (isNative(a) && isNative(b));
+
+/**
+ * Lowest amount a step delivers once `slippage` (a percentage) is applied
+ */
+export const applySlippage = (amount: string, slippage: number): string =>
+  ((BigInt(amount) * BigInt(Math.round((100 - slippage) * 100))) / BigInt(10000)).toString();
+
+/**
+ * Slippage of consecutive steps compounded into one percentage
+ */
+export const compoundSlippage = (slippages: number[]): number =>
+  (1 - slippages.reduce((kept, slippage) => kept * (1 - slippage / 100), 1)) * 100;
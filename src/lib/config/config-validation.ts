@@ -0,0 +1,64 @@
+import { ProtocolId } from '../../types/protocol';
+import { ConfigFieldSchema, ConfigIssue, ProtocolConfigSchema } from '../../types/config-schema';
+
+const isMissing = (value: unknown): boolean =>
+  value === undefined || value === null || value === '';
+
+const isUrl = (value: string): boolean => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const getTypeError = (field: ConfigFieldSchema, value: unknown): string | undefined => {
+  switch (field.type) {
+    case 'url':
+      return typeof value === 'string' && isUrl(value) ? undefined : 'must be a valid URL';
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value) ? undefined : 'must be an object';
+    default:
+      return typeof value === field.type ? undefined : `must be a ${field.type}`;
+  }
+};
+
+/**
+ * Check a config against a protocol schema, keys not described by the schema are ignored
+ */
+export const validateConfigSchema = (
+  protocol: ProtocolId,
+  schema: ProtocolConfigSchema,
+  config: object,
+): ConfigIssue[] => {
+  const values = config as Record<string, unknown>;
+  const issues: ConfigIssue[] = [];
+
+  for (const [key, field] of Object.entries(schema)) {
+    const value = values[key];
+
+    if (isMissing(value)) {
+      if (field.required) {
+        issues.push({ protocol, key, message: `${key} is required: ${field.description}` });
+      }
+      continue;
+    }
+
+    const typeError = getTypeError(field, value);
+    if (typeError) {
+      issues.push({ protocol, key, message: `${key} ${typeError}: ${field.description}` });
+    } else if (field.pattern && typeof value === 'string' && !field.pattern.test(value)) {
+      issues.push({
+        protocol,
+        key,
+        message: `${key} must match ${field.pattern}: ${field.description}`,
+      });
+    }
+  }
+
+  return issues;
+};
+
+export const formatConfigIssues = (issues: ConfigIssue[]): string =>
+  issues.map(issue => `${issue.protocol}: ${issue.message}`).join('; ');
@@ -0,0 +1,101 @@
+import { ProtocolEnum } from '../../types/enums';
+import { ProtocolConfigSchema } from '../../types/config-schema';
+import { AcrossConfig } from '../../protocols/across/across.types';
+import { AftermathConfig } from '../../protocols/aftermath/aftermath.types';
+import { DeBridgeConfig } from '../../protocols/debridge/debridge.types';
+import { GeniusBridgeConfig } from '../../protocols/genius-bridge/genius-bridge.types';
+import { JupiterConfig } from '../../protocols/jupiter/jupiter.types';
+import { KyberswapConfig } from '../../protocols/kyberswap/kyberswap.types';
+import { OKXConfig } from '../../protocols/okx/okx.types';
+import { OpenOceanConfig } from '../../protocols/openocean/openocean.types';
+import { RaydiumSdkConfig } from '../../protocols/raydium/raydium-v2.types';
+import { ZeroXConfig } from '../../protocols/zeroX/zeroX.types';
+
+export const ODOS_CONFIG_SCHEMA: ProtocolConfigSchema = {};
+
+export const JUPITER_CONFIG_SCHEMA: ProtocolConfigSchema<JupiterConfig> = {
+  jupiterPrivateUrl: { type: 'url', description: 'Jupiter API base URL' },
+};
+
+export const RAYDIUM_CONFIG_SCHEMA: ProtocolConfigSchema<RaydiumSdkConfig> = {
+  solanaRpcUrl: {
+    type: 'url',
+    required: true,
+    description: 'Solana RPC URL, also read from rpcs[ChainIdEnum.SOLANA]',
+  },
+};
+
+export const OKX_CONFIG_SCHEMA: ProtocolConfigSchema<OKXConfig> = {
+  okxPrivateUrl: { type: 'url', description: 'OKX API base URL' },
+  okxApiKey: { type: 'string', required: true, description: 'OKX DEX API key' },
+  okxSecretKey: { type: 'string', required: true, description: 'Secret key of the OKX API key' },
+  okxPassphrase: { type: 'string', required: true, description: 'Passphrase of the OKX API key' },
+  okxProjectId: { type: 'string', required: true, description: 'OKX developer portal project id' },
+};
+
+export const KYBERSWAP_CONFIG_SCHEMA: ProtocolConfigSchema<KyberswapConfig> = {
+  kyberswapClientId: {
+    type: 'string',
+    description: 'Client id sent as x-client-id to the KyberSwap aggregator, recommended',
+  },
+  kyberswapPrivateUrl: { type: 'url', description: 'KyberSwap aggregator base URL' },
+};
+
+export const OPENOCEAN_CONFIG_SCHEMA: ProtocolConfigSchema<OpenOceanConfig> = {
+  openOceanPrivateUrl: { type: 'url', description: 'OpenOcean API base URL' },
+  openOceanApiVersion: {
+    type: 'string',
+    description: 'OpenOcean API version, e.g. v4',
+    pattern: /^v\d+$/,
+  },
+  openOceanDisabledDexIds: { type: 'string', description: 'Comma separated dex ids to skip' },
+  openOceanEnabledDexIds: { type: 'string', description: 'Comma separated dex ids to use' },
+};
+
+export const AFTERMATH_CONFIG_SCHEMA: ProtocolConfigSchema<AftermathConfig> = {
+  suiRpcUrl: {
+    type: 'url',
+    required: true,
+    description: 'Sui RPC URL, also read from rpcs[ChainIdEnum.SUI]',
+  },
+  privateUrl: { type: 'url', description: 'Aftermath API base URL' },
+  quoteParamOverrides: { type: 'object', description: 'Extra Aftermath swap params' },
+};
+
+export const ZEROX_CONFIG_SCHEMA: ProtocolConfigSchema<ZeroXConfig> = {
+  zeroXApiKey: { type: 'string', required: true, description: '0x API key from dashboard.0x.org' },
+  zeroXBaseUrl: { type: 'url', description: '0x swap quote endpoint' },
+};
+
+export const DEBRIDGE_CONFIG_SCHEMA: ProtocolConfigSchema<DeBridgeConfig> = {
+  deBridgePrivateUrl: { type: 'url', description: 'deBridge DLN create-tx endpoint' },
+  debridgeAccessToken: { type: 'string', description: 'deBridge access token' },
+  solanaRpcUrl: { type: 'url', description: 'Solana RPC URL for Solana orders' },
+};
+
+export const GENIUS_BRIDGE_CONFIG_SCHEMA: ProtocolConfigSchema<GeniusBridgeConfig> = {
+  geniusBridgeBaseUrl: { type: 'url', description: 'Genius Bridge API base URL' },
+};
+
+export const ACROSS_CONFIG_SCHEMA: ProtocolConfigSchema<AcrossConfig> = {
+  acrossIntegratorId: {
+    type: 'string',
+    description: 'Hex integrator id assigned by Across, e.g. 0xdead, recommended',
+    pattern: /^0x[0-9a-fA-F]+$/,
+  },
+  acrossFillDeadlineS: { type: 'number', description: 'Fill deadline in seconds' },
+};
+
+export const PROTOCOL_CONFIG_SCHEMAS: Record<ProtocolEnum, ProtocolConfigSchema> = {
+  [ProtocolEnum.ODOS]: ODOS_CONFIG_SCHEMA,
+  [ProtocolEnum.JUPITER]: JUPITER_CONFIG_SCHEMA,
+  [ProtocolEnum.RAYDIUM_V2]: RAYDIUM_CONFIG_SCHEMA,
+  [ProtocolEnum.OKX]: OKX_CONFIG_SCHEMA,
+  [ProtocolEnum.KYBERSWAP]: KYBERSWAP_CONFIG_SCHEMA,
+  [ProtocolEnum.OPEN_OCEAN]: OPENOCEAN_CONFIG_SCHEMA,
+  [ProtocolEnum.AFTERMATH]: AFTERMATH_CONFIG_SCHEMA,
+  [ProtocolEnum.ZEROX]: ZEROX_CONFIG_SCHEMA,
+  [ProtocolEnum.DEBRIDGE]: DEBRIDGE_CONFIG_SCHEMA,
+  [ProtocolEnum.GENIUS_BRIDGE]: GENIUS_BRIDGE_CONFIG_SCHEMA,
+  [ProtocolEnum.ACROSS]: ACROSS_CONFIG_SCHEMA,
+};
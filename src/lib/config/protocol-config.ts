@@ -0,0 +1,112 @@
+import { ProtocolEnum } from '../../types/enums';
+import { GeniusIntentsConfig, ProtocolOverrides } from '../../types/genius-intents';
+import { ProtocolId, ProtocolServiceConfig } from '../../types/protocol';
+import { PROTOCOL_CONFIG_SCHEMAS } from './protocol-config-schemas';
+
+/**
+ * Options every protocol receives, whatever its own config
+ */
+export const SHARED_PROTOCOL_CONFIG_KEYS = [
+  'logger',
+  'debug',
+  'metrics',
+  'httpClient',
+  'http',
+  'rpcs',
+  'solanaRpcUrl',
+  'suiRpcUrl',
+] as const;
+
+const OVERRIDE_KEYS: (keyof ProtocolOverrides)[] = ['enabled', 'timeout', 'chains'];
+
+const pickKeys = (source: object, keys: readonly string[]): Record<string, unknown> => {
+  const values = source as Record<string, unknown>;
+  return Object.fromEntries(
+    keys.filter(key => values[key] !== undefined).map(key => [key, values[key]]),
+  );
+};
+
+const isBuiltInProtocol = (protocol: ProtocolId): protocol is ProtocolEnum =>
+  Object.prototype.hasOwnProperty.call(PROTOCOL_CONFIG_SCHEMAS, protocol);
+
+export const getProtocolOverrides = (
+  config: GeniusIntentsConfig,
+  protocol: ProtocolId,
+): ProtocolOverrides => {
+  return pickKeys(config.protocols?.[protocol] ?? {}, OVERRIDE_KEYS) as ProtocolOverrides;
+};
+
+/**
+ * Build the config of one protocol: the shared options, then its flat keys (the keys of its
+ * schema), then its section of `protocols`. Other protocols' keys and secrets are left out.
+ */
+export const resolveProtocolConfig = (
+  config: GeniusIntentsConfig,
+  protocol: ProtocolId,
+): ProtocolServiceConfig => {
+  const section = config.protocols?.[protocol] ?? {};
+  const flatKeys = isBuiltInProtocol(protocol)
+    ? Object.keys(PROTOCOL_CONFIG_SCHEMAS[protocol])
+    : [];
+  const ownKeys = Object.keys(section).filter(
+    key => !OVERRIDE_KEYS.includes(key as keyof ProtocolOverrides),
+  );
+
+  return {
+    ...pickKeys(config, SHARED_PROTOCOL_CONFIG_KEYS),
+    ...pickKeys(config, flatKeys),
+    ...pickKeys(section, ownKeys),
+  };
+};
+
+/**
+ * Shared options read by the built-in services. Registered factories may read any of them.
+ */
+const BUILT_IN_SHARED_DEPENDENCIES: string[] = ['logger', 'debug', 'httpClient', 'http'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+// Plain objects and arrays are compared by value, loggers, clients and agents by reference
+const isConfigValueEqual = (a: unknown, b: unknown): boolean => {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isConfigValueEqual(value, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every(key => isConfigValueEqual(a[key], b[key]));
+  }
+  return Object.is(a, b);
+};
+
+/**
+ * The part of the config a protocol is built from. The service only needs rebuilding when
+ * this changes, overrides are read on every request.
+ */
+export const getProtocolDependencies = (
+  config: GeniusIntentsConfig,
+  protocol: ProtocolId,
+): Record<string, unknown> => {
+  const resolved: Record<string, unknown> = resolveProtocolConfig(config, protocol);
+  if (!isBuiltInProtocol(protocol)) {
+    return resolved;
+  }
+
+  const ownKeys = Object.keys(PROTOCOL_CONFIG_SCHEMAS[protocol]);
+  const unused = SHARED_PROTOCOL_CONFIG_KEYS.filter(
+    key => !BUILT_IN_SHARED_DEPENDENCIES.includes(key) && !ownKeys.includes(key),
+  );
+  return Object.fromEntries(
+    Object.entries(resolved).filter(([key]) => !(unused as readonly string[]).includes(key)),
+  );
+};
+
+export const hasProtocolConfigChanged = (
+  previous: GeniusIntentsConfig,
+  next: GeniusIntentsConfig,
+  protocol: ProtocolId,
+): boolean =>
+  !isConfigValueEqual(
+    getProtocolDependencies(previous, protocol),
+    getProtocolDependencies(next, protocol),
+  );
@@ -0,0 +1,192 @@
+import { CircuitStateEnum } from '../../types/enums';
+import { ProtocolId } from '../../types/protocol';
+import { CircuitBreakerConfig, ProtocolHealth } from '../../types/health';
+import { isProtocolFailure } from '../retry/error-classification';
+
+type Sample = {
+  timestamp: number;
+  duration: number;
+  success: boolean;
+};
+
+type Circuit = {
+  state: CircuitStateEnum;
+  samples: Sample[];
+  openedAt: number;
+  probes: number;
+  lastError?: string;
+};
+
+const DEFAULT_CIRCUIT_BREAKER_CONFIG: Required<CircuitBreakerConfig> = {
+  failureThreshold: 0.5,
+  minimumRequests: 5,
+  windowMs: 60000,
+  openDuration: 30000,
+  halfOpenMaxRequests: 1,
+};
+
+/**
+ * Tracks rolling error rates and latencies per protocol and runs a circuit breaker for each:
+ * closed -> open once the error rate crosses the threshold, open -> half-open after
+ * `openDuration`, half-open -> closed on a successful probe or back to open on a failed one.
+ */
+export class ProtocolHealthTracker {
+  private _config: Required<CircuitBreakerConfig>;
+  private _circuits = new Map<ProtocolId, Circuit>();
+
+  constructor(
+    config: CircuitBreakerConfig = {},
+    private _enabled = true,
+  ) {
+    this._config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+  }
+
+  /**
+   * Update the thresholds, keeping the collected samples. Disabling only stops skipping protocols.
+   */
+  configure(config: CircuitBreakerConfig | false): void {
+    this._enabled = config !== false;
+    this._config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...(config || {}) };
+  }
+
+  /**
+   * Whether a request to the protocol may be sent. Reserves a probe slot when half-open,
+   * which is released by `record` or `release`.
+   */
+  tryAcquire(protocol: ProtocolId): boolean {
+    if (!this._enabled) return true;
+
+    const circuit = this.getCircuit(protocol);
+
+    if (circuit.state === CircuitStateEnum.OPEN) {
+      if (Date.now() - circuit.openedAt < this._config.openDuration) {
+        return false;
+      }
+      circuit.state = CircuitStateEnum.HALF_OPEN;
+      circuit.probes = 0;
+    }
+
+    if (circuit.state === CircuitStateEnum.HALF_OPEN) {
+      if (circuit.probes >= this._config.halfOpenMaxRequests) {
+        return false;
+      }
+      circuit.probes++;
+    }
+
+    return true;
+  }
+
+  /**
+   * Record the outcome of a request that was allowed by `tryAcquire`. Errors caused by the
+   * request itself, e.g. an unsupported token, count as a successful answer of the protocol.
+   */
+  record(protocol: ProtocolId, duration: number, error?: Error): void {
+    const circuit = this.getCircuit(protocol);
+    const now = Date.now();
+    const failed = error !== undefined && isProtocolFailure(error);
+
+    circuit.samples.push({ timestamp: now, duration, success: !failed });
+    this.prune(circuit, now);
+    if (error) {
+      circuit.lastError = error.message;
+    }
+
+    if (!this._enabled) return;
+
+    if (circuit.state === CircuitStateEnum.HALF_OPEN) {
+      circuit.probes = Math.max(0, circuit.probes - 1);
+      if (failed) {
+        this.open(circuit, now);
+      } else {
+        // A successful probe starts a fresh window so old failures do not reopen the circuit
+        circuit.state = CircuitStateEnum.CLOSED;
+        circuit.samples = [circuit.samples[circuit.samples.length - 1]!];
+      }
+      return;
+    }
+
+    const { requests, failures } = this.getCounts(circuit);
+    if (
+      circuit.state === CircuitStateEnum.CLOSED &&
+      requests >= this._config.minimumRequests &&
+      failures / requests >= this._config.failureThreshold
+    ) {
+      this.open(circuit, now);
+    }
+  }
+
+  /**
+   * Release a reservation whose outcome says nothing about the protocol, e.g. a cancelled request
+   */
+  release(protocol: ProtocolId): void {
+    const circuit = this.getCircuit(protocol);
+    if (circuit.state === CircuitStateEnum.HALF_OPEN) {
+      circuit.probes = Math.max(0, circuit.probes - 1);
+    }
+  }
+
+  /**
+   * Timestamp at which an open circuit allows probes again
+   */
+  getNextProbeAt(protocol: ProtocolId): number | undefined {
+    const circuit = this._circuits.get(protocol);
+    return circuit?.state === CircuitStateEnum.OPEN
+      ? circuit.openedAt + this._config.openDuration
+      : undefined;
+  }
+
+  getHealth(protocol: ProtocolId): ProtocolHealth {
+    const circuit = this.getCircuit(protocol);
+    this.prune(circuit, Date.now());
+
+    const { requests, failures } = this.getCounts(circuit);
+    const totalDuration = circuit.samples.reduce((sum, sample) => sum + sample.duration, 0);
+
+    return {
+      protocol,
+      state: circuit.state,
+      requests,
+      failures,
+      errorRate: requests === 0 ? 0 : failures / requests,
+      averageLatency: requests === 0 ? 0 : Math.round(totalDuration / requests),
+      nextProbeAt: this.getNextProbeAt(protocol),
+      lastError: circuit.lastError,
+    };
+  }
+
+  reset(protocol?: ProtocolId): void {
+    if (protocol) {
+      this._circuits.delete(protocol);
+    } else {
+      this._circuits.clear();
+    }
+  }
+
+  protected getCircuit(protocol: ProtocolId): Circuit {
+    let circuit = this._circuits.get(protocol);
+    if (!circuit) {
+      circuit = { state: CircuitStateEnum.CLOSED, samples: [], openedAt: 0, probes: 0 };
+      this._circuits.set(protocol, circuit);
+    }
+    return circuit;
+  }
+
+  protected open(circuit: Circuit, now: number): void {
+    circuit.state = CircuitStateEnum.OPEN;
+    circuit.openedAt = now;
+    circuit.probes = 0;
+  }
+
+  protected prune(circuit: Circuit, now: number): void {
+    const windowStart = now - this._config.windowMs;
+    const firstInWindow = circuit.samples.findIndex(sample => sample.timestamp > windowStart);
+    circuit.samples = firstInWindow === -1 ? [] : circuit.samples.slice(firstInWindow);
+  }
+
+  protected getCounts(circuit: Circuit): { requests: number; failures: number } {
+    return {
+      requests: circuit.samples.length,
+      failures: circuit.samples.filter(sample => !sample.success).length,
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { IHttpClient } from '../../interfaces/http-client';
+import { HttpConfig, HttpHeaders, HttpRequestConfig, HttpResponse } from '../../types/http';
+
+export type AxiosHttpClientOptions = Pick<HttpConfig, 'proxy' | 'httpAgent' | 'httpsAgent'>;
+
+/**
+ * Default transport, rejects with the original AxiosError
+ */
+export class AxiosHttpClient implements IHttpClient {
+  private readonly _options: AxiosHttpClientOptions;
+
+  constructor(options: AxiosHttpClientOptions = {}) {
+    this._options = options;
+  }
+
+  async get<T = unknown>(url: string, config?: HttpRequestConfig): Promise<HttpResponse<T>> {
+    return this.toResponse(await axios.get<T>(url, this.toAxiosConfig(config)));
+  }
+
+  async post<T = unknown>(
+    url: string,
+    data?: unknown,
+    config?: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> {
+    return this.toResponse(await axios.post<T>(url, data, this.toAxiosConfig(config)));
+  }
+
+  protected toAxiosConfig(config: HttpRequestConfig = {}): AxiosRequestConfig {
+    return {
+      headers: config.headers,
+      params: config.params,
+      timeout: config.timeout,
+      signal: config.signal,
+      proxy: this._options.proxy,
+      httpAgent: this._options.httpAgent,
+      httpsAgent: this._options.httpsAgent,
+    };
+  }
+
+  protected toResponse<T>(response: AxiosResponse<T>): HttpResponse<T> {
+    return {
+      data: response.data,
+      status: response.status,
+      headers: (response.headers ?? {}) as HttpHeaders,
+    };
+  }
+}
@@ -0,0 +1,14 @@
+import { HttpHeaders } from '../../types/http';
+
+/**
+ * Error for non-2xx responses of custom HTTP clients, same shape as an AxiosError response
+ */
+export class HttpError extends Error {
+  public readonly response: { status: number; data?: unknown; headers: HttpHeaders };
+
+  constructor(status: number, data?: unknown, headers: HttpHeaders = {}) {
+    super(`Request failed with status code ${status}`);
+    this.name = 'HttpError';
+    this.response = { status, data, headers };
+  }
+}
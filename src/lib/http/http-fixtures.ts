@@ -0,0 +1,199 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { HttpFixture, HttpRequestConfig } from '../../types/http';
+
+export const DEFAULT_REDACTED_FIELDS = [
+  'timestamp',
+  'deadline',
+  'expiry',
+  'signature',
+  'apiKey',
+  'accessToken',
+];
+
+const REDACTED = '<redacted>';
+
+export type FixtureRequest = HttpFixture['request'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const createRedactor = (fields: string[]): ((key: string) => boolean) => {
+  const redacted = new Set(fields.map(field => field.toLowerCase()));
+  return (key: string): boolean => redacted.has(key.toLowerCase());
+};
+
+/**
+ * Sort object keys and replace redacted fields so equal bodies serialize identically
+ */
+const normalizeBody = (value: unknown, isRedacted: (key: string) => boolean): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(item => normalizeBody(item, isRedacted));
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((normalized, key) => {
+        normalized[key] = isRedacted(key) ? REDACTED : normalizeBody(value[key], isRedacted);
+        return normalized;
+      }, {});
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value;
+};
+
+/**
+ * Merge `params` into the query string, sort it and replace redacted parameters
+ */
+const normalizeUrl = (
+  url: string,
+  params: HttpRequestConfig['params'],
+  isRedacted: (key: string) => boolean,
+): string => {
+  const parsed = new URL(url);
+  Object.entries(params || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      parsed.searchParams.set(key, String(value));
+    }
+  });
+
+  const entries = Array.from(parsed.searchParams.entries())
+    .map(([key, value]): [string, string] => [key, isRedacted(key) ? REDACTED : value])
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  parsed.search = '';
+  entries.forEach(([key, value]) => parsed.searchParams.append(key, value));
+  return parsed.toString();
+};
+
+export const normalizeRequest = (
+  method: FixtureRequest['method'],
+  url: string,
+  body: unknown,
+  config: HttpRequestConfig | undefined,
+  redact: string[] = [],
+): FixtureRequest => {
+  const isRedacted = createRedactor([...DEFAULT_REDACTED_FIELDS, ...redact]);
+  const request: FixtureRequest = { method, url: normalizeUrl(url, config?.params, isRedacted) };
+  if (body !== undefined) {
+    request.body = normalizeBody(body, isRedacted);
+  }
+  return request;
+};
+
+export const getFixturePath = (
+  directory: string,
+  scope: string,
+  request: FixtureRequest,
+): string => {
+  const hash = createHash('sha256')
+    .update(`${request.method} ${request.url} ${JSON.stringify(request.body ?? null)}`)
+    .digest('hex')
+    .slice(0, 16);
+  return path.join(directory, scope, `${request.method.toLowerCase()}-${hash}.json`);
+};
+
+export const writeFixture = async (directory: string, fixture: HttpFixture): Promise<void> => {
+  const file = getFixturePath(directory, fixture.scope, fixture.request);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+};
+
+export const readFixture = async (
+  directory: string,
+  scope: string,
+  request: FixtureRequest,
+): Promise<HttpFixture | undefined> => {
+  try {
+    const content = await fs.readFile(getFixturePath(directory, scope, request), 'utf8');
+    return JSON.parse(content) as HttpFixture;
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+export const listFixtures = async (directory: string, scope: string): Promise<HttpFixture[]> => {
+  const scopeDirectory = path.join(directory, scope);
+  let files: string[];
+  try {
+    files = await fs.readdir(scopeDirectory);
+  } catch {
+    return [];
+  }
+
+  return Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(
+        async file =>
+          JSON.parse(await fs.readFile(path.join(scopeDirectory, file), 'utf8')) as HttpFixture,
+      ),
+  );
+};
+
+/**
+ * Path of the first difference between two normalized values, e.g. `$.amountIn`
+ */
+export const findFirstDifference = (
+  recorded: unknown,
+  actual: unknown,
+  at = '$',
+): string | undefined => {
+  if (isPlainObject(recorded) && isPlainObject(actual)) {
+    const keys = Array.from(new Set([...Object.keys(recorded), ...Object.keys(actual)])).sort();
+    for (const key of keys) {
+      const difference = findFirstDifference(recorded[key], actual[key], `${at}.${key}`);
+      if (difference) return difference;
+    }
+    return undefined;
+  }
+  if (Array.isArray(recorded) && Array.isArray(actual)) {
+    const length = Math.max(recorded.length, actual.length);
+    for (let index = 0; index < length; index++) {
+      const difference = findFirstDifference(recorded[index], actual[index], `${at}[${index}]`);
+      if (difference) return difference;
+    }
+    return undefined;
+  }
+  return JSON.stringify(recorded) === JSON.stringify(actual) ? undefined : at;
+};
+
+/**
+ * Explain why no fixture matched, based on the recordings of the same endpoint
+ */
+export const describeMismatch = (request: FixtureRequest, fixtures: HttpFixture[]): string => {
+  const endpoint = (url: string): string => url.split('?')[0]!;
+  const query = (url: string): Record<string, string> =>
+    Object.fromEntries(new URL(url).searchParams.entries());
+
+  const sameEndpoint = fixtures.filter(
+    fixture =>
+      fixture.request.method === request.method &&
+      endpoint(fixture.request.url) === endpoint(request.url),
+  );
+
+  if (sameEndpoint.length === 0) {
+    const recorded = fixtures
+      .slice(0, 3)
+      .map(fixture => `${fixture.request.method} ${endpoint(fixture.request.url)}`);
+    return recorded.length
+      ? `endpoint was never recorded, recorded endpoints include: ${recorded.join(', ')}`
+      : 'nothing was recorded for this scope';
+  }
+
+  const differences = sameEndpoint.slice(0, 3).map(fixture => {
+    const queryDifference = findFirstDifference(query(fixture.request.url), query(request.url));
+    if (queryDifference) {
+      return `query differs at ${queryDifference.replace('$.', '')}`;
+    }
+    return `body differs at ${findFirstDifference(fixture.request.body, request.body)}`;
+  });
+
+  return `${sameEndpoint.length} recording(s) of this endpoint, ${differences.join('; ')}`;
+};
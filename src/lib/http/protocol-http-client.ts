@@ -0,0 +1,82 @@
+import { ProtocolId } from '../../types/protocol';
+import { IHttpClient } from '../../interfaces/http-client';
+
+import { HttpRequestConfig, HttpRequestDefaults, HttpResponse } from '../../types/http';
+import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
+import { AxiosHttpClient } from './axios-http-client';
+import { RecordingHttpClient, ReplayHttpClient } from './record-replay-http-client';
+
+/**
+ * Applies the configured headers, timeout and user agent of a protocol to every request,
+ * request-level values take precedence
+ */
+export class ProtocolHttpClient implements IHttpClient {
+  private readonly _client: IHttpClient;
+  private readonly _headers: Record<string, string>;
+  private readonly _timeout?: number;
+
+  constructor(client: IHttpClient, protocol: ProtocolId, defaults: HttpRequestDefaults = {}) {
+    this._client = client;
+    this._timeout = defaults.timeout;
+    this._headers = {
+      ...defaults.headers,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      ...(defaults.userAgent ? { 'User-Agent': `${defaults.userAgent} (${protocol})` } : {}),
+    };
+  }
+
+  get<T = unknown>(url: string, config?: HttpRequestConfig): Promise<HttpResponse<T>> {
+    return this._client.get<T>(url, this.withDefaults(config));
+  }
+
+  post<T = unknown>(
+    url: string,
+    data?: unknown,
+    config?: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> {
+    return this._client.post<T>(url, data, this.withDefaults(config));
+  }
+
+  protected withDefaults(config: HttpRequestConfig = {}): HttpRequestConfig {
+    return {
+      ...config,
+      headers: { ...this._headers, ...config.headers },
+      timeout: config.timeout ?? this._timeout,
+    };
+  }
+}
+
+/**
+ * The configured `httpClient`, or an axios client using the configured proxy and agents,
+ * recording or replaced by recorded fixtures when `recordReplay` is set
+ */
+export const createHttpClient = (scope: string, config?: GeniusIntentsSDKConfig): IHttpClient => {
+  const http = config?.http || {};
+  const client = config?.httpClient || new AxiosHttpClient(http);
+
+  switch (http.recordReplay?.mode) {
+    case 'record':
+      return new RecordingHttpClient(client, scope, http.recordReplay);
+    case 'replay':
+      return new ReplayHttpClient(scope, http.recordReplay);
+    default:
+      return client;
+  }
+};
+
+/**
+ * HTTP client of a protocol service with the shared and per-protocol request defaults applied
+ */
+export const createProtocolHttpClient = (
+  protocol: ProtocolId,
+  config?: GeniusIntentsSDKConfig,
+): IHttpClient => {
+  const http = config?.http || {};
+  const overrides = http.protocols?.[protocol];
+
+  return new ProtocolHttpClient(createHttpClient(protocol, config), protocol, {
+    headers: { ...http.headers, ...overrides?.headers },
+    timeout: overrides?.timeout ?? http.timeout,
+    userAgent: overrides?.userAgent ?? http.userAgent,
+  });
+};
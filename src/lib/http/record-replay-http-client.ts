@@ -0,0 +1,140 @@
+import { IHttpClient } from '../../interfaces/http-client';
+import { SdkErrorEnum } from '../../types/enums';
+import {
+  HttpFixture,
+  HttpHeaders,
+  HttpRecordReplayConfig,
+  HttpRequestConfig,
+  HttpResponse,
+} from '../../types/http';
+import { sdkError } from '../../utils/throw-error';
+import {
+  FixtureRequest,
+  describeMismatch,
+  getFixturePath,
+  listFixtures,
+  normalizeRequest,
+  readFixture,
+  writeFixture,
+} from './http-fixtures';
+import { HttpError } from './http-error';
+
+type RecordReplayOptions = Omit<HttpRecordReplayConfig, 'mode'>;
+
+const withoutCookies = (headers: HttpHeaders = {}): HttpHeaders =>
+  Object.fromEntries(Object.entries(headers).filter(([key]) => key.toLowerCase() !== 'set-cookie'));
+
+/**
+ * Sends requests through `client` and writes every request/response pair under
+ * `<directory>/<scope>`. Error responses are recorded too and replayed as `HttpError`.
+ */
+export class RecordingHttpClient implements IHttpClient {
+  private readonly _client: IHttpClient;
+  private readonly _scope: string;
+  private readonly _options: RecordReplayOptions;
+
+  constructor(client: IHttpClient, scope: string, options: RecordReplayOptions) {
+    this._client = client;
+    this._scope = scope;
+    this._options = options;
+  }
+
+  get<T = unknown>(url: string, config?: HttpRequestConfig): Promise<HttpResponse<T>> {
+    return this.record(normalizeRequest('GET', url, undefined, config, this._options.redact), () =>
+      this._client.get<T>(url, config),
+    );
+  }
+
+  post<T = unknown>(
+    url: string,
+    data?: unknown,
+    config?: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> {
+    return this.record(normalizeRequest('POST', url, data, config, this._options.redact), () =>
+      this._client.post<T>(url, data, config),
+    );
+  }
+
+  protected async record<T>(
+    request: FixtureRequest,
+    send: () => Promise<HttpResponse<T>>,
+  ): Promise<HttpResponse<T>> {
+    let response: HttpResponse<unknown>;
+    try {
+      const result = await send();
+      response = { ...result, headers: withoutCookies(result.headers) };
+      await this.write(request, response);
+      return result;
+    } catch (error) {
+      // Only responses are recorded, network errors and aborts are not reproducible
+      const failed = (error as { response?: HttpResponse<unknown> } | null)?.response;
+      if (failed?.status) {
+        await this.write(request, {
+          data: failed.data,
+          status: failed.status,
+          headers: withoutCookies(failed.headers),
+        });
+      }
+      throw error;
+    }
+  }
+
+  protected write(request: FixtureRequest, response: HttpResponse<unknown>): Promise<void> {
+    const fixture: HttpFixture = {
+      scope: this._scope,
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    return writeFixture(this._options.directory, fixture);
+  }
+}
+
+/**
+ * Serves responses recorded by `RecordingHttpClient` without touching the network. Requests are
+ * matched by method, URL and normalized body; unmatched requests fail with REPLAY_MISMATCH.
+ */
+export class ReplayHttpClient implements IHttpClient {
+  private readonly _scope: string;
+  private readonly _options: RecordReplayOptions;
+
+  constructor(scope: string, options: RecordReplayOptions) {
+    this._scope = scope;
+    this._options = options;
+  }
+
+  get<T = unknown>(url: string, config?: HttpRequestConfig): Promise<HttpResponse<T>> {
+    return this.replay(normalizeRequest('GET', url, undefined, config, this._options.redact));
+  }
+
+  post<T = unknown>(
+    url: string,
+    data?: unknown,
+    config?: HttpRequestConfig,
+  ): Promise<HttpResponse<T>> {
+    return this.replay(normalizeRequest('POST', url, data, config, this._options.redact));
+  }
+
+  protected async replay<T>(request: FixtureRequest): Promise<HttpResponse<T>> {
+    const fixture = await readFixture(this._options.directory, this._scope, request);
+
+    if (!fixture) {
+      const fixtures = await listFixtures(this._options.directory, this._scope);
+      throw sdkError(
+        SdkErrorEnum.REPLAY_MISMATCH,
+        `No recorded response for ${request.method} ${request.url} (${this._scope}), expected ${getFixturePath(
+          this._options.directory,
+          this._scope,
+          request,
+        )}: ${describeMismatch(request, fixtures)}`,
+        { retryable: false, details: { request } },
+      );
+    }
+
+    const { data, status, headers } = fixture.response;
+    if (status < 200 || status >= 300) {
+      throw new HttpError(status, data, headers);
+    }
+    return { data: data as T, status, headers };
+  }
+}
@@ -0,0 +1,147 @@
+import { ProtocolId } from '../../types/protocol';
+import { IIntentsMiddleware } from '../../interfaces/intents-middleware';
+
+import {
+  ErrorHookContext,
+  ErrorHookResult,
+  MaybePromise,
+  MiddlewareStage,
+  MiddlewareStageTypes,
+  RequestHookContext,
+  RequestHookResult,
+  ResponseHookContext,
+  SimulateHookContext,
+  SimulateHookResult,
+} from '../../types/middleware';
+
+type BeforeHook<S extends MiddlewareStage> = (
+  context: RequestHookContext<S>,
+) => MaybePromise<RequestHookResult<S> | void>;
+
+type AfterHook<S extends MiddlewareStage> = (
+  context: ResponseHookContext<S>,
+) => MaybePromise<MiddlewareStageTypes[S]['response'] | void>;
+
+const STAGE_HOOKS = {
+  price: { before: 'beforePrice', after: 'afterPrice' },
+  quote: { before: 'beforeQuote', after: 'afterQuote' },
+} as const;
+
+/**
+ * Ordered list of middleware and the logic to chain their hooks. Each hook sees the params and
+ * response returned by the previous ones.
+ */
+export class MiddlewarePipeline {
+  private _middleware: IIntentsMiddleware[];
+
+  constructor(middleware: IIntentsMiddleware[] = []) {
+    this._middleware = [...middleware];
+  }
+
+  /**
+   * Append a middleware and return a function that removes it again
+   */
+  use(middleware: IIntentsMiddleware): () => void {
+    this._middleware.push(middleware);
+    return (): void => {
+      const index = this._middleware.indexOf(middleware);
+      if (index !== -1) {
+        this._middleware.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * True when at least one middleware applies to the protocol
+   */
+  has(protocol: ProtocolId): boolean {
+    return this.forProtocol(protocol).length > 0;
+  }
+
+  /**
+   * Run the before hooks until one answers the request with a response
+   */
+  async before<S extends MiddlewareStage>(
+    stage: S,
+    context: RequestHookContext<S>,
+  ): Promise<RequestHookResult<S> & { params: MiddlewareStageTypes[S]['params'] }> {
+    let { params } = context;
+
+    for (const middleware of this.forProtocol(context.protocol)) {
+      const hook = middleware[STAGE_HOOKS[stage].before] as BeforeHook<S> | undefined;
+      const result = await hook?.call(middleware, { protocol: context.protocol, params });
+
+      if (result?.params) {
+        params = result.params;
+      }
+      if (result?.response) {
+        return { params, response: result.response };
+      }
+    }
+
+    return { params };
+  }
+
+  async after<S extends MiddlewareStage>(
+    stage: S,
+    context: ResponseHookContext<S>,
+  ): Promise<MiddlewareStageTypes[S]['response']> {
+    let { response } = context;
+
+    for (const middleware of this.forProtocol(context.protocol)) {
+      const hook = middleware[STAGE_HOOKS[stage].after] as AfterHook<S> | undefined;
+      response = (await hook?.call(middleware, { ...context, response })) || response;
+    }
+
+    return response;
+  }
+
+  async beforeSimulate(context: SimulateHookContext): Promise<SimulateHookResult> {
+    let { response } = context;
+
+    for (const middleware of this.forProtocol(context.protocol)) {
+      const result = await middleware.beforeSimulate?.({ ...context, response });
+
+      if (result?.response) {
+        response = result.response;
+      }
+      if (result?.skip) {
+        return { response, skip: true };
+      }
+    }
+
+    return { response };
+  }
+
+  /**
+   * Run the error hooks until one recovers the request. An error thrown by a hook replaces the
+   * original one.
+   */
+  async onError(context: ErrorHookContext): Promise<ErrorHookResult> {
+    let { error } = context;
+
+    for (const middleware of this.forProtocol(context.protocol)) {
+      if (!middleware.onError) continue;
+
+      try {
+        const result = await middleware.onError({ ...context, error });
+        if (result?.response) {
+          return { response: result.response };
+        }
+        if (result?.error) {
+          error = result.error;
+        }
+      } catch (hookError) {
+        error = hookError instanceof Error ? hookError : new Error('Unknown error');
+      }
+    }
+
+    return { error };
+  }
+
+  protected forProtocol(protocol: ProtocolId): IIntentsMiddleware[] {
+    return this._middleware.filter(
+      middleware => !middleware.protocols || middleware.protocols.includes(protocol),
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { ProtocolId } from '../../types/protocol';
+import { IRankingStrategy } from '../../interfaces/ranking-strategy';
+
+import { RankableResult, RankedResult } from '../../types/ranking';
+import { PriceResponse } from '../../types/price-response';
+import { QuoteResponse } from '../../types/quote-response';
+
+const BPS = BigInt(10000);
+
+const compareDesc = (a: bigint, b: bigint): number => (a === b ? 0 : a > b ? -1 : 1);
+const compareAsc = (a: bigint, b: bigint): number => compareDesc(b, a);
+
+/**
+ * Gas-adjusted output when the result has been scored, raw amountOut otherwise
+ */
+export const getNetAmountOut = (result: RankableResult): bigint =>
+  BigInt(result.score?.netAmountOut ?? result.response!.amountOut);
+
+export const isSimulationOk = (response: PriceResponse | QuoteResponse): boolean => {
+  // If undefined or missing, it means the simulation was not necessary for this protocol
+  return !('simulationSuccess' in response) || response.simulationSuccess !== false;
+};
+
+/**
+ * Highest raw output amount first
+ */
+export class MaxOutputRankingStrategy implements IRankingStrategy {
+  public readonly name = 'maxOutput';
+
+  rank<T extends RankableResult>(results: T[]): RankedResult<T>[] {
+    return [...results]
+      .sort((a, b) => compareDesc(BigInt(a.response!.amountOut), BigInt(b.response!.amountOut)))
+      .map(result => ({ result, reason: `amountOut ${result.response!.amountOut}` }));
+  }
+}
+
+/**
+ * Lowest input amount first, used for exact-out swaps where every result delivers the same output
+ */
+export class MinInputRankingStrategy implements IRankingStrategy {
+  public readonly name = 'minInput';
+
+  rank<T extends RankableResult>(results: T[]): RankedResult<T>[] {
+    return [...results]
+      .sort((a, b) => compareAsc(BigInt(a.response!.amountIn), BigInt(b.response!.amountIn)))
+      .map(result => ({ result, reason: `amountIn ${result.response!.amountIn}` }));
+  }
+}
+
+/**
+ * Highest output after gas first. Requires `scoring: 'netValue'` so results carry a score,
+ * unscored results are compared by amountOut.
+ */
+export class NetValueRankingStrategy implements IRankingStrategy {
+  public readonly name = 'netValue';
+
+  rank<T extends RankableResult>(results: T[]): RankedResult<T>[] {
+    return [...results]
+      .sort((a, b) => compareDesc(getNetAmountOut(a), getNetAmountOut(b)))
+      .map(result => ({
+        result,
+        reason: result.score
+          ? `netAmountOut ${result.score.netAmountOut} (amountOut ${result.score.amountOut} - gas ${result.score.gasCostOut})`
+          : `amountOut ${result.response!.amountOut} (not scored)`,
+      }));
+  }
+}
+
+/**
+ * Fastest protocol response first
+ */
+export class LowestLatencyRankingStrategy implements IRankingStrategy {
+  public readonly name = 'lowestLatency';
+
+  rank<T extends RankableResult>(results: T[]): RankedResult<T>[] {
+    return [...results]
+      .sort((a, b) => a.duration - b.duration)
+      .map(result => ({ result, reason: `duration ${result.duration}ms` }));
+  }
+}
+
+/**
+ * Results whose simulation did not fail come first, each group ordered by the wrapped strategy
+ */
+export class PreferSimulatedRankingStrategy implements IRankingStrategy {
+  public readonly name: string;
+
+  constructor(private readonly _fallback: IRankingStrategy = new MaxOutputRankingStrategy()) {
+    this.name = `preferSimulated(${_fallback.name})`;
+  }
+
+  rank<T extends RankableResult>(results: T[]): RankedResult<T>[] {
+    const ranked = this._fallback.rank(results);
+    const simulated = ranked.filter(entry => isSimulationOk(entry.result.response!));
+    const failed = ranked
+      .filter(entry => !isSimulationOk(entry.result.response!))
+      .map(entry => ({ ...entry, reason: `simulation failed, ${entry.reason}` }));
+
+    return [...simulated, ...failed];
+  }
+}
+
+export type ProtocolPreferenceOptions = {
+  /**
+   * Bonus in basis points per protocol. A protocol with a weight of 25 keeps its position
+   * unless another protocol returns more than 25 bps more output.
+   */
+  weights: Partial<Record<ProtocolId, number>>;
+};
+
+/**
+ * Compares the (net) output of each result after applying a per-protocol bps bonus
+ */
+export class ProtocolPreferenceRankingStrategy implements IRankingStrategy {
+  public readonly name = 'protocolPreference';
+
+  constructor(private readonly _options: ProtocolPreferenceOptions) {}
+
+  rank<T extends RankableResult>(results: T[]): RankedResult<T>[] {
+    return results
+      .map(result => ({ result, weighted: this.getWeightedValue(result) }))
+      .sort((a, b) => compareDesc(a.weighted, b.weighted))
+      .map(({ result, weighted }) => {
+        const weight = this.getWeight(result.protocol);
+        return {
+          result,
+          reason:
+            weight === 0
+              ? `value ${weighted}`
+              : `value ${weighted} including ${weight} bps preference for ${result.protocol}`,
+        };
+      });
+  }
+
+  protected getWeight(protocol: ProtocolId): number {
+    return this._options.weights[protocol] ?? 0;
+  }
+
+  protected getWeightedValue(result: RankableResult): bigint {
+    const bps = BigInt(Math.round(this.getWeight(result.protocol)));
+    return (getNetAmountOut(result) * (BPS + bps)) / BPS;
+  }
+}
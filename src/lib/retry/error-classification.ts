@@ -0,0 +1,201 @@
+import { SdkErrorEnum } from '../../types/enums';
+import { isAbortError } from '../../utils/abort';
+
+type HttpErrorResponse = {
+  status: number;
+  headers?: Record<string, unknown>;
+};
+
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+const RETRYABLE_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ERR_NETWORK',
+];
+
+/**
+ * Walk an error and the causes it wraps, services wrap the original axios error in `sdkError`
+ */
+export function getErrorChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current = error;
+
+  while (current !== undefined && current !== null && !chain.includes(current)) {
+    chain.push(current);
+    current = current instanceof Error ? (current as Error & { cause?: unknown }).cause : undefined;
+  }
+
+  return chain;
+}
+
+/**
+ * Response attached to an HTTP client error, e.g. `AxiosError.response`
+ */
+const getErrorResponse = (error: unknown): HttpErrorResponse | undefined => {
+  const response = (error as { response?: unknown } | null)?.response;
+  if (
+    typeof response === 'object' &&
+    response !== null &&
+    typeof (response as HttpErrorResponse).status === 'number'
+  ) {
+    return response as HttpErrorResponse;
+  }
+  return undefined;
+};
+
+/**
+ * HTTP status of the first response found in the error chain
+ */
+export function getHttpStatus(error: unknown): number | undefined {
+  for (const item of getErrorChain(error)) {
+    const response = getErrorResponse(item);
+    if (response) {
+      return response.status;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Delay in milliseconds requested by a `Retry-After` header (seconds or HTTP date)
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  for (const item of getErrorChain(error)) {
+    const header = getErrorResponse(item)?.headers?.['retry-after'];
+    if (header === undefined || header === null) continue;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(header));
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Transient failures worth retrying: timeouts, rate limits, 5xx responses and dropped
+ * connections. Client errors such as invalid tokens or missing liquidity are not retried,
+ * neither are cancelled requests.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const chain = getErrorChain(error);
+
+  if (chain.some(isAbortError)) {
+    return false;
+  }
+
+  // Errors that already know, e.g. SdkError, take precedence over their causes
+  const classified = chain.find(
+    item => typeof (item as { retryable?: unknown } | null)?.retryable === 'boolean',
+  );
+  if (classified) {
+    return (classified as { retryable: boolean }).retryable;
+  }
+
+  const status = getHttpStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.includes(status);
+  }
+
+  return chain.some(item => {
+    if (!(item instanceof Error)) return false;
+    const code = (item as Error & { code?: string }).code;
+    return item.name === 'TimeoutError' || (code !== undefined && RETRYABLE_CODES.includes(code));
+  });
+}
+
+// The protocol answered, but rejected this particular request
+const REQUEST_ERROR_CODES: string[] = [
+  SdkErrorEnum.INVALID_PARAMS,
+  SdkErrorEnum.INSUFFICIENT_LIQUIDITY,
+  SdkErrorEnum.UNSUPPORTED_TOKEN,
+  SdkErrorEnum.SLIPPAGE_TOO_LOW,
+  SdkErrorEnum.AMOUNT_TOO_SMALL,
+];
+
+const GENERIC_ERROR_CODES: string[] = [
+  SdkErrorEnum.PRICE_NOT_FOUND,
+  SdkErrorEnum.QUOTE_NOT_FOUND,
+  SdkErrorEnum.FAILED_HTTP_REQUEST,
+];
+
+const ERROR_CODE_PATTERNS: Array<[SdkErrorEnum, RegExp]> = [
+  [
+    SdkErrorEnum.INSUFFICIENT_LIQUIDITY,
+    /insufficient liquidity|not enough liquidity|no liquidity|no route|route not found|could not find any route|no swap route/i,
+  ],
+  [
+    SdkErrorEnum.UNSUPPORTED_TOKEN,
+    /unsupported token|token not supported|token is not supported|invalid token|token not found|unknown token/i,
+  ],
+  [
+    SdkErrorEnum.SLIPPAGE_TOO_LOW,
+    /slippage (is )?too (low|small)|exceeds? (the )?slippage|slippage tolerance exceeded/i,
+  ],
+  [
+    SdkErrorEnum.AMOUNT_TOO_SMALL,
+    /amount (is )?too (small|low)|below (the )?minimum|min(imum)? amount/i,
+  ],
+];
+
+const getErrorText = (error: unknown): string => {
+  const data = (error as { response?: { data?: unknown } } | null)?.response?.data;
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : '';
+  return data === undefined ? message : `${message} ${JSON.stringify(data)}`;
+};
+
+/**
+ * Most specific SdkErrorEnum describing an error: a specific code already carried by the chain,
+ * a rate limit, or a known protocol message. Falls back to `fallback`.
+ */
+export function getErrorCode(error: unknown, fallback: SdkErrorEnum): SdkErrorEnum {
+  const chain = getErrorChain(error);
+
+  const known = chain
+    .map(item => (item as { code?: unknown } | null)?.code)
+    .find(
+      (code): code is SdkErrorEnum =>
+        typeof code === 'string' &&
+        (Object.values(SdkErrorEnum) as string[]).includes(code) &&
+        !GENERIC_ERROR_CODES.includes(code),
+    );
+  if (known) {
+    return known;
+  }
+
+  if (getHttpStatus(error) === 429) {
+    return SdkErrorEnum.RATE_LIMITED;
+  }
+
+  const text = chain.map(getErrorText).join(' ');
+  const match = ERROR_CODE_PATTERNS.find(([, pattern]) => pattern.test(text));
+  return match ? match[0] : fallback;
+}
+
+/**
+ * Failures that say something about the health of a protocol: transient errors, 5xx responses
+ * and unclassified errors such as timeouts. Bad input (4xx responses, unsupported tokens,
+ * missing liquidity, invalid params) is not a protocol failure.
+ */
+export function isProtocolFailure(error: unknown): boolean {
+  if (isRetryableError(error)) {
+    return true;
+  }
+
+  const status = getHttpStatus(error);
+  if (status !== undefined) {
+    return status >= 500;
+  }
+
+  return !REQUEST_ERROR_CODES.includes(getErrorCode(error, SdkErrorEnum.FAILED_HTTP_REQUEST));
+}
@@ -0,0 +1,83 @@
+import { RetryPolicy } from '../../types/retry';
+import { getAbortReason, throwIfAborted } from '../../utils/abort';
+import { getRetryAfter, isRetryableError } from './error-classification';
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 1,
+  baseDelay: 250,
+  maxDelay: 4000,
+  jitter: true,
+  shouldRetry: isRetryableError,
+};
+
+export type RetryOptions = {
+  signal?: AbortSignal;
+  /**
+   * Timestamp after which no retry is started, retries never wait past it
+   */
+  deadline?: number;
+  /**
+   * Called before every attempt, including the first one
+   */
+  onAttempt?: (attempt: number) => void;
+};
+
+/**
+ * Backoff before the given retry (1 for the first retry). `Retry-After` takes precedence.
+ */
+export function getRetryDelay(
+  error: unknown,
+  retry: number,
+  policy: Required<RetryPolicy>,
+): number {
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (retry - 1));
+  return policy.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+}
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(getAbortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Run a task, retrying retryable errors with exponential backoff until the attempts or the
+ * deadline run out. The last error is thrown unchanged.
+ */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  policy: Required<RetryPolicy>,
+  options: RetryOptions = {},
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(options.signal);
+    options.onAttempt?.(attempt);
+
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || options.signal?.aborted || !policy.shouldRetry(error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(error, attempt, policy);
+      if (options.deadline !== undefined && Date.now() + delay >= options.deadline) {
+        throw error;
+      }
+
+      await wait(delay, options.signal);
+    }
+  }
+}
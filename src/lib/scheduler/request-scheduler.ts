@@ -0,0 +1,130 @@
+import { RequestPriorityEnum } from '../../types/enums';
+import { getAbortReason } from '../../utils/abort';
+
+export type ScheduleOptions = {
+  priority?: number;
+  signal?: AbortSignal;
+};
+
+type QueuedTask = {
+  priority: number;
+  sequence: number;
+  start: () => void;
+};
+
+/**
+ * Caps the number of in-flight protocol requests shared by every caller of a
+ * `GeniusIntents` instance. Tasks beyond the limit wait in a queue ordered by
+ * priority (highest first), then by arrival order.
+ */
+export class RequestScheduler {
+  private _maxConcurrency: number;
+  private _running = 0;
+  private _sequence = 0;
+  private _queue: QueuedTask[] = [];
+
+  constructor(maxConcurrency: number) {
+    this._maxConcurrency = RequestScheduler.normalizeConcurrency(maxConcurrency);
+  }
+
+  /**
+   * Number of tasks currently executing
+   */
+  get active(): number {
+    return this._running;
+  }
+
+  /**
+   * Number of tasks waiting for a free slot
+   */
+  get pending(): number {
+    return this._queue.length;
+  }
+
+  get maxConcurrency(): number {
+    return this._maxConcurrency;
+  }
+
+  /**
+   * Update the concurrency limit. Raising it immediately starts queued tasks,
+   * lowering it lets running tasks finish before the new limit applies.
+   */
+  setMaxConcurrency(maxConcurrency: number): void {
+    this._maxConcurrency = RequestScheduler.normalizeConcurrency(maxConcurrency);
+    this.drain();
+  }
+
+  /**
+   * Run a task once a slot is free and resolve with its result.
+   * Aborting the signal while the task is still queued removes it from the queue.
+   */
+  schedule<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { priority = RequestPriorityEnum.NORMAL, signal } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(getAbortReason(signal));
+        return;
+      }
+
+      const onAbort = (): void => {
+        const index = this._queue.indexOf(queued);
+        if (index !== -1) {
+          this._queue.splice(index, 1);
+          reject(getAbortReason(signal!));
+        }
+      };
+
+      const queued: QueuedTask = {
+        priority,
+        sequence: this._sequence++,
+        start: (): void => {
+          signal?.removeEventListener('abort', onAbort);
+          this._running++;
+          let promise: Promise<T>;
+          try {
+            promise = task();
+          } catch (error) {
+            promise = Promise.reject(error);
+          }
+          promise.then(resolve, reject).finally(() => {
+            this._running--;
+            this.drain();
+          });
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.enqueue(queued);
+      this.drain();
+    });
+  }
+
+  protected enqueue(task: QueuedTask): void {
+    // Keep the queue sorted so the next task to run is always at the head
+    const index = this._queue.findIndex(
+      queued =>
+        queued.priority < task.priority ||
+        (queued.priority === task.priority && queued.sequence > task.sequence),
+    );
+
+    if (index === -1) {
+      this._queue.push(task);
+    } else {
+      this._queue.splice(index, 0, task);
+    }
+  }
+
+  protected drain(): void {
+    while (this._running < this._maxConcurrency && this._queue.length > 0) {
+      this._queue.shift()!.start();
+    }
+  }
+
+  protected static normalizeConcurrency(maxConcurrency: number): number {
+    if (!Number.isFinite(maxConcurrency) || maxConcurrency < 1) {
+      return Number.POSITIVE_INFINITY;
+    }
+    return Math.floor(maxConcurrency);
+  }
+}
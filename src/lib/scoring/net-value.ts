@@ -0,0 +1,81 @@
+import { PriceResponse } from '../../types/price-response';
+import { QuoteResponse } from '../../types/quote-response';
+import { ScoreBreakdown } from '../../types/scoring';
+
+/**
+ * Gas used by a standard ERC20 approve, applied when a required approval carries no estimate
+ */
+export const DEFAULT_APPROVAL_GAS = BigInt(46000);
+
+// Every supported EVM network uses an 18 decimals native token
+const NATIVE_UNIT = BigInt(10) ** BigInt(18);
+
+const toBigInt = (value: string | undefined): bigint | undefined => {
+  if (!value) return undefined;
+  try {
+    return BigInt(value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Gas units of the swap itself, preferring the transaction estimate (which simulation refines)
+ * over the protocol's own `estimatedGas`
+ */
+export function getSwapGas(response: PriceResponse | QuoteResponse): bigint {
+  const transactionData =
+    'evmExecutionPayload' in response ? response.evmExecutionPayload?.transactionData : undefined;
+
+  return (
+    toBigInt(transactionData?.gasEstimate) ??
+    toBigInt(transactionData?.gasLimit) ??
+    toBigInt(response.estimatedGas) ??
+    BigInt(0)
+  );
+}
+
+/**
+ * Gas units of the approval transaction when the quote requires one
+ */
+export function getApprovalGas(response: PriceResponse | QuoteResponse): bigint {
+  const approval =
+    'evmExecutionPayload' in response ? response.evmExecutionPayload?.approval : undefined;
+
+  if (!approval?.required) {
+    return BigInt(0);
+  }
+
+  return (
+    toBigInt(approval.txnData?.gasEstimate) ??
+    toBigInt(approval.txnData?.gasLimit) ??
+    DEFAULT_APPROVAL_GAS
+  );
+}
+
+/**
+ * Score a response by its output minus the gas cost expressed in tokenOut.
+ * @param gasPrice - Gas price of the input network in wei
+ * @param nativeRate - Amount of tokenOut, in its smallest unit, worth one whole native token
+ */
+export function scoreNetValue(
+  response: PriceResponse | QuoteResponse,
+  gasPrice: bigint,
+  nativeRate: bigint,
+): ScoreBreakdown {
+  const amountOut = BigInt(response.amountOut);
+  const swapGas = getSwapGas(response);
+  const approvalGas = getApprovalGas(response);
+  const gasCostNative = (swapGas + approvalGas) * gasPrice;
+  const gasCostOut = (gasCostNative * nativeRate) / NATIVE_UNIT;
+
+  return {
+    amountOut: amountOut.toString(),
+    swapGas: swapGas.toString(),
+    approvalGas: approvalGas.toString(),
+    gasPrice: gasPrice.toString(),
+    gasCostNative: gasCostNative.toString(),
+    gasCostOut: gasCostOut.toString(),
+    netAmountOut: (amountOut - gasCostOut).toString(),
+  };
+}
@@ -0,0 +1,73 @@
+export const DEFAULT_SPLIT_PARTS = 4;
+
+export type SplitAllocation = {
+  /**
+   * Position of the protocol in the outputs table
+   */
+  index: number;
+  parts: number;
+  amountOut: bigint;
+};
+
+type AllocationState = {
+  total: bigint;
+  allocations: SplitAllocation[];
+};
+
+/**
+ * Amount of `parts` out of `totalParts` of an input amount, rounded down
+ */
+export const getPartAmount = (amountIn: string, parts: number, totalParts: number): string =>
+  ((BigInt(amountIn) * BigInt(parts)) / BigInt(totalParts)).toString();
+
+/**
+ * Spread `totalParts` parts of an order over protocols so the combined output is the highest.
+ * `outputs[i][k - 1]` is the output of protocol `i` for `k` parts, `undefined` when it could not
+ * be priced. On equal output the allocation with fewer legs wins.
+ * @returns undefined when no combination of priced parts fills the whole order
+ */
+export function allocateSplit(
+  outputs: (bigint | undefined)[][],
+  totalParts: number,
+  maxLegs: number = totalParts,
+): { total: bigint; allocations: SplitAllocation[] } | undefined {
+  // states[units][legs]: best allocation of `units` parts over `legs` protocols seen so far
+  let states: (AllocationState | undefined)[][] = Array.from({ length: totalParts + 1 }, () =>
+    new Array(maxLegs + 1).fill(undefined),
+  );
+  states[0]![0] = { total: BigInt(0), allocations: [] };
+
+  outputs.forEach((protocolOutputs, index) => {
+    const next = states.map(row => [...row]);
+
+    states.forEach((row, units) => {
+      row.forEach((state, legs) => {
+        if (!state || legs === maxLegs) return;
+
+        for (let parts = 1; units + parts <= totalParts; parts++) {
+          const amountOut = protocolOutputs[parts - 1];
+          if (amountOut === undefined) continue;
+
+          const total = state.total + amountOut;
+          const current = next[units + parts]![legs + 1];
+          if (!current || total > current.total) {
+            next[units + parts]![legs + 1] = {
+              total,
+              allocations: [...state.allocations, { index, parts, amountOut }],
+            };
+          }
+        }
+      });
+    });
+
+    states = next;
+  });
+
+  let best: AllocationState | undefined;
+  for (const state of states[totalParts]!) {
+    if (state && (!best || state.total > best.total)) {
+      best = state;
+    }
+  }
+  return best;
+}
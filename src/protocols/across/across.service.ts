@@ -1,30 +1,37 @@
 import { acrossConfig } from './across.config';
-import { AcrossConfig, DepositV3Params } from './across.types';
+import { AcrossConfig, AcrossRoute, DepositV3Params } from './across.types';
 import { ethers } from 'ethers';
 import { ChainIdEnum, ProtocolEnum, SdkErrorEnum } from '../../types/enums';
 import { IntentPriceParams } from '../../types/price-params';
 import { IntentQuoteParams } from '../../types/quote-params';
+import { ProtocolRequestOptions } from '../../types/request-options';
 import { PriceResponse } from '../../types/price-response';
 import { QuoteResponse } from '../../types/quote-response';
 import { IIntentProtocol } from '../../interfaces/intent-protocol';
+import { ProtocolRoutes, RouteQuery } from '../../types/routes';
 import { NATIVE_ADDRESS } from '../../utils/constants';
 import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
-import { ILogger, LoggerFactory, LogLevelEnum } from '../../utils/logger';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { validateConfigSchema } from '../../lib/config/config-validation';
+import { ACROSS_CONFIG_SCHEMA } from '../../lib/config/protocol-config-schemas';
 import { sdkError } from '../../utils/throw-error';
+import { getErrorCode } from '../../lib/retry/error-classification';
 import { createErrorMessage } from '../../utils/create-error-message';
+import { raceAbort } from '../../utils/abort';
 
 // Dynamic import types for Across SDK
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AcrossClient = any;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type CreateAcrossClientFunction = (config: any) => AcrossClient;
-
-let logger: ILogger;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AcrossQuote = any;
 
 export class AcrossService implements IIntentProtocol {
   public readonly protocol = ProtocolEnum.ACROSS;
   public readonly singleChain = false;
   public readonly multiChain = true;
+  public readonly supportsReceiver = true;
   public readonly chains = [
     ChainIdEnum.ETHEREUM,
     ChainIdEnum.ARBITRUM,
@@ -40,15 +47,10 @@ export class AcrossService implements IIntentProtocol {
   protected fillDeadlineS: number = 21600;
   private _initialized = false;
 
+  protected readonly logger: ILogger;
+
   constructor(config: GeniusIntentsSDKConfig & AcrossConfig) {
-    if (config?.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    }
-    // Use custom logger if provided
-    else if (config?.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-    logger = LoggerFactory.getLogger();
+    this.logger = LoggerFactory.fromConfig(config);
 
     this.config = config;
 
@@ -56,7 +58,7 @@ export class AcrossService implements IIntentProtocol {
       this.fillDeadlineS = config.acrossFillDeadlineS;
     }
 
-    logger.debug('AcrossService initialized', {
+    this.logger.debug('AcrossService initialized', {
       integratorId: config.acrossIntegratorId,
       fillDeadlineS: this.fillDeadlineS,
     });
@@ -80,9 +82,9 @@ export class AcrossService implements IIntentProtocol {
       });
 
       this._initialized = true;
-      logger.debug('Across client initialized successfully');
+      this.logger.debug('Across client initialized successfully');
     } catch (error: unknown) {
-      logger.error(
+      this.logger.error(
         'Failed to initialize Across client:',
         error instanceof Error ? error : new Error('Unknown error'),
       );
@@ -90,7 +92,11 @@ export class AcrossService implements IIntentProtocol {
     }
   }
 
-  public async fetchPrice(params: IntentPriceParams): Promise<PriceResponse> {
+  public async fetchPrice(
+    params: IntentPriceParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<PriceResponse> {
+    const logger = options?.logger ?? this.logger;
     try {
       await this.initializeAcrossClient();
 
@@ -108,15 +114,19 @@ export class AcrossService implements IIntentProtocol {
 
       const validatedParams = this.validatePriceParams(params);
 
-      const quote = await this.acrossClient.getQuote({
-        route: {
-          originChainId: validatedParams.networkIn,
-          destinationChainId: validatedParams.networkOut,
-          inputToken: validatedParams.tokenIn as `0x${string}`,
-          outputToken: validatedParams.tokenOut as `0x${string}`,
-        },
-        inputAmount: validatedParams.amountIn,
-      });
+      // The Across client does not accept a signal, stop waiting on it instead
+      const quote = await raceAbort<AcrossQuote>(
+        this.acrossClient.getQuote({
+          route: {
+            originChainId: validatedParams.networkIn,
+            destinationChainId: validatedParams.networkOut,
+            inputToken: validatedParams.tokenIn as `0x${string}`,
+            outputToken: validatedParams.tokenOut as `0x${string}`,
+          },
+          inputAmount: validatedParams.amountIn,
+        }),
+        options?.signal,
+      );
 
       logger.debug('Successfully received price from Across', {
         amountOut: quote.deposit.outputAmount.toString(),
@@ -140,13 +150,18 @@ export class AcrossService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch price from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.PRICE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
         `Failed to fetch Across price, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
-  public async fetchQuote(params: IntentQuoteParams): Promise<QuoteResponse> {
+  public async fetchQuote(
+    params: IntentQuoteParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<QuoteResponse> {
+    const logger = options?.logger ?? this.logger;
     try {
       await this.initializeAcrossClient();
 
@@ -158,16 +173,19 @@ export class AcrossService implements IIntentProtocol {
 
       const validatedParams = this.validateQuoteParams(params);
 
-      const quote = await this.acrossClient.getQuote({
-        route: {
-          originChainId: validatedParams.networkIn,
-          destinationChainId: validatedParams.networkOut,
-          inputToken: validatedParams.tokenIn as `0x${string}`,
-          outputToken: validatedParams.tokenOut as `0x${string}`,
-        },
-        recipient: validatedParams.receiver as `0x${string}`,
-        inputAmount: validatedParams.amountIn,
-      });
+      const quote = await raceAbort<AcrossQuote>(
+        this.acrossClient.getQuote({
+          route: {
+            originChainId: validatedParams.networkIn,
+            destinationChainId: validatedParams.networkOut,
+            inputToken: validatedParams.tokenIn as `0x${string}`,
+            outputToken: validatedParams.tokenOut as `0x${string}`,
+          },
+          recipient: validatedParams.receiver as `0x${string}`,
+          inputAmount: validatedParams.amountIn,
+        }),
+        options?.signal,
+      );
 
       const quoteTimestamp = Math.floor(Date.now() / 1000);
 
@@ -238,8 +256,54 @@ export class AcrossService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch quote from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.QUOTE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.QUOTE_NOT_FOUND),
         `Failed to fetch Across quote, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
+      );
+    }
+  }
+
+  /**
+   * Routes Across lists between the two chains, with the tokens they bridge
+   */
+  public async getRoutes(
+    query: RouteQuery,
+    options?: ProtocolRequestOptions,
+  ): Promise<ProtocolRoutes> {
+    const logger = options?.logger ?? this.logger;
+    try {
+      await this.initializeAcrossClient();
+
+      if (!this.acrossClient) {
+        throw new Error('Across client not initialized');
+      }
+
+      const routes = await raceAbort<AcrossRoute[]>(
+        this.acrossClient.getAvailableRoutes({
+          originChainId: query.networkIn,
+          destinationChainId: query.networkOut,
+        }),
+        options?.signal,
+      );
+
+      return {
+        supported: routes.length > 0,
+        tokensIn: Array.from(
+          new Set([
+            ...routes.map(route => route.inputToken),
+            // Native routes bridge the wrapped token listed as input
+            ...(routes.some(route => route.isNative) ? [NATIVE_ADDRESS] : []),
+          ]),
+        ),
+        tokensOut: Array.from(new Set(routes.map(route => route.outputToken))),
+      };
+    } catch (error) {
+      const { errorMessage, errorMessageError } = createErrorMessage(error);
+      logger.error(`Failed to fetch routes from ${this.protocol}`, errorMessageError);
+      throw sdkError(
+        getErrorCode(error, SdkErrorEnum.FAILED_HTTP_REQUEST),
+        `Failed to fetch Across routes, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -247,7 +311,7 @@ export class AcrossService implements IIntentProtocol {
   public isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
   }): config is T {
-    return 'acrossIntegratorId' in config;
+    return validateConfigSchema(this.protocol, ACROSS_CONFIG_SCHEMA, config).length === 0;
   }
 
   protected createDepositV3Calldata(params: DepositV3Params): string {
@@ -290,21 +354,21 @@ export class AcrossService implements IIntentProtocol {
     params: IntentPriceParams,
   ): IntentPriceParams & { tokenIn: string; tokenOut: string } {
     if (!this.chains.includes(params.networkIn as ChainIdEnum)) {
-      logger.error(`Unsupported origin network: ${params.networkIn}`);
+      this.logger.error(`Unsupported origin network: ${params.networkIn}`);
       throw sdkError(
         SdkErrorEnum.INVALID_PARAMS,
         `Unsupported origin network: ${params.networkIn}`,
       );
     }
     if (!this.chains.includes(params.networkOut as ChainIdEnum)) {
-      logger.error(`Unsupported destination network: ${params.networkOut}`);
+      this.logger.error(`Unsupported destination network: ${params.networkOut}`);
       throw sdkError(
         SdkErrorEnum.INVALID_PARAMS,
         `Unsupported destination network: ${params.networkOut}`,
       );
     }
     if (params.amountIn === '0') {
-      logger.error('Amount must be greater than 0');
+      this.logger.error('Amount must be greater than 0');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Amount must be greater than 0');
     }
 
@@ -319,7 +383,7 @@ export class AcrossService implements IIntentProtocol {
       tokenOut = NATIVE_ADDRESS;
     }
 
-    logger.debug('Price params validated successfully', {
+    this.logger.debug('Price params validated successfully', {
       networkIn: params.networkIn,
       networkOut: params.networkOut,
       tokenIn,
@@ -340,11 +404,11 @@ export class AcrossService implements IIntentProtocol {
     const validatedParams = this.validatePriceParams(params);
 
     if (!params.receiver) {
-      logger.error('Receiver address is required');
+      this.logger.error('Receiver address is required');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Receiver address is required');
     }
 
-    logger.debug('Quote params validated successfully', {
+    this.logger.debug('Quote params validated successfully', {
       from: params.from,
       receiver: params.receiver,
     });
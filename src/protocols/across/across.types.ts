@@ -18,6 +18,14 @@ export type DepositV3Params = {
   message?: string;
 };
 
+export type AcrossRoute = {
+  originChainId: number;
+  inputToken: string;
+  destinationChainId: number;
+  outputToken: string;
+  isNative: boolean;
+};
+
 export type AcrossQuoteResponse = {
   deposit: {
     inputAmount: bigint;
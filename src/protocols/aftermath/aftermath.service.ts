@@ -1,13 +1,18 @@
-import axios from 'axios';
 import { IIntentProtocol } from '../../interfaces/intent-protocol';
 import { ChainIdEnum, ProtocolEnum, SdkErrorEnum } from '../../types/enums';
 import { IntentPriceParams } from '../../types/price-params';
 import { PriceResponse, RawProtocolPriceResponse } from '../../types/price-response';
 import { IntentQuoteParams } from '../../types/quote-params';
+import { ProtocolRequestOptions } from '../../types/request-options';
 import { QuoteResponse } from '../../types/quote-response';
 import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
-import { ILogger, LoggerFactory, LogLevelEnum } from '../../utils/logger';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { validateConfigSchema } from '../../lib/config/config-validation';
+import { AFTERMATH_CONFIG_SCHEMA } from '../../lib/config/protocol-config-schemas';
 import { sdkError } from '../../utils/throw-error';
+import { IHttpClient } from '../../interfaces/http-client';
+import { createProtocolHttpClient } from '../../lib/http/protocol-http-client';
+import { getErrorCode } from '../../lib/retry/error-classification';
 import {
   AftermathConfig,
   AftermathPriceResponse,
@@ -17,9 +22,10 @@ import {
 import { SuiClient } from '@mysten/sui/client';
 import { createErrorMessage } from '../../utils/create-error-message';
 
-let logger: ILogger;
 export class AftermathService implements IIntentProtocol {
   public readonly protocol = ProtocolEnum.AFTERMATH;
+  protected readonly http: IHttpClient;
+  protected readonly logger: ILogger;
   public readonly chains = [ChainIdEnum.SUI];
   public readonly singleChain = true;
   public readonly multiChain = false;
@@ -29,14 +35,8 @@ export class AftermathService implements IIntentProtocol {
     isSponsoredTx: false,
   };
   constructor(config: GeniusIntentsSDKConfig & AftermathConfig) {
-    if (config.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    }
-    // Use custom logger if provided
-    else if (config.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-    logger = LoggerFactory.getLogger();
+    this.logger = LoggerFactory.fromConfig(config);
+    this.http = createProtocolHttpClient(this.protocol, config);
 
     this.suiClient = new SuiClient({ url: config.suiRpcUrl });
 
@@ -52,10 +52,14 @@ export class AftermathService implements IIntentProtocol {
   isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
   }): config is T {
-    return typeof config['suiRpcUrl'] === 'string' && config['suiRpcUrl'].length > 0;
+    return validateConfigSchema(this.protocol, AFTERMATH_CONFIG_SCHEMA, config).length === 0;
   }
 
-  public async fetchPrice(params: IntentPriceParams): Promise<PriceResponse> {
+  public async fetchPrice(
+    params: IntentPriceParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<PriceResponse> {
+    const logger = options?.logger ?? this.logger;
     if (params.networkIn !== ChainIdEnum.SUI || params.networkOut !== ChainIdEnum.SUI) {
       logger.error(`Aftermath only supports Sui network`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Aftermath only supports Sui network');
@@ -76,10 +80,14 @@ export class AftermathService implements IIntentProtocol {
         })}`,
       );
 
-      const response = await axios.post<AftermathPriceResponse>(`${this.baseUrl}/quote`, {
-        ...requestParams,
-        coinInAmount: requestParams.coinInAmount.toString(),
-      });
+      const response = await this.http.post<AftermathPriceResponse>(
+        `${this.baseUrl}/quote`,
+        {
+          ...requestParams,
+          coinInAmount: requestParams.coinInAmount.toString(),
+        },
+        { signal: options?.signal },
+      );
 
       const priceData = response.data;
 
@@ -112,13 +120,18 @@ export class AftermathService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch swap price from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.PRICE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
         `Failed to fetch Aftermath price, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
-  public async fetchQuote(params: IntentQuoteParams): Promise<QuoteResponse> {
+  public async fetchQuote(
+    params: IntentQuoteParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<QuoteResponse> {
+    const logger = options?.logger ?? this.logger;
     if (!this.suiClient) {
       throw sdkError(SdkErrorEnum.MISSING_RPC_URL, 'Sui client not initialized');
     }
@@ -127,7 +140,7 @@ export class AftermathService implements IIntentProtocol {
     let { priceResponse } = params;
 
     if (!priceResponse || !this.isAftermathPriceResponse(priceResponse.protocolResponse)) {
-      priceResponse = await this.fetchPrice(params);
+      priceResponse = await this.fetchPrice(params, options);
     }
 
     if (!this.isAftermathPriceResponse(priceResponse.protocolResponse)) {
@@ -148,9 +161,10 @@ export class AftermathService implements IIntentProtocol {
         ...this.quoteParamOverrides,
       };
 
-      const response = await axios.post<AftermathTransactionData>(
+      const response = await this.http.post<AftermathTransactionData>(
         `${this.baseUrl}/transaction`,
         swapParams,
+        { signal: options?.signal },
       );
 
       if (!response.data || !response.data.transactionBlock) {
@@ -172,6 +186,7 @@ export class AftermathService implements IIntentProtocol {
       try {
         const dryRunResult = await this.suiClient.dryRunTransactionBlock({
           transactionBlock: txBytes,
+          signal: options?.signal,
         });
 
         const computationCost = dryRunResult.effects.gasUsed.computationCost;
@@ -209,8 +224,9 @@ export class AftermathService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch quote from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.QUOTE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.QUOTE_NOT_FOUND),
         `Failed to fetch Aftermath quote, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
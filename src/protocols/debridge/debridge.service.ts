@@ -1,4 +1,3 @@
-import axios from 'axios';
 import { Connection, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
 
@@ -7,15 +6,24 @@ import {
   DeBridgeQuoteResponse,
   DeBridgePriceParams,
   DeBridgeQuoteParams,
+  DeBridgeSupportedChainsResponse,
 } from './debridge.types';
 import { IIntentProtocol } from '../../interfaces/intent-protocol';
 import { IntentPriceParams } from '../../types/price-params';
 import { PriceResponse, RawProtocolPriceResponse } from '../../types/price-response';
 import { IntentQuoteParams } from '../../types/quote-params';
+import { ProtocolRequestOptions } from '../../types/request-options';
+import { ProtocolRoutes, RouteQuery } from '../../types/routes';
+import { raceAbort } from '../../utils/abort';
 import { QuoteResponse } from '../../types/quote-response';
 import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
-import { ILogger, LoggerFactory, LogLevelEnum } from '../../utils/logger';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { validateConfigSchema } from '../../lib/config/config-validation';
+import { DEBRIDGE_CONFIG_SCHEMA } from '../../lib/config/protocol-config-schemas';
 import { sdkError } from '../../utils/throw-error';
+import { IHttpClient } from '../../interfaces/http-client';
+import { createProtocolHttpClient } from '../../lib/http/protocol-http-client';
+import { getErrorCode } from '../../lib/retry/error-classification';
 import { isEVMNetwork, isSolanaNetwork } from '../../utils/check-vm';
 import { createErrorMessage } from '../../utils/create-error-message';
 import { validateSolanaAddress } from '../../utils/address';
@@ -27,8 +35,7 @@ import {
 } from '../../types/quote-execution-payload';
 import { ChainIdEnum, ProtocolEnum, SdkErrorEnum } from '../../types/enums';
 import { isNative } from '../../utils/is-native';
-
-let logger: ILogger;
+import { isExactOut } from '../../utils/swap-mode';
 
 /**
  * The `DeBridgeService` class implements the IIntentProtocol interface for cross-chain
@@ -48,6 +55,8 @@ export class DeBridgeService implements IIntentProtocol {
    * The protocol identifier for DeBridge.
    */
   public readonly protocol = ProtocolEnum.DEBRIDGE;
+  protected readonly http: IHttpClient;
+  protected readonly logger: ILogger;
 
   /**
    * The list of blockchain networks supported by the DeBridge service.
@@ -75,11 +84,27 @@ export class DeBridgeService implements IIntentProtocol {
    */
   public readonly multiChain = true;
 
+  /**
+   * Indicates that orders can be created for a fixed output amount.
+   */
+  public readonly supportsExactOut = true;
+
+  /**
+   * Indicates that quotes pay out to the receiver address.
+   */
+  public readonly supportsReceiver = true;
+
   /**
    * The base URL for the DeBridge API.
    */
   public readonly baseUrl: string;
 
+  /**
+   * The DeBridge endpoint listing supported chains.
+   */
+  public readonly supportedChainsUrl: string =
+    'https://dln.debridge.finance/v1.0/supported-chains-info';
+
   /**
    * The chain ID used for Solana in the DeBridge protocol.
    */
@@ -103,14 +128,8 @@ export class DeBridgeService implements IIntentProtocol {
    * @throws {SdkError} If no RPC URLs are provided for the supported blockchains.
    */
   constructor(config?: GeniusIntentsSDKConfig & DeBridgeConfig) {
-    if (config?.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    }
-    // Use custom logger if provided
-    else if (config?.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-    logger = LoggerFactory.getLogger();
+    this.logger = LoggerFactory.fromConfig(config);
+    this.http = createProtocolHttpClient(this.protocol, config);
 
     // Apply configuration with defaults
     this.baseUrl =
@@ -122,14 +141,14 @@ export class DeBridgeService implements IIntentProtocol {
   isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
   }): config is T {
-    // Simple validation - can be extended based on specific requirements
-    return config && typeof config === 'object';
+    return validateConfigSchema(this.protocol, DEBRIDGE_CONFIG_SCHEMA, config).length === 0;
   }
 
   /**
    * Fetches a price quote for a cross-chain token swap from the DeBridge API.
    *
    * @param {IntentPriceParams} params - The parameters required for the price quote.
+   * @param {ProtocolRequestOptions} [options] - Optional request options, such as an abort signal.
    *
    * @returns {Promise<PriceResponse>} A promise that resolves to a `PriceResponse` object containing:
    * - The amount of output tokens expected from the swap.
@@ -138,14 +157,21 @@ export class DeBridgeService implements IIntentProtocol {
    * @throws {SdkError} If the parameters are invalid or unsupported.
    * @throws {SdkError} If there's an error fetching the price from DeBridge.
    */
-  public async fetchPrice(params: IntentPriceParams): Promise<PriceResponse> {
+  public async fetchPrice(
+    params: IntentPriceParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<PriceResponse> {
+    const logger = options?.logger ?? this.logger;
     try {
       this.validatePriceParams(params);
       const validatedParams = this.transformPriceParams(params);
-      const dlnQuote = await this.fetchDLNQuote({
-        ...validatedParams,
-        ...params.overrideParamsDebridge,
-      });
+      const dlnQuote = await this.fetchDLNQuote(
+        {
+          ...validatedParams,
+          ...params.overrideParamsDebridge,
+        },
+        options?.signal,
+      );
 
       logger.debug('Successfully received price info from DeBridge', {
         amountOut: dlnQuote.estimation.dstChainTokenOut.amount,
@@ -158,7 +184,7 @@ export class DeBridgeService implements IIntentProtocol {
         networkOut: params.networkOut,
         tokenIn: params.tokenIn,
         tokenOut: params.tokenOut,
-        amountIn: params.amountIn,
+        amountIn: isExactOut(params) ? dlnQuote.estimation.srcChainTokenIn.amount : params.amountIn,
         amountOut: dlnQuote.estimation.dstChainTokenOut.amount,
         estimatedGas: '0', // DeBridge doesn't provide gas estimates directly
         slippage: params.slippage,
@@ -169,8 +195,9 @@ export class DeBridgeService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch price from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.PRICE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
         `Failed to fetch DeBridge price, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -180,6 +207,7 @@ export class DeBridgeService implements IIntentProtocol {
    * needed to execute the cross-chain swap.
    *
    * @param {IntentQuoteParams} params - The parameters required for the swap quote.
+   * @param {ProtocolRequestOptions} [options] - Optional request options, such as an abort signal.
    *
    * @returns {Promise<QuoteResponse>} A promise that resolves to a `QuoteResponse` object containing:
    * - The expected amount of output tokens.
@@ -189,14 +217,21 @@ export class DeBridgeService implements IIntentProtocol {
    * @throws {SdkError} If the DeBridge API returns an invalid response.
    * @throws {SdkError} If there's an error fetching the quote.
    */
-  public async fetchQuote(params: IntentQuoteParams): Promise<QuoteResponse> {
+  public async fetchQuote(
+    params: IntentQuoteParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<QuoteResponse> {
+    const logger = options?.logger ?? this.logger;
     try {
       this.validateQuoteParams(params);
       const validatedParams = this.transformQuoteParams(params);
-      const dlnQuote = await this.fetchDLNQuote({
-        ...validatedParams,
-        ...params.overrideParamsDebridge,
-      });
+      const dlnQuote = await this.fetchDLNQuote(
+        {
+          ...validatedParams,
+          ...params.overrideParamsDebridge,
+        },
+        options?.signal,
+      );
 
       if (!dlnQuote.tx.data) {
         throw sdkError(SdkErrorEnum.QUOTE_NOT_FOUND, 'Invalid DLN quote: Missing transaction data');
@@ -225,7 +260,7 @@ export class DeBridgeService implements IIntentProtocol {
           };
 
       const solanaExecutionPayload: SvmQuoteExecutionPayload | undefined = isSourceSolana
-        ? [await this.formatSolanaTransaction(dlnQuote.tx.data)]
+        ? [await this.formatSolanaTransaction(dlnQuote.tx.data, options?.signal)]
         : undefined;
 
       const response: QuoteResponse = {
@@ -234,7 +269,7 @@ export class DeBridgeService implements IIntentProtocol {
         networkOut: params.networkOut,
         tokenIn: params.tokenIn,
         tokenOut: params.tokenOut,
-        amountIn: params.amountIn,
+        amountIn: isExactOut(params) ? dlnQuote.estimation.srcChainTokenIn.amount : params.amountIn,
         amountOut: dlnQuote.estimation.dstChainTokenOut.amount,
         slippage: params.slippage,
         from: params.from,
@@ -249,8 +284,48 @@ export class DeBridgeService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch quote from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.QUOTE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.QUOTE_NOT_FOUND),
         `Failed to fetch DeBridge quote, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
+      );
+    }
+  }
+
+  /**
+   * DeBridge lists supported chains but not tokens, a route is supported when both chains are
+   * listed.
+   *
+   * @param {RouteQuery} query - The chains of the route.
+   * @param {ProtocolRequestOptions} [options] - Optional request options, such as an abort signal.
+   *
+   * @returns {Promise<ProtocolRoutes>} Whether DeBridge currently serves the route.
+   *
+   * @throws {SdkError} If the supported chains cannot be fetched.
+   */
+  public async getRoutes(
+    query: RouteQuery,
+    options?: ProtocolRequestOptions,
+  ): Promise<ProtocolRoutes> {
+    const logger = options?.logger ?? this.logger;
+    try {
+      const response = await this.http.get<DeBridgeSupportedChainsResponse>(
+        this.supportedChainsUrl,
+        { signal: options?.signal },
+      );
+      const chainIds = response.data.chains.map(chain => chain.chainId);
+
+      return {
+        supported:
+          chainIds.includes(this.toDeBridgeChainId(query.networkIn)) &&
+          chainIds.includes(this.toDeBridgeChainId(query.networkOut)),
+      };
+    } catch (error) {
+      const { errorMessage, errorMessageError } = createErrorMessage(error);
+      logger.error(`Failed to fetch supported chains from ${this.protocol}`, errorMessageError);
+      throw sdkError(
+        getErrorCode(error, SdkErrorEnum.FAILED_HTTP_REQUEST),
+        `Failed to fetch DeBridge supported chains, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -262,9 +337,10 @@ export class DeBridgeService implements IIntentProtocol {
    * then serializes the transaction and encodes the result using base58.
    *
    * @param hex - The hexadecimal string to convert. May optionally start with '0x'.
+   * @param signal - Optional abort signal, stops waiting on the blockhash request when aborted.
    * @returns The base58-encoded string representation of the serialized transaction.
    */
-  public async formatSolanaTransaction(hex: string): Promise<string> {
+  public async formatSolanaTransaction(hex: string, signal?: AbortSignal): Promise<string> {
     const versionedTx = VersionedTransaction.deserialize(Buffer.from(hex.slice(2), 'hex'));
     /**
      * Add a recent blockhash to the transaction
@@ -276,7 +352,7 @@ export class DeBridgeService implements IIntentProtocol {
     }
 
     const connection = new Connection(this.solanaRpcUrl, 'confirmed');
-    const recentBlockhash = await connection.getLatestBlockhash('confirmed');
+    const recentBlockhash = await raceAbort(connection.getLatestBlockhash('confirmed'), signal);
     versionedTx.message.recentBlockhash = recentBlockhash.blockhash;
 
     const serializedTx = versionedTx.serialize();
@@ -289,13 +365,17 @@ export class DeBridgeService implements IIntentProtocol {
    *
    * @param {DeBridgePriceParams & { to?: string; authority?: { networkInAddress: string; networkOutAddress: string; }}} params -
    * The parameters for the quote request, including network IDs, token addresses, amounts, and authority addresses.
+   * @param {AbortSignal} [signal] - Optional abort signal for the HTTP request.
    *
    * @returns {Promise<DeBridgeQuoteResponse>} A promise that resolves to the quote response from DeBridge.
    *
    * @throws {SdkError} If there's an error with the HTTP request to the DeBridge API.
    * @throws {Error} If the DeBridge API returns an error message.
    */
-  protected async fetchDLNQuote(params: DeBridgePriceParams): Promise<DeBridgeQuoteResponse> {
+  protected async fetchDLNQuote(
+    params: DeBridgePriceParams,
+    signal?: AbortSignal,
+  ): Promise<DeBridgeQuoteResponse> {
     const isSourceSolana = isSolanaNetwork(params.networkIn);
     const isDestSolana = isSolanaNetwork(params.networkOut);
     const isSrcSonic = params.networkIn === ChainIdEnum.SONIC;
@@ -318,8 +398,8 @@ export class DeBridgeService implements IIntentProtocol {
       dstChainId: dstChainId.toString(),
       srcChainTokenIn: params.tokenIn,
       dstChainTokenOut: params.tokenOut,
-      srcChainTokenInAmount: params.amountIn,
-      dstChainTokenOutAmount: 'auto',
+      srcChainTokenInAmount: params.amountOut ? 'auto' : params.amountIn,
+      dstChainTokenOutAmount: params.amountOut ?? 'auto',
       dstChainTokenOutRecipient: params.to,
       srcChainOrderAuthorityAddress: params?.authority?.networkInAddress,
       dstChainOrderAuthorityAddress: params?.authority?.networkOutAddress,
@@ -333,7 +413,7 @@ export class DeBridgeService implements IIntentProtocol {
       accessToken: this.debridgeAccessToken ? this.debridgeAccessToken : undefined,
     };
 
-    logger.debug(`Making DeBridge quote request to: ${this.baseUrl}`, request);
+    this.logger.debug(`Making DeBridge quote request to: ${this.baseUrl}`, request);
 
     try {
       // Construct URL with access token if provided
@@ -345,22 +425,28 @@ export class DeBridgeService implements IIntentProtocol {
         headers['Authorization'] = `Bearer ${this.debridgeAccessToken}`;
       }
 
-      const response = await axios.get(url, {
+      const response = await this.http.get<DeBridgeQuoteResponse & { errorMessage?: string }>(url, {
         params: request,
         headers,
+        signal,
       });
 
       if (response.data?.errorMessage) {
-        throw new Error(response.data.errorMessage);
+        throw sdkError(
+          getErrorCode(response.data.errorMessage, SdkErrorEnum.QUOTE_NOT_FOUND),
+          `DLN API returned error: ${response.data.errorMessage}`,
+          { protocol: this.protocol },
+        );
       }
 
       return response.data;
     } catch (error: unknown) {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
-      logger.error(`Failed to fetch DLN quote`, errorMessageError);
+      this.logger.error(`Failed to fetch DLN quote`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.FAILED_HTTP_REQUEST,
+        getErrorCode(error, SdkErrorEnum.FAILED_HTTP_REQUEST),
         `Failed to fetch DLN quote, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -376,7 +462,7 @@ export class DeBridgeService implements IIntentProtocol {
     const { networkIn, networkOut, tokenIn, tokenOut, amountIn } = params;
 
     if (networkIn === networkOut) {
-      logger.error('Single chain swaps are not supported by DeBridge');
+      this.logger.error('Single chain swaps are not supported by DeBridge');
       throw sdkError(
         SdkErrorEnum.INVALID_PARAMS,
         'Single chain swaps are not supported by DeBridge',
@@ -384,20 +470,26 @@ export class DeBridgeService implements IIntentProtocol {
     }
 
     if (!this.chains.includes(networkIn)) {
-      logger.error(`Network ${networkIn} not supported by DeBridge`);
+      this.logger.error(`Network ${networkIn} not supported by DeBridge`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkIn} not supported by DeBridge`);
     }
 
     if (!this.chains.includes(networkOut)) {
-      logger.error(`Network ${networkOut} not supported by DeBridge`);
+      this.logger.error(`Network ${networkOut} not supported by DeBridge`);
       throw sdkError(
         SdkErrorEnum.INVALID_PARAMS,
         `Network ${networkOut} not supported by DeBridge`,
       );
     }
 
-    if (amountIn === '0') {
-      logger.error('Amount in must be greater than 0');
+    // Exact-out orders pass amountIn '0', the API works the input out from amountOut
+    if (isExactOut(params)) {
+      if (!(Number(params.amountOut) > 0)) {
+        this.logger.error('Amount out must be greater than 0');
+        throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Amount out must be greater than 0');
+      }
+    } else if (amountIn === '0') {
+      this.logger.error('Amount in must be greater than 0');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Amount in must be greater than 0');
     }
 
@@ -407,7 +499,7 @@ export class DeBridgeService implements IIntentProtocol {
         validateSolanaAddress(tokenIn);
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
       } catch (error: unknown) {
-        logger.error(`Invalid Solana token address: ${tokenIn}`);
+        this.logger.error(`Invalid Solana token address: ${tokenIn}`);
         throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Invalid Solana token address: ${tokenIn}`);
       }
     } else if (isEVMNetwork(networkIn) && !isNative(tokenIn)) {
@@ -415,7 +507,7 @@ export class DeBridgeService implements IIntentProtocol {
         validateAndChecksumEvmAddress(tokenIn);
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
       } catch (error: unknown) {
-        logger.error(`Invalid EVM token address: ${tokenIn}`);
+        this.logger.error(`Invalid EVM token address: ${tokenIn}`);
         throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Invalid EVM token address: ${tokenIn}`);
       }
     }
@@ -425,7 +517,7 @@ export class DeBridgeService implements IIntentProtocol {
         validateSolanaAddress(tokenOut);
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
       } catch (error: unknown) {
-        logger.error(`Invalid Solana token address: ${tokenOut}`);
+        this.logger.error(`Invalid Solana token address: ${tokenOut}`);
         throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Invalid Solana token address: ${tokenOut}`);
       }
     } else if (isEVMNetwork(networkOut) && !isNative(tokenOut)) {
@@ -433,7 +525,7 @@ export class DeBridgeService implements IIntentProtocol {
         validateAndChecksumEvmAddress(tokenOut);
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
       } catch (error: unknown) {
-        logger.error(`Invalid EVM token address: ${tokenOut}`);
+        this.logger.error(`Invalid EVM token address: ${tokenOut}`);
         throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Invalid EVM token address: ${tokenOut}`);
       }
     }
@@ -450,12 +542,12 @@ export class DeBridgeService implements IIntentProtocol {
     this.validatePriceParams(params);
 
     if (!params.receiver) {
-      logger.error('To address is required for quote');
+      this.logger.error('To address is required for quote');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Receiver address is required for quote');
     }
 
     if (!params.from) {
-      logger.error('From address is required for quote');
+      this.logger.error('From address is required for quote');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'From address is required for quote');
     }
   }
@@ -502,6 +594,7 @@ export class DeBridgeService implements IIntentProtocol {
       tokenIn,
       tokenOut,
       amountIn,
+      ...(isExactOut(params) && { amountOut: params.amountOut }),
       slippage,
       from,
     };
@@ -535,6 +628,20 @@ export class DeBridgeService implements IIntentProtocol {
     };
   }
 
+  /**
+   * Maps a chain ID to the one DeBridge uses for it.
+   *
+   * @param {number} chainId - The SDK chain ID.
+   *
+   * @returns {number} The DeBridge chain ID.
+   */
+  protected toDeBridgeChainId(chainId: number): number {
+    if (chainId === ChainIdEnum.SONIC) {
+      return this.sonicChainIdEnum;
+    }
+    return isSolanaNetwork(chainId) ? this.solanaChainIdEnum : chainId;
+  }
+
   protected isDeBridgePriceResponse(
     response: RawProtocolPriceResponse,
   ): response is DeBridgeQuoteResponse {
@@ -13,6 +13,8 @@ export type DeBridgePriceParams = {
   tokenIn: string;
   tokenOut: string;
   amountIn: string;
+  // Exact-out: the order delivers this amount and DeBridge computes amountIn
+  amountOut?: string;
   slippage: number;
   from: string;
   to?: string;
@@ -104,3 +106,11 @@ export type DeBridgeQuoteResponse = {
   userPoints: number;
   integratorPoints: number;
 };
+
+export type DeBridgeSupportedChainsResponse = {
+  chains: {
+    chainId: number;
+    originalChainId: number;
+    chainName: string;
+  }[];
+};
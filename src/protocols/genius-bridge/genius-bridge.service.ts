@@ -4,11 +4,16 @@ import { Erc20Approval } from '../../types/erc20-approval';
 import { IntentPriceParams } from '../../types/price-params';
 import { PriceResponse } from '../../types/price-response';
 import { IntentQuoteParams } from '../../types/quote-params';
+import { ProtocolRequestOptions } from '../../types/request-options';
+import { raceAbort } from '../../utils/abort';
 import { QuoteResponse } from '../../types/quote-response';
 import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
 import { isNative } from '../../utils/is-native';
-import { ILogger, LoggerFactory, LogLevelEnum } from '../../utils/logger';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { validateConfigSchema } from '../../lib/config/config-validation';
+import { GENIUS_BRIDGE_CONFIG_SCHEMA } from '../../lib/config/protocol-config-schemas';
 import { sdkError } from '../../utils/throw-error';
+import { getErrorCode } from '../../lib/retry/error-classification';
 import { isEVMNetwork, isSolanaNetwork } from '../../utils/check-vm';
 import { createErrorMessage } from '../../utils/create-error-message';
 import {
@@ -24,8 +29,6 @@ import {
   GeniusBridgeSdk,
 } from 'genius-bridge-sdk';
 
-let logger: ILogger;
-
 export class GeniusBridgeService implements IIntentProtocol {
   public readonly protocol = ProtocolEnum.GENIUS_BRIDGE;
   public readonly chains = [
@@ -42,34 +45,37 @@ export class GeniusBridgeService implements IIntentProtocol {
   ];
   public readonly singleChain = false;
   public readonly multiChain = true;
+  public readonly supportsReceiver = true;
   protected geniusBridgeSdk: GeniusBridgeSdk;
 
+  protected readonly logger: ILogger;
+
   constructor(config?: GeniusIntentsSDKConfig & GeniusBridgeConfig) {
-    if (config?.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    }
-    // Use custom logger if provided
-    else if (config?.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-    logger = LoggerFactory.getLogger();
+    this.logger = LoggerFactory.fromConfig(config);
 
     this.geniusBridgeSdk = new GeniusBridgeSdk(config);
   }
 
-  isCorrectConfig<T extends { [key: string]: string }>(_config: {
+  isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
-  }): _config is T {
-    // GeniusBridge has no required config fields, all are optional
-    return true;
+  }): config is T {
+    return validateConfigSchema(this.protocol, GENIUS_BRIDGE_CONFIG_SCHEMA, config).length === 0;
   }
 
-  public async fetchPrice(params: IntentPriceParams): Promise<PriceResponse> {
+  public async fetchPrice(
+    params: IntentPriceParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<PriceResponse> {
+    const logger = options?.logger ?? this.logger;
     try {
       this.validatePriceParams(params);
       const transformedParams = this.transformPriceParams(params);
 
-      const response = await this.geniusBridgeSdk.fetchPrice(transformedParams);
+      // The bridge SDK does not accept a signal, stop waiting on it instead
+      const response = await raceAbort(
+        this.geniusBridgeSdk.fetchPrice(transformedParams),
+        options?.signal,
+      );
 
       logger.debug('Successfully received price info from GeniusBridge', {
         amountOut: response.amountOut,
@@ -94,18 +100,26 @@ export class GeniusBridgeService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch price from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.PRICE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
         `Failed to fetch GeniusBridge price, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
-  public async fetchQuote(params: IntentQuoteParams): Promise<QuoteResponse> {
+  public async fetchQuote(
+    params: IntentQuoteParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<QuoteResponse> {
+    const logger = options?.logger ?? this.logger;
     try {
       this.validateQuoteParams(params);
       const transformedParams = this.transformQuoteParams(params);
 
-      const response = await this.geniusBridgeSdk.fetchQuote(transformedParams);
+      const response = await raceAbort(
+        this.geniusBridgeSdk.fetchQuote(transformedParams),
+        options?.signal,
+      );
 
       const approval: Erc20Approval = {
         token: response.tokenIn,
@@ -168,8 +182,9 @@ export class GeniusBridgeService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch quote from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.QUOTE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.QUOTE_NOT_FOUND),
         `Failed to fetch GeniusBridge quote, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -178,7 +193,7 @@ export class GeniusBridgeService implements IIntentProtocol {
     const { networkIn, networkOut, tokenIn, tokenOut, amountIn } = params;
 
     if (networkIn === networkOut) {
-      logger.error('Single chain swaps are not supported by GeniusBridge');
+      this.logger.error('Single chain swaps are not supported by GeniusBridge');
       throw sdkError(
         SdkErrorEnum.INVALID_PARAMS,
         'Single chain swaps are not supported by GeniusBridge',
@@ -186,7 +201,7 @@ export class GeniusBridgeService implements IIntentProtocol {
     }
 
     if (!this.chains.includes(networkIn)) {
-      logger.error(`Network ${networkIn} not supported by GeniusBridge`);
+      this.logger.error(`Network ${networkIn} not supported by GeniusBridge`);
       throw sdkError(
         SdkErrorEnum.INVALID_PARAMS,
         `Network ${networkIn} not supported by GeniusBridge`,
@@ -194,7 +209,7 @@ export class GeniusBridgeService implements IIntentProtocol {
     }
 
     if (!this.chains.includes(networkOut)) {
-      logger.error(`Network ${networkOut} not supported by GeniusBridge`);
+      this.logger.error(`Network ${networkOut} not supported by GeniusBridge`);
       throw sdkError(
         SdkErrorEnum.INVALID_PARAMS,
         `Network ${networkOut} not supported by GeniusBridge`,
@@ -202,7 +217,7 @@ export class GeniusBridgeService implements IIntentProtocol {
     }
 
     if (amountIn === '0') {
-      logger.error('Amount in must be greater than 0');
+      this.logger.error('Amount in must be greater than 0');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Amount in must be greater than 0');
     }
 
@@ -212,7 +227,7 @@ export class GeniusBridgeService implements IIntentProtocol {
         validateSolanaAddress(tokenIn);
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
       } catch (error: unknown) {
-        logger.error(`Invalid Solana token address: ${tokenIn}`);
+        this.logger.error(`Invalid Solana token address: ${tokenIn}`);
         throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Invalid Solana token address: ${tokenIn}`);
       }
     } else if (isEVMNetwork(networkIn) && !isNative(tokenIn)) {
@@ -220,7 +235,7 @@ export class GeniusBridgeService implements IIntentProtocol {
         validateAndChecksumEvmAddress(tokenIn);
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
       } catch (error: unknown) {
-        logger.error(`Invalid EVM token address: ${tokenIn}`);
+        this.logger.error(`Invalid EVM token address: ${tokenIn}`);
         throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Invalid EVM token address: ${tokenIn}`);
       }
     }
@@ -230,7 +245,7 @@ export class GeniusBridgeService implements IIntentProtocol {
         validateSolanaAddress(tokenOut);
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
       } catch (error: unknown) {
-        logger.error(`Invalid Solana token address: ${tokenOut}`);
+        this.logger.error(`Invalid Solana token address: ${tokenOut}`);
         throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Invalid Solana token address: ${tokenOut}`);
       }
     } else if (isEVMNetwork(networkOut) && !isNative(tokenOut)) {
@@ -238,7 +253,7 @@ export class GeniusBridgeService implements IIntentProtocol {
         validateAndChecksumEvmAddress(tokenOut);
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
       } catch (error: unknown) {
-        logger.error(`Invalid EVM token address: ${tokenOut}`);
+        this.logger.error(`Invalid EVM token address: ${tokenOut}`);
         throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Invalid EVM token address: ${tokenOut}`);
       }
     }
@@ -248,7 +263,7 @@ export class GeniusBridgeService implements IIntentProtocol {
     this.validatePriceParams(params);
 
     if (!params.from) {
-      logger.error('From address is required for quote');
+      this.logger.error('From address is required for quote');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'From address is required for quote');
     }
 
@@ -259,7 +274,7 @@ export class GeniusBridgeService implements IIntentProtocol {
           validateSolanaAddress(params.receiver);
           // eslint-disable-next-line @typescript-eslint/no-unused-vars
         } catch (error: unknown) {
-          logger.error(`Invalid Solana receiver address: ${params.receiver}`);
+          this.logger.error(`Invalid Solana receiver address: ${params.receiver}`);
           throw sdkError(
             SdkErrorEnum.INVALID_PARAMS,
             `Invalid Solana receiver address: ${params.receiver}`,
@@ -270,7 +285,7 @@ export class GeniusBridgeService implements IIntentProtocol {
           validateAndChecksumEvmAddress(params.receiver);
           // eslint-disable-next-line @typescript-eslint/no-unused-vars
         } catch (error: unknown) {
-          logger.error(`Invalid EVM receiver address: ${params.receiver}`);
+          this.logger.error(`Invalid EVM receiver address: ${params.receiver}`);
           throw sdkError(
             SdkErrorEnum.INVALID_PARAMS,
             `Invalid EVM receiver address: ${params.receiver}`,
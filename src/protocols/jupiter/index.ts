@@ -6,6 +6,8 @@ export type {
   JupiterSwapRoutePlanSwapInfo,
   JupiterSwapRoutePlan,
   JupiterPriceResponse,
+  JupiterTokenPrice,
+  JupiterBatchPriceResponse,
   ComputeBudgetInstruction,
   SetupInstruction,
   Instructions,
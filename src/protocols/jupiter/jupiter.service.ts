@@ -1,17 +1,24 @@
-import axios from 'axios';
 import bs58 from 'bs58';
 import { IIntentProtocol } from '../../interfaces/intent-protocol';
 import { ChainIdEnum, ProtocolEnum, SdkErrorEnum } from '../../types/enums';
 import { IntentPriceParams } from '../../types/price-params';
 import { PriceResponse, RawProtocolPriceResponse } from '../../types/price-response';
 import { IntentQuoteParams } from '../../types/quote-params';
+import { ProtocolRequestOptions } from '../../types/request-options';
+import { ProtocolRoutes, RouteQuery } from '../../types/routes';
 import { QuoteResponse } from '../../types/quote-response';
 import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
 import { NATIVE_SOL, WRAPPED_SOL } from '../../utils/constants';
-import { ILogger, LoggerFactory, LogLevelEnum } from '../../utils/logger';
+import { isExactOut } from '../../utils/swap-mode';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { validateConfigSchema } from '../../lib/config/config-validation';
+import { JUPITER_CONFIG_SCHEMA } from '../../lib/config/protocol-config-schemas';
 import { sdkError } from '../../utils/throw-error';
-import { AxiosError } from 'axios';
+import { IHttpClient } from '../../interfaces/http-client';
+import { createProtocolHttpClient } from '../../lib/http/protocol-http-client';
+import { getErrorCode } from '../../lib/retry/error-classification';
 import {
+  JupiterBatchPriceResponse,
   JupiterConfig,
   JupiterPriceResponse,
   JupiterPriceUrlParams,
@@ -20,47 +27,52 @@ import {
 import { VersionedTransaction } from '@solana/web3.js';
 import { createErrorMessage } from '../../utils/create-error-message';
 
-let logger: ILogger;
-
 export class JupiterService implements IIntentProtocol {
   public readonly protocol = ProtocolEnum.JUPITER;
+  protected readonly http: IHttpClient;
+  protected readonly logger: ILogger;
   public readonly chains = [ChainIdEnum.SOLANA];
   public readonly singleChain = true;
   public readonly multiChain = false;
+  public readonly supportsExactOut = true;
 
   public readonly priceEndpoint: string = '/quote';
   public readonly quoteEndpoint: string = '/swap-instructions';
   public readonly assemblyEndpoint: string = '/swap';
+  public readonly tokensEndpoint: string = '/tokens';
+  public readonly batchPriceUrl: string = 'https://lite-api.jup.ag/price/v3';
+  public readonly batchPriceMaxIds: number = 50;
+  public readonly tokensTtlMs: number = 5 * 60 * 1000;
 
   public baseUrl: string;
 
+  private _tradableTokens?: { tokens: string[]; expiresAt: number };
+
   constructor(config?: GeniusIntentsSDKConfig & JupiterConfig) {
-    if (config?.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    }
-    // Use custom logger if provided
-    else if (config?.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-    logger = LoggerFactory.getLogger();
+    this.logger = LoggerFactory.fromConfig(config);
+    this.http = createProtocolHttpClient(this.protocol, config);
 
     // Jupiter API endpoint
     this.baseUrl = config?.jupiterPrivateUrl || 'https://quote-api.jup.ag/v6';
   }
 
-  isCorrectConfig<T extends { [key: string]: string }>(_config: {
+  isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
-  }): _config is T {
-    // Jupiter has no required config fields, all are optional
-    return true;
+  }): config is T {
+    return validateConfigSchema(this.protocol, JUPITER_CONFIG_SCHEMA, config).length === 0;
   }
 
-  public async fetchPrice(params: IntentPriceParams): Promise<PriceResponse> {
+  public async fetchPrice(
+    params: IntentPriceParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<PriceResponse> {
+    const logger = options?.logger ?? this.logger;
     if (params.networkIn !== ChainIdEnum.SOLANA || params.networkOut !== ChainIdEnum.SOLANA) {
       logger.error(`Jupiter only supports Solana network`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Jupiter only supports Solana network');
     }
 
+    const exactOut = isExactOut(params);
     try {
       const requestParams = {
         ...this.priceParamsToRequestParams({
@@ -70,6 +82,8 @@ export class JupiterService implements IIntentProtocol {
           slippage: params.slippage,
           from: params.from,
         }),
+        // In ExactOut mode `amount` is the output amount
+        ...(exactOut && { amount: parseInt(params.amountOut!), swapMode: 'ExactOut' as const }),
         ...(params.overrideParamsJupiter ? params.overrideParamsJupiter : {}),
       };
 
@@ -81,7 +95,9 @@ export class JupiterService implements IIntentProtocol {
       // Log the full quote (swap) URL and body
       logger.debug(`Jupiter Price URL: ${priceUrl}`);
 
-      const response = await axios.get<JupiterPriceResponse | { error: unknown }>(priceUrl);
+      const response = await this.http.get<JupiterPriceResponse | { error: unknown }>(priceUrl, {
+        signal: options?.signal,
+      });
       logger.debug(`Jupiter API response: ${JSON.stringify(response.data, null, 2)}`);
 
       const priceData = response.data;
@@ -100,7 +116,7 @@ export class JupiterService implements IIntentProtocol {
         networkOut: params.networkOut,
         tokenIn: params.tokenIn,
         tokenOut: params.tokenOut,
-        amountIn: params.amountIn,
+        amountIn: exactOut ? priceData.inAmount : params.amountIn,
         amountOut: priceData.outAmount,
         slippage: params.slippage,
         priceImpact: parseFloat(priceData.priceImpactPct) * 100,
@@ -113,18 +129,23 @@ export class JupiterService implements IIntentProtocol {
       logger.error(`Failed to fetch swap price from ${this.protocol}`, errorMessageError);
       logger.error(`Failed to fetch Jupiter price`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.PRICE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
         `Failed to fetch Jupiter price, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
-  public async fetchQuote(params: IntentQuoteParams): Promise<QuoteResponse> {
+  public async fetchQuote(
+    params: IntentQuoteParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<QuoteResponse> {
+    const logger = options?.logger ?? this.logger;
     const { from, receiver } = params;
     let { priceResponse } = params;
 
     if (!priceResponse || !this.isJupiterPriceResponse(priceResponse.protocolResponse)) {
-      priceResponse = await this.fetchPrice(params);
+      priceResponse = await this.fetchPrice(params, options);
     }
 
     if (!this.isJupiterPriceResponse(priceResponse.protocolResponse)) {
@@ -149,9 +170,10 @@ export class JupiterService implements IIntentProtocol {
       logger.debug(`Jupiter Quote URL: ${quoteUrl}`);
       logger.debug(`Jupiter Quote Body: ${JSON.stringify(swapParams, null, 2)}`);
 
-      const swapTransactionResponse = await axios.post<JupiterTransactionData>(
+      const swapTransactionResponse = await this.http.post<JupiterTransactionData>(
         quoteUrl,
         swapParams,
+        { signal: options?.signal },
       );
 
       logger.debug(`Jupiter Quote Response: ${JSON.stringify(swapTransactionResponse.data)}`);
@@ -180,18 +202,139 @@ export class JupiterService implements IIntentProtocol {
       };
       return quoteResponse;
     } catch (error: unknown) {
-      const errorMessage =
-        error instanceof AxiosError
-          ? error?.response?.data?.error ||
-            error?.response?.data?.detail ||
-            error?.response?.data?.message
-          : error instanceof Error
-            ? error.message
-            : String(error);
-      logger.error(`Failed to fetch Jupiter quote`, errorMessage);
+      const { errorMessage, errorMessageError } = createErrorMessage(error);
+      logger.error(`Failed to fetch Jupiter quote`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.QUOTE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.QUOTE_NOT_FOUND),
         `Failed to fetch Jupiter quote, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
+      );
+    }
+  }
+
+  /**
+   * Indicative prices for many pairs from the Jupiter price API, derived from the USD price of
+   * both mints. The responses carry no route, `fetchQuote` prices them again.
+   */
+  public async fetchPrices(
+    paramsList: IntentPriceParams[],
+    options?: ProtocolRequestOptions,
+  ): Promise<(PriceResponse | Error)[]> {
+    const logger = options?.logger ?? this.logger;
+    const toMint = (token: string): string => (token === NATIVE_SOL ? WRAPPED_SOL : token);
+    const mints = Array.from(
+      new Set(paramsList.flatMap(params => [toMint(params.tokenIn), toMint(params.tokenOut)])),
+    );
+
+    const prices: JupiterBatchPriceResponse = {};
+    try {
+      for (let i = 0; i < mints.length; i += this.batchPriceMaxIds) {
+        const ids = mints.slice(i, i + this.batchPriceMaxIds).join(',');
+        const response = await this.http.get<JupiterBatchPriceResponse>(
+          `${this.batchPriceUrl}?ids=${ids}`,
+          { signal: options?.signal },
+        );
+        Object.assign(prices, response.data);
+      }
+    } catch (error) {
+      const { errorMessage, errorMessageError } = createErrorMessage(error);
+      logger.error(`Failed to fetch batch prices from ${this.protocol}`, errorMessageError);
+      throw sdkError(
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
+        `Failed to fetch Jupiter prices, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
+      );
+    }
+
+    return paramsList.map(params => {
+      const priceIn = prices[toMint(params.tokenIn)];
+      const priceOut = prices[toMint(params.tokenOut)];
+
+      if (params.networkIn !== ChainIdEnum.SOLANA || params.networkOut !== ChainIdEnum.SOLANA) {
+        return sdkError(SdkErrorEnum.INVALID_PARAMS, 'Jupiter only supports Solana network', {
+          protocol: this.protocol,
+        });
+      }
+      if (isExactOut(params)) {
+        return sdkError(SdkErrorEnum.INVALID_PARAMS, 'Jupiter batch prices are exact-in only', {
+          protocol: this.protocol,
+        });
+      }
+      if (!priceIn?.usdPrice || !priceOut?.usdPrice) {
+        return sdkError(
+          SdkErrorEnum.PRICE_NOT_FOUND,
+          `Jupiter has no price for ${priceIn?.usdPrice ? params.tokenOut : params.tokenIn}`,
+          { protocol: this.protocol },
+        );
+      }
+
+      // USD ratio scaled to 18 decimals so the amount math stays in bigint
+      const ratio = BigInt(Math.round((priceIn.usdPrice / priceOut.usdPrice) * 1e18));
+      const amountOut =
+        (BigInt(params.amountIn) * ratio * BigInt(10) ** BigInt(priceOut.decimals)) /
+        (BigInt(10) ** BigInt(18) * BigInt(10) ** BigInt(priceIn.decimals));
+
+      return {
+        protocol: ProtocolEnum.JUPITER,
+        networkIn: params.networkIn,
+        networkOut: params.networkOut,
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        amountIn: params.amountIn,
+        amountOut: amountOut.toString(),
+        slippage: params.slippage,
+        estimate: true,
+        protocolResponse: {
+          [toMint(params.tokenIn)]: priceIn,
+          [toMint(params.tokenOut)]: priceOut,
+        },
+      };
+    });
+  }
+
+  /**
+   * Jupiter swaps between any tradable mints, both token lists are the tradable mint list
+   */
+  public async getRoutes(
+    query: RouteQuery,
+    options?: ProtocolRequestOptions,
+  ): Promise<ProtocolRoutes> {
+    if (query.networkIn !== ChainIdEnum.SOLANA || query.networkOut !== ChainIdEnum.SOLANA) {
+      return { supported: false };
+    }
+
+    const tokens = await this.fetchTradableTokens(options);
+    return { supported: tokens.length > 0, tokensIn: tokens, tokensOut: tokens };
+  }
+
+  /**
+   * The tradable mint list is large, it is kept for `tokensTtlMs` between calls
+   */
+  protected async fetchTradableTokens(options?: ProtocolRequestOptions): Promise<string[]> {
+    if (this._tradableTokens && this._tradableTokens.expiresAt > Date.now()) {
+      return this._tradableTokens.tokens;
+    }
+
+    const logger = options?.logger ?? this.logger;
+    try {
+      const response = await this.http.get<string[]>(`${this.baseUrl}${this.tokensEndpoint}`, {
+        signal: options?.signal,
+      });
+
+      // Native SOL is swapped as wrapped SOL
+      const tokens = response.data.includes(WRAPPED_SOL)
+        ? [NATIVE_SOL, ...response.data]
+        : response.data;
+      this._tradableTokens = { tokens, expiresAt: Date.now() + this.tokensTtlMs };
+
+      return tokens;
+    } catch (error) {
+      const { errorMessage, errorMessageError } = createErrorMessage(error);
+      logger.error(`Failed to fetch tradable tokens from ${this.protocol}`, errorMessageError);
+      throw sdkError(
+        getErrorCode(error, SdkErrorEnum.FAILED_HTTP_REQUEST),
+        `Failed to fetch Jupiter tokens, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -39,6 +39,18 @@ export type JupiterPriceResponse = {
   timeTaken: number;
 };
 
+export type JupiterTokenPrice = {
+  usdPrice: number;
+  decimals: number;
+  blockId?: number;
+  priceChange24h?: number;
+};
+
+/**
+ * Price API response, keyed by mint. Mints without a price are left out.
+ */
+export type JupiterBatchPriceResponse = Record<string, JupiterTokenPrice>;
+
 export type ComputeBudgetInstruction = {
   programId: string;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
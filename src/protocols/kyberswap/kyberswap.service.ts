@@ -1,16 +1,21 @@
-import axios from 'axios';
 import { IIntentProtocol } from '../../interfaces/intent-protocol';
 import { ChainIdEnum, ProtocolEnum, SdkErrorEnum } from '../../types/enums';
 import { IntentPriceParams } from '../../types/price-params';
 import { PriceResponse, RawProtocolPriceResponse } from '../../types/price-response';
 import { IntentQuoteParams } from '../../types/quote-params';
+import { ProtocolRequestOptions } from '../../types/request-options';
 import { QuoteResponse } from '../../types/quote-response';
 import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
 import { formatAddress } from '../../utils/address';
-import { ILogger, LoggerFactory, LogLevelEnum } from '../../utils/logger';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { validateConfigSchema } from '../../lib/config/config-validation';
+import { KYBERSWAP_CONFIG_SCHEMA } from '../../lib/config/protocol-config-schemas';
 import { NATIVE_ADDRESS } from '../../utils/constants';
 import { isNative } from '../../utils/is-native';
 import { sdkError } from '../../utils/throw-error';
+import { IHttpClient } from '../../interfaces/http-client';
+import { createProtocolHttpClient } from '../../lib/http/protocol-http-client';
+import { getErrorCode } from '../../lib/retry/error-classification';
 import {
   KyberswapConfig,
   KyberswapPriceRequestBody,
@@ -21,9 +26,10 @@ import {
 import { createErrorMessage } from '../../utils/create-error-message';
 import { chainIdToName } from '../../utils/chain-id-name';
 
-let logger: ILogger;
 export class KyberswapService implements IIntentProtocol {
   public readonly protocol = ProtocolEnum.KYBERSWAP;
+  protected readonly http: IHttpClient;
+  protected readonly logger: ILogger;
   public readonly chains = [
     ChainIdEnum.ETHEREUM,
     ChainIdEnum.ARBITRUM,
@@ -36,6 +42,7 @@ export class KyberswapService implements IIntentProtocol {
   ];
   public readonly singleChain = true;
   public readonly multiChain = false;
+  public readonly supportsReceiver = true;
   public readonly priceEndpoint = '/api/v1/routes';
   public readonly quoteEndpoint = '/api/v1/route/build';
 
@@ -43,15 +50,8 @@ export class KyberswapService implements IIntentProtocol {
   public clientId: string;
 
   constructor(config: GeniusIntentsSDKConfig & KyberswapConfig) {
-    if (config?.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    }
-    // Use custom logger if provided
-    else if (config?.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-
-    logger = LoggerFactory.getLogger();
+    this.logger = LoggerFactory.fromConfig(config);
+    this.http = createProtocolHttpClient(this.protocol, config);
     this.baseUrl = config?.kyberswapPrivateUrl || 'https://aggregator-api.kyberswap.com';
     this.clientId = config.kyberswapClientId;
   }
@@ -59,14 +59,16 @@ export class KyberswapService implements IIntentProtocol {
   isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
   }): config is T {
-    return typeof config['clientId'] === 'string' && config['clientId'].length > 0;
+    return validateConfigSchema(this.protocol, KYBERSWAP_CONFIG_SCHEMA, config).length === 0;
   }
 
   public async fetchPrice(
     params: IntentPriceParams,
+    options?: ProtocolRequestOptions,
   ): Promise<
     Omit<PriceResponse, 'protocolResponse'> & { protocolResponse: KyberswapPriceResponse }
   > {
+    const logger = options?.logger ?? this.logger;
     this.validatePriceParams(params);
 
     const requestBody = this.priceParamsToRequestBody(params);
@@ -88,8 +90,9 @@ export class KyberswapService implements IIntentProtocol {
       const headers: Record<string, string> = {};
       headers['x-client-id'] = this.clientId;
 
-      const response = await axios.get<{ data: KyberswapPriceResponse }>(url.toString(), {
+      const response = await this.http.get<{ data: KyberswapPriceResponse }>(url.toString(), {
         headers,
+        signal: options?.signal,
       });
 
       const kyberswapPriceResponse = response.data.data;
@@ -134,15 +137,18 @@ export class KyberswapService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch swap price from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.PRICE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
         `Failed to fetch swap price from KyberSwap: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
   public async fetchQuote(
     params: IntentQuoteParams,
+    options?: ProtocolRequestOptions,
   ): Promise<QuoteResponse & { protocolResponse: KyberswapQuoteResponse }> {
+    const logger = options?.logger ?? this.logger;
     logger.info(`Fetching swap quote for address: ${params.from}`);
     params.tokenIn = isNative(params.tokenIn) ? NATIVE_ADDRESS : params.tokenIn;
     params.tokenOut = isNative(params.tokenOut) ? NATIVE_ADDRESS : params.tokenOut;
@@ -152,7 +158,7 @@ export class KyberswapService implements IIntentProtocol {
 
     if (!priceResponse || !this.isKyberswapPriceResponse(priceResponse.protocolResponse)) {
       logger.info('No price response received, fetching price...');
-      priceResponse = await this.fetchPrice(params);
+      priceResponse = await this.fetchPrice(params, options);
     }
 
     if (!this.isKyberswapPriceResponse(priceResponse.protocolResponse)) {
@@ -178,9 +184,14 @@ export class KyberswapService implements IIntentProtocol {
       logger.debug(`Making request to KyberSwap quote API: ${url}`);
       const headers: Record<string, string> = {};
       headers['x-client-id'] = this.clientId;
-      const response = await axios.post<{ data: KyberswapQuoteResponse }>(url, quoteRequestBody, {
-        headers,
-      });
+      const response = await this.http.post<{ data: KyberswapQuoteResponse }>(
+        url,
+        quoteRequestBody,
+        {
+          headers,
+          signal: options?.signal,
+        },
+      );
 
       const kyberswapQuoteResponse = response.data.data;
 
@@ -227,8 +238,9 @@ export class KyberswapService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch quote from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.QUOTE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.QUOTE_NOT_FOUND),
         `Failed to fetch swap quote from KyberSwap: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -236,7 +248,7 @@ export class KyberswapService implements IIntentProtocol {
   protected priceParamsToRequestBody(params: IntentPriceParams): KyberswapPriceRequestBody {
     const { tokenIn, tokenOut, amountIn, slippage, from } = params;
 
-    logger.debug('Converting price params to KyberSwap request body', { params });
+    this.logger.debug('Converting price params to KyberSwap request body', { params });
 
     const requestBody: KyberswapPriceRequestBody = {
       tokenIn: isNative(tokenIn) ? NATIVE_ADDRESS : tokenIn,
@@ -249,28 +261,28 @@ export class KyberswapService implements IIntentProtocol {
       source: this.clientId,
     };
 
-    logger.debug('Generated KyberSwap request body', requestBody);
+    this.logger.debug('Generated KyberSwap request body', requestBody);
     return requestBody;
   }
 
   protected validatePriceParams(params: IntentPriceParams): void {
     const { networkIn, networkOut } = params;
-    logger.debug('Validating price params');
+    this.logger.debug('Validating price params');
 
     if (!this.multiChain && networkIn !== networkOut) {
-      logger.error('Multi-chain swaps not supported');
+      this.logger.error('Multi-chain swaps not supported');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Multi-chain swaps not supported');
     }
     if (!this.singleChain && networkIn === networkOut) {
-      logger.error('Single-chain swaps not supported');
+      this.logger.error('Single-chain swaps not supported');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Single-chain swaps not supported');
     }
     if (!this.chains.includes(networkIn)) {
-      logger.error(`Network ${networkIn} not supported`);
+      this.logger.error(`Network ${networkIn} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkIn} not supported`);
     }
     if (!this.chains.includes(networkOut)) {
-      logger.error(`Network ${networkOut} not supported`);
+      this.logger.error(`Network ${networkOut} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkOut} not supported`);
     }
   }
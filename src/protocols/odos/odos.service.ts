@@ -1,4 +1,3 @@
-import axios from 'axios';
 import { IIntentProtocol } from '../../interfaces/intent-protocol';
 import { ChainIdEnum, ProtocolEnum, SdkErrorEnum } from '../../types/enums';
 import { IntentPriceParams } from '../../types/price-params';
@@ -6,7 +5,9 @@ import { PriceResponse, RawProtocolPriceResponse } from '../../types/price-respo
 import { QuoteResponse } from '../../types/quote-response';
 import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
 import { formatAddress } from '../../utils/address';
-import { ILogger, LoggerFactory, LogLevelEnum } from '../../utils/logger';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { validateConfigSchema } from '../../lib/config/config-validation';
+import { ODOS_CONFIG_SCHEMA } from '../../lib/config/protocol-config-schemas';
 import {
   OdosPriceResponse,
   OdosAssembleRequestBody,
@@ -16,13 +17,18 @@ import {
 import { ZERO_ADDRESS } from '../../utils/constants';
 import { isNative } from '../../utils/is-native';
 import { sdkError } from '../../utils/throw-error';
+import { IHttpClient } from '../../interfaces/http-client';
+import { createProtocolHttpClient } from '../../lib/http/protocol-http-client';
+import { getErrorCode } from '../../lib/retry/error-classification';
 import { IntentQuoteParams } from '../../types/quote-params';
+import { ProtocolRequestOptions } from '../../types/request-options';
 import { createErrorMessage } from '../../utils/create-error-message';
 
-let logger: ILogger;
 export class OdosService implements IIntentProtocol {
   protected readonly rpcUrls: Record<number, string> = {};
   public readonly protocol = ProtocolEnum.ODOS;
+  protected readonly http: IHttpClient;
+  protected readonly logger: ILogger;
   public includeApprovals?: boolean | undefined = false;
   public readonly chains = [
     ChainIdEnum.ETHEREUM,
@@ -37,6 +43,7 @@ export class OdosService implements IIntentProtocol {
   baseUrl = 'https://api.odos.xyz';
   public readonly singleChain = true;
   public readonly multiChain = false;
+  public readonly supportsReceiver = true;
   public readonly priceEndpoint = '/pricing/token';
   public readonly quoteEndpoint = '/sor/quote/v2';
   public readonly assemblyEndpoint = '/sor/assemble';
@@ -45,26 +52,21 @@ export class OdosService implements IIntentProtocol {
   public readonly assemblyBaseUrl = this.baseUrl + this.assemblyEndpoint;
 
   constructor(config?: GeniusIntentsSDKConfig) {
-    if (config?.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    }
-    // Use custom logger if provided
-    else if (config?.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-    logger = LoggerFactory.getLogger();
+    this.logger = LoggerFactory.fromConfig(config);
+    this.http = createProtocolHttpClient(this.protocol, config);
   }
 
-  isCorrectConfig<T extends { [key: string]: string }>(_config: {
+  isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
-  }): _config is T {
-    // Odos has no required config fields, all are optional
-    return true;
+  }): config is T {
+    return validateConfigSchema(this.protocol, ODOS_CONFIG_SCHEMA, config).length === 0;
   }
 
   public async fetchPrice(
     params: IntentPriceParams,
+    options?: ProtocolRequestOptions,
   ): Promise<Omit<PriceResponse, 'protocolResponse'> & { protocolResponse: OdosPriceResponse }> {
+    const logger = options?.logger ?? this.logger;
     this.validatePriceParams(params);
 
     const requestBody = this.priceParamsToRequestBody(params);
@@ -72,7 +74,9 @@ export class OdosService implements IIntentProtocol {
 
     try {
       logger.debug(`Making request to ODOS API: ${this.quoteBaseUrl}`);
-      const response = await axios.post<OdosPriceResponse>(this.quoteBaseUrl, requestBody);
+      const response = await this.http.post<OdosPriceResponse>(this.quoteBaseUrl, requestBody, {
+        signal: options?.signal,
+      });
       const odosPriceResponse: OdosPriceResponse = response.data;
 
       if (
@@ -112,15 +116,18 @@ export class OdosService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch swap price from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.PRICE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
         `Failed to fetch swap price from ODOS: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
   public async fetchQuote(
     params: IntentQuoteParams,
+    options?: ProtocolRequestOptions,
   ): Promise<QuoteResponse & { protocolResponse: OdosQuoteResponse }> {
+    const logger = options?.logger ?? this.logger;
     logger.info(`Fetching swap quote for address: ${params.from}`);
 
     this.validatePriceParams(params);
@@ -129,7 +136,7 @@ export class OdosService implements IIntentProtocol {
 
     if (!priceResponse || !this.isOdosPriceResponse(priceResponse.protocolResponse)) {
       logger.info('No price response received, fetching price...');
-      priceResponse = await this.fetchPrice(params);
+      priceResponse = await this.fetchPrice(params, options);
     }
 
     if (!this.isOdosPriceResponse(priceResponse.protocolResponse)) {
@@ -148,9 +155,10 @@ export class OdosService implements IIntentProtocol {
 
     try {
       logger.debug(`Making request to ODOS assembly API: ${this.assemblyBaseUrl}`);
-      const response = await axios.post<OdosQuoteResponse>(
+      const response = await this.http.post<OdosQuoteResponse>(
         this.assemblyBaseUrl,
         assembleRequestBody,
+        { signal: options?.signal },
       );
       const odosQuoteResponse: OdosQuoteResponse = response.data;
 
@@ -195,8 +203,9 @@ export class OdosService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch quote from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.QUOTE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.QUOTE_NOT_FOUND),
         `Failed to fetch swap quote from ODOS: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -204,7 +213,7 @@ export class OdosService implements IIntentProtocol {
   protected priceParamsToRequestBody(params: IntentPriceParams): OdosQuoteRequestBody {
     const { tokenIn, tokenOut, amountIn, slippage, networkIn, from } = params;
 
-    logger.debug('Converting price params to ODOS request body', { params });
+    this.logger.debug('Converting price params to ODOS request body', { params });
 
     const requestBody = {
       chainId: networkIn,
@@ -228,28 +237,28 @@ export class OdosService implements IIntentProtocol {
       simple: true,
     };
 
-    logger.debug('Generated ODOS request body', requestBody);
+    this.logger.debug('Generated ODOS request body', requestBody);
     return requestBody;
   }
 
   protected validatePriceParams(params: IntentPriceParams): void {
     const { networkIn, networkOut } = params;
-    logger.debug('Validating price params');
+    this.logger.debug('Validating price params');
 
     if (!this.multiChain && networkIn !== networkOut) {
-      logger.error('Multi-chain swaps not supported');
+      this.logger.error('Multi-chain swaps not supported');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Multi-chain swaps not supported');
     }
     if (!this.singleChain && networkIn === networkOut) {
-      logger.error('Single-chain swaps not supported');
+      this.logger.error('Single-chain swaps not supported');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Single-chain swaps not supported');
     }
     if (!this.chains.includes(networkIn)) {
-      logger.error(`Network ${networkIn} not supported`);
+      this.logger.error(`Network ${networkIn} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkIn} not supported`);
     }
     if (!this.chains.includes(networkOut)) {
-      logger.error(`Network ${networkOut} not supported`);
+      this.logger.error(`Network ${networkOut} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkOut} not supported`);
     }
   }
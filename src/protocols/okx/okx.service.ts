@@ -1,17 +1,22 @@
-import axios from 'axios';
 import * as crypto from 'crypto';
 import { IIntentProtocol } from '../../interfaces/intent-protocol';
 import { ChainIdEnum, ProtocolEnum, SdkErrorEnum } from '../../types/enums';
 import { IntentPriceParams } from '../../types/price-params';
 import { PriceResponse, RawProtocolPriceResponse } from '../../types/price-response';
 import { IntentQuoteParams } from '../../types/quote-params';
+import { ProtocolRequestOptions } from '../../types/request-options';
 import { QuoteResponse } from '../../types/quote-response';
 import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
 import { formatAddress } from '../../utils/address';
-import { ILogger, LoggerFactory, LogLevelEnum } from '../../utils/logger';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { validateConfigSchema } from '../../lib/config/config-validation';
+import { OKX_CONFIG_SCHEMA } from '../../lib/config/protocol-config-schemas';
 import { ZERO_ADDRESS } from '../../utils/constants';
 import { isNative } from '../../utils/is-native';
 import { sdkError } from '../../utils/throw-error';
+import { IHttpClient } from '../../interfaces/http-client';
+import { createProtocolHttpClient } from '../../lib/http/protocol-http-client';
+import { getErrorCode } from '../../lib/retry/error-classification';
 import {
   OKXConfig,
   OKXCredentials,
@@ -23,7 +28,6 @@ import {
 } from './okx.types';
 import { createErrorMessage } from '../../utils/create-error-message';
 
-let logger: ILogger;
 export class OkxService implements IIntentProtocol {
   protected readonly okxCredentials: OKXCredentials = {
     apiKey: '',
@@ -32,6 +36,8 @@ export class OkxService implements IIntentProtocol {
     projectId: '',
   };
   public readonly protocol = ProtocolEnum.OKX;
+  protected readonly http: IHttpClient;
+  protected readonly logger: ILogger;
   public readonly chains = [
     ChainIdEnum.ETHEREUM,
     ChainIdEnum.ARBITRUM,
@@ -43,6 +49,7 @@ export class OkxService implements IIntentProtocol {
   ];
   public readonly singleChain = true;
   public readonly multiChain = false;
+  public readonly supportsReceiver = true;
   public readonly baseUrl: string;
 
   public readonly priceEndpoint: string = '/api/v5/dex/aggregator/quote';
@@ -67,14 +74,8 @@ export class OkxService implements IIntentProtocol {
         'Missing OKX Secret Key || Apikey || Passphrase || ProjectId',
       );
     }
-    if (config?.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    }
-    // Use custom logger if provided
-    else if (config?.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-    logger = LoggerFactory.getLogger();
+    this.logger = LoggerFactory.fromConfig(config);
+    this.http = createProtocolHttpClient(this.protocol, config);
     this.baseUrl = config?.okxPrivateUrl || 'https://www.okx.com';
 
     this.okxCredentials = {
@@ -88,15 +89,14 @@ export class OkxService implements IIntentProtocol {
   isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
   }): config is T {
-    return (
-      !!config['okxApiKey'] &&
-      !!config['okxSecretKey'] &&
-      !!config['okxPassphrase'] &&
-      !!config['okxProjectId']
-    );
+    return validateConfigSchema(this.protocol, OKX_CONFIG_SCHEMA, config).length === 0;
   }
 
-  public async fetchPrice(params: IntentPriceParams): Promise<PriceResponse> {
+  public async fetchPrice(
+    params: IntentPriceParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<PriceResponse> {
+    const logger = options?.logger ?? this.logger;
     this.validatePriceParams(params);
 
     const requestBody = this.priceParamsToRequestBody(params);
@@ -119,7 +119,10 @@ export class OkxService implements IIntentProtocol {
       headers['OK-ACCESS-PASSPHRASE'] = this.okxCredentials.passphrase || '';
       headers['OK-ACCESS-PROJECT'] = this.okxCredentials.projectId || '';
 
-      const response = await axios.get<OkxPriceResponse>(url, { headers });
+      const response = await this.http.get<OkxPriceResponse>(url, {
+        headers,
+        signal: options?.signal,
+      });
 
       const okxPriceResponse = response.data;
 
@@ -161,15 +164,18 @@ export class OkxService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch swap price from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.PRICE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
         `Failed to fetch swap price from OKX: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
   public async fetchQuote(
     params: IntentQuoteParams,
+    options?: ProtocolRequestOptions,
   ): Promise<QuoteResponse & { protocolResponse: OkxQuoteResponse }> {
+    const logger = options?.logger ?? this.logger;
     logger.info(`Fetching swap quote for address: ${params.from}`);
     const validatedParams = this.validateQuoteParams(params);
     const { from, tokenIn, tokenOut, amountIn, networkIn, networkOut, slippage, receiver } =
@@ -206,7 +212,10 @@ export class OkxService implements IIntentProtocol {
       headers['OK-ACCESS-PASSPHRASE'] = this.okxCredentials.passphrase || '';
       headers['OK-ACCESS-PROJECT'] = this.okxCredentials.projectId || '';
 
-      const response = await axios.get<OkxQuoteResponse>(url, { headers });
+      const response = await this.http.get<OkxQuoteResponse>(url, {
+        headers,
+        signal: options?.signal,
+      });
 
       const okxQuoteResponse = response.data;
 
@@ -257,8 +266,9 @@ export class OkxService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch quote from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.QUOTE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.QUOTE_NOT_FOUND),
         `Failed to fetch swap quote from OKX: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -266,7 +276,7 @@ export class OkxService implements IIntentProtocol {
   protected priceParamsToRequestBody(params: IntentPriceParams): OkxPriceRequestBody {
     const { tokenIn, tokenOut, amountIn, networkIn } = params;
 
-    logger.debug('Converting price params to OKX request body', { params });
+    this.logger.debug('Converting price params to OKX request body', { params });
 
     const requestBody: OkxPriceRequestBody = {
       amount: amountIn.toString(),
@@ -275,7 +285,7 @@ export class OkxService implements IIntentProtocol {
       toTokenAddress: tokenOut,
     };
 
-    logger.debug('Generated OKX request body', requestBody);
+    this.logger.debug('Generated OKX request body', requestBody);
     return requestBody;
   }
 
@@ -312,31 +322,31 @@ export class OkxService implements IIntentProtocol {
 
   protected validatePriceParams(params: IntentPriceParams): IntentPriceParams {
     const { networkIn, networkOut } = params;
-    logger.debug('Validating price params');
+    this.logger.debug('Validating price params');
 
     if (!this.okxCredentials.apiKey) {
-      logger.error('API key not provided');
+      this.logger.error('API key not provided');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'OKX API key not provided');
     }
     if (!this.okxCredentials.secretKey) {
-      logger.error('Secret key not provided');
+      this.logger.error('Secret key not provided');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'OKX Secret key not provided');
     }
 
     if (!this.multiChain && networkIn !== networkOut) {
-      logger.error('Multi-chain swaps not supported');
+      this.logger.error('Multi-chain swaps not supported');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Multi-chain swaps not supported');
     }
     if (!this.singleChain && networkIn === networkOut) {
-      logger.error('Single-chain swaps not supported');
+      this.logger.error('Single-chain swaps not supported');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Single-chain swaps not supported');
     }
     if (!this.chains.includes(networkIn)) {
-      logger.error(`Network ${networkIn} not supported`);
+      this.logger.error(`Network ${networkIn} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkIn} not supported`);
     }
     if (!this.chains.includes(networkOut)) {
-      logger.error(`Network ${networkOut} not supported`);
+      this.logger.error(`Network ${networkOut} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkOut} not supported`);
     }
 
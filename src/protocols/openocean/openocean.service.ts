@@ -3,14 +3,19 @@ import { ChainIdEnum, ProtocolEnum, SdkErrorEnum } from '../../types/enums';
 import { IntentPriceParams } from '../../types/price-params';
 import { PriceResponse, RawProtocolPriceResponse } from '../../types/price-response';
 import { IntentQuoteParams } from '../../types/quote-params';
+import { ProtocolRequestOptions } from '../../types/request-options';
 import { QuoteResponse } from '../../types/quote-response';
 import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
-import { ILogger, LoggerFactory, LogLevelEnum } from '../../utils/logger';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { validateConfigSchema } from '../../lib/config/config-validation';
+import { OPENOCEAN_CONFIG_SCHEMA } from '../../lib/config/protocol-config-schemas';
 import { sdkError } from '../../utils/throw-error';
+import { IHttpClient } from '../../interfaces/http-client';
+import { createProtocolHttpClient } from '../../lib/http/protocol-http-client';
+import { getErrorCode } from '../../lib/retry/error-classification';
 import { isSolanaNetwork } from '../../utils/check-vm';
 import { OpenOceanConfig, OpenOceanPriceResponse, OpenOceanQuoteResponse } from './openocean.types';
 import { createErrorMessage } from '../../utils/create-error-message';
-import axios from 'axios';
 import bs58 from 'bs58';
 import { PublicKey, Transaction, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
 import {
@@ -19,9 +24,10 @@ import {
 } from '../../types/quote-execution-payload';
 import { NATIVE_SOL, WRAPPED_SOL } from '../../utils/constants';
 
-let logger: ILogger;
 export class OpenOceanService implements IIntentProtocol {
   public readonly protocol = ProtocolEnum.OPEN_OCEAN;
+  protected readonly http: IHttpClient;
+  protected readonly logger: ILogger;
   public readonly chains = [
     ChainIdEnum.ETHEREUM,
     ChainIdEnum.ARBITRUM,
@@ -46,14 +52,8 @@ export class OpenOceanService implements IIntentProtocol {
   protected readonly enabledDexIds?: string;
 
   constructor(config?: GeniusIntentsSDKConfig & OpenOceanConfig) {
-    if (config?.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    }
-    // Use custom logger if provided
-    else if (config?.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-    logger = LoggerFactory.getLogger();
+    this.logger = LoggerFactory.fromConfig(config);
+    this.http = createProtocolHttpClient(this.protocol, config);
 
     // Apply configuration with defaults
     this.baseUrl = config?.openOceanPrivateUrl || 'https://open-api.openocean.finance';
@@ -62,14 +62,17 @@ export class OpenOceanService implements IIntentProtocol {
     this.enabledDexIds = config?.openOceanEnabledDexIds;
   }
 
-  isCorrectConfig<T extends { [key: string]: string }>(_config: {
+  isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
-  }): _config is T {
-    // OpenOcean has no required config fields, all are optional
-    return true;
+  }): config is T {
+    return validateConfigSchema(this.protocol, OPENOCEAN_CONFIG_SCHEMA, config).length === 0;
   }
 
-  public async fetchPrice(params: IntentPriceParams): Promise<PriceResponse> {
+  public async fetchPrice(
+    params: IntentPriceParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<PriceResponse> {
+    const logger = options?.logger ?? this.logger;
     this.validatePriceParams(params);
     const queryNetwork = isSolanaNetwork(params.networkIn) ? 'solana' : params.networkIn;
     try {
@@ -91,8 +94,9 @@ export class OpenOceanService implements IIntentProtocol {
 
       logger.debug(`Making OpenOcean price request to: ${fullUrl}`);
 
-      const response = await axios.get<{ code: number; data: OpenOceanPriceResponse }>(
+      const response = await this.http.get<{ code: number; data: OpenOceanPriceResponse }>(
         fullUrl.toString(),
+        { signal: options?.signal },
       );
 
       if (response.data.code !== 200 || !response.data.data) {
@@ -126,13 +130,18 @@ export class OpenOceanService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch swap price from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.PRICE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
         `Failed to fetch OpenOcean price, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
-  public async fetchQuote(params: IntentQuoteParams): Promise<QuoteResponse> {
+  public async fetchQuote(
+    params: IntentQuoteParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<QuoteResponse> {
+    const logger = options?.logger ?? this.logger;
     this.validatePriceParams(params);
     const { from, receiver, tokenIn, amountIn, networkIn, networkOut, slippage, tokenOut } = params;
 
@@ -159,8 +168,9 @@ export class OpenOceanService implements IIntentProtocol {
       });
       logger.debug(`Making OpenOcean quote request to: ${fullUrl}`);
 
-      const response = await axios.get<{ code: number; data: OpenOceanQuoteResponse }>(
+      const response = await this.http.get<{ code: number; data: OpenOceanQuoteResponse }>(
         fullUrl.toString(),
+        { signal: options?.signal },
       );
 
       if (response.data.code !== 200 || !response.data.data) {
@@ -241,8 +251,9 @@ export class OpenOceanService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch quote from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.QUOTE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.QUOTE_NOT_FOUND),
         `Failed to fetch OpenOcean quote, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -251,15 +262,15 @@ export class OpenOceanService implements IIntentProtocol {
     const { networkIn, networkOut } = params;
 
     if (!this.multiChain && networkIn !== networkOut) {
-      logger.error('Multi-chain swaps not supported');
+      this.logger.error('Multi-chain swaps not supported');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Multi-chain swaps not supported');
     }
     if (!this.chains.includes(networkIn)) {
-      logger.error(`Network ${networkIn} not supported`);
+      this.logger.error(`Network ${networkIn} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkIn} not supported`);
     }
     if (!this.chains.includes(networkOut)) {
-      logger.error(`Network ${networkOut} not supported`);
+      this.logger.error(`Network ${networkOut} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkOut} not supported`);
     }
   }
@@ -12,37 +12,40 @@ import {
 } from './raydium-v2.types';
 import { NATIVE_SOL, WRAPPED_SOL } from '../../utils/constants';
 import { sdkError } from '../../utils/throw-error';
-import { ILogger, LoggerFactory, LogLevelEnum } from '../../utils/logger';
+import { IHttpClient } from '../../interfaces/http-client';
+import { createProtocolHttpClient } from '../../lib/http/protocol-http-client';
+import { getErrorCode } from '../../lib/retry/error-classification';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { validateConfigSchema } from '../../lib/config/config-validation';
+import { RAYDIUM_CONFIG_SCHEMA } from '../../lib/config/protocol-config-schemas';
 import { IntentQuoteParams } from '../../types/quote-params';
+import { ProtocolRequestOptions } from '../../types/request-options';
+import { raceAbort } from '../../utils/abort';
 import { QuoteResponse } from '../../types/quote-response';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
-import axios from 'axios';
 import { API_URLS, parseTokenAccountResp } from '@raydium-io/raydium-sdk-v2';
 import { convertBase64ToBase58 } from '../../utils/base64-to-base58';
 import { createErrorMessage } from '../../utils/create-error-message';
+import { isExactOut } from '../../utils/swap-mode';
 
-let logger: ILogger;
 export class RaydiumV2Service implements IIntentProtocol {
   public readonly protocol = ProtocolEnum.RAYDIUM_V2;
+  protected readonly http: IHttpClient;
+  protected readonly logger: ILogger;
   public readonly chains = [ChainIdEnum.SOLANA];
 
   public readonly singleChain: boolean = true;
   public readonly multiChain: boolean = false;
+  public readonly supportsExactOut: boolean = true;
 
   public readonly txVersion: string = 'V0';
 
   protected readonly connection: Connection | undefined;
 
   constructor(config: GeniusIntentsSDKConfig & RaydiumSdkConfig) {
-    if (config.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    }
-    // Use custom logger if provided
-    else if (config.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-    logger = LoggerFactory.getLogger();
+    this.logger = LoggerFactory.fromConfig(config);
+    this.http = createProtocolHttpClient(this.protocol, config);
 
     this.connection = new Connection(config.solanaRpcUrl, 'confirmed');
   }
@@ -50,14 +53,16 @@ export class RaydiumV2Service implements IIntentProtocol {
   isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
   }): config is T {
-    return typeof config['solanaRpcUrl'] === 'string' && config['solanaRpcUrl'].length > 0;
+    return validateConfigSchema(this.protocol, RAYDIUM_CONFIG_SCHEMA, config).length === 0;
   }
 
   public async fetchPrice(
     params: IntentPriceParams,
+    options?: ProtocolRequestOptions,
   ): Promise<
     Omit<PriceResponse, 'protocolResponse'> & { protocolResponse: RaydiumV2PriceResponse }
   > {
+    const logger = options?.logger ?? this.logger;
     this.validatePriceParams(params);
     const { tokenIn, tokenOut, amountIn, slippage } = params;
 
@@ -72,12 +77,16 @@ export class RaydiumV2Service implements IIntentProtocol {
         slippage,
       });
 
-      const priceResponse = await this.requestRaydiumV2Price({
-        tokenIn: inputMint,
-        tokenOut: outputMint,
-        amountIn: amountIn,
-        slippage,
-      });
+      const priceResponse = await this.requestRaydiumV2Price(
+        {
+          tokenIn: inputMint,
+          tokenOut: outputMint,
+          amountIn: amountIn,
+          ...(isExactOut(params) && { amountOut: params.amountOut }),
+          slippage,
+        },
+        options?.signal,
+      );
 
       const amountOut = priceResponse.data.outputAmount;
       const priceImpact = priceResponse.data.priceImpactPct;
@@ -93,7 +102,7 @@ export class RaydiumV2Service implements IIntentProtocol {
         networkOut: ChainIdEnum.SOLANA,
         tokenIn,
         tokenOut,
-        amountIn,
+        amountIn: isExactOut(params) ? priceResponse.data.inputAmount : amountIn,
         amountOut,
         slippage: params.slippage,
         protocolResponse: priceResponse,
@@ -103,13 +112,18 @@ export class RaydiumV2Service implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch Raydium V2 swap price`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.PRICE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
         `Failed to fetch Raydium V2 swap price, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
-  public async fetchQuote(params: IntentQuoteParams): Promise<QuoteResponse> {
+  public async fetchQuote(
+    params: IntentQuoteParams,
+    options?: ProtocolRequestOptions,
+  ): Promise<QuoteResponse> {
+    const logger = options?.logger ?? this.logger;
     this.validatePriceParams(params);
 
     if (!this.connection) {
@@ -123,7 +137,7 @@ export class RaydiumV2Service implements IIntentProtocol {
     try {
       if (!priceResponse || !this.isRaydiumPriceResponse(priceResponse.protocolResponse)) {
         logger.debug('No valid price response provided, fetching price first');
-        priceResponse = await this.fetchPrice(params);
+        priceResponse = await this.fetchPrice(params, options);
       }
 
       if (!this.isRaydiumPriceResponse(priceResponse.protocolResponse)) {
@@ -143,8 +157,12 @@ export class RaydiumV2Service implements IIntentProtocol {
       const outputTokenAddress = isOutputSol ? WRAPPED_SOL : tokenOut;
 
       logger.debug('Fetching token accounts and compute budget tiers');
-      const tokenAccountsPromise = this.fetchTokenAccountData(from, this.connection);
-      const computeBudgetTiersPromise = this.requestRaydiumFees();
+      const tokenAccountsPromise = this.fetchTokenAccountData(
+        from,
+        this.connection,
+        options?.signal,
+      );
+      const computeBudgetTiersPromise = this.requestRaydiumFees(options?.signal);
       const [tokenAccountsResp, computeBudgetTiers] = await Promise.all([
         tokenAccountsPromise,
         computeBudgetTiersPromise,
@@ -175,15 +193,18 @@ export class RaydiumV2Service implements IIntentProtocol {
         computeBudget: computeBudgetTiers.data.default.h,
       });
 
-      const raydiumQuoteResponse = await this.requestRaydiumV2Quote({
-        computeBudget: computeBudgetTiers.data.default.h,
-        priceResponse: priceResponse.protocolResponse,
-        from,
-        isInputSol,
-        isOutputSol,
-        inputAccount: inputTokenAcc ? inputTokenAcc.toBase58() : undefined,
-        outputAccount: outputTokenAcc ? outputTokenAcc.toBase58() : undefined,
-      });
+      const raydiumQuoteResponse = await this.requestRaydiumV2Quote(
+        {
+          computeBudget: computeBudgetTiers.data.default.h,
+          priceResponse: priceResponse.protocolResponse,
+          from,
+          isInputSol,
+          isOutputSol,
+          inputAccount: inputTokenAcc ? inputTokenAcc.toBase58() : undefined,
+          outputAccount: outputTokenAcc ? outputTokenAcc.toBase58() : undefined,
+        },
+        options?.signal,
+      );
 
       const data = raydiumQuoteResponse.data[0];
       if (!data) {
@@ -217,29 +238,31 @@ export class RaydiumV2Service implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch quote from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.QUOTE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.QUOTE_NOT_FOUND),
         `Failed to fetch Raydium V2 quote, error: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
   public async requestRaydiumV2Price(
     params: RaydiumApiPriceParams,
+    signal?: AbortSignal,
   ): Promise<RaydiumV2PriceResponse> {
-    const { tokenIn, tokenOut, amountIn, slippage } = params;
+    const { tokenIn, tokenOut, amountIn, amountOut, slippage } = params;
     const queryParams = new URLSearchParams({
       inputMint: tokenIn,
       outputMint: tokenOut,
-      amount: amountIn,
+      amount: amountOut ?? amountIn,
       slippageBps: (slippage * 100).toString(),
       txVersion: this.txVersion,
     });
 
-    const url = `${API_URLS.SWAP_HOST}/compute/swap-base-in?${queryParams}`;
-    logger.debug(`Making Raydium V2 price request to: ${url}`);
+    const url = `${API_URLS.SWAP_HOST}/compute/swap-base-${amountOut ? 'out' : 'in'}?${queryParams}`;
+    this.logger.debug(`Making Raydium V2 price request to: ${url}`);
 
     try {
-      const response = await axios.get<RaydiumV2PriceResponse>(url);
+      const response = await this.http.get<RaydiumV2PriceResponse>(url, { signal });
 
       if (response.status !== 200) {
         throw sdkError(SdkErrorEnum.FAILED_HTTP_REQUEST, `HTTP error! status: ${response.status}`);
@@ -248,20 +271,24 @@ export class RaydiumV2Service implements IIntentProtocol {
       return response.data;
     } catch (error) {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
-      logger.error('Failed to request Raydium V2 price', errorMessageError);
+      this.logger.error('Failed to request Raydium V2 price', errorMessageError);
       throw sdkError(
-        SdkErrorEnum.FAILED_HTTP_REQUEST,
+        getErrorCode(error, SdkErrorEnum.FAILED_HTTP_REQUEST),
         `Failed to request Raydium V2 price: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
   public async requestRaydiumV2Quote(
     params: RaydiumApiQuoteParams,
+    signal?: AbortSignal,
   ): Promise<RaydiumV2QuoteResponse> {
     const { priceResponse, from, isInputSol, isOutputSol, inputAccount, outputAccount } = params;
 
-    const url = `${API_URLS.SWAP_HOST}/transaction/swap-base-in`;
+    const url = `${API_URLS.SWAP_HOST}/transaction/swap-base-${
+      priceResponse.data.swapType === 'BaseOut' ? 'out' : 'in'
+    }`;
     const requestBody = {
       computeUnitPriceMicroLamports: '0',
       swapResponse: priceResponse,
@@ -273,13 +300,13 @@ export class RaydiumV2Service implements IIntentProtocol {
       outputAccount: outputAccount,
     };
 
-    logger.debug(`Making Raydium V2 quote request to: ${url}`, requestBody);
+    this.logger.debug(`Making Raydium V2 quote request to: ${url}`, requestBody);
 
     try {
-      const response = await axios.post<RaydiumV2QuoteResponse>(url, requestBody);
+      const response = await this.http.post<RaydiumV2QuoteResponse>(url, requestBody, { signal });
 
       if (response.status !== 200) {
-        logger.error(`Failed to fetch quote from Raydium: ${JSON.stringify(response.data)}`);
+        this.logger.error(`Failed to fetch quote from Raydium: ${JSON.stringify(response.data)}`);
         throw sdkError(
           SdkErrorEnum.FAILED_HTTP_REQUEST,
           `Failed to fetch quote from Raydium: ${JSON.stringify(response.data)}`,
@@ -289,33 +316,35 @@ export class RaydiumV2Service implements IIntentProtocol {
       return response.data;
     } catch (error) {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
-      logger.error('Failed to request Raydium V2 quote', errorMessageError);
+      this.logger.error('Failed to request Raydium V2 quote', errorMessageError);
       throw sdkError(
-        SdkErrorEnum.FAILED_HTTP_REQUEST,
+        getErrorCode(error, SdkErrorEnum.FAILED_HTTP_REQUEST),
         `Failed to request Raydium V2 quote: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
-  public async requestRaydiumFees(): Promise<RaydiumV2FeeData> {
+  public async requestRaydiumFees(signal?: AbortSignal): Promise<RaydiumV2FeeData> {
     const url = `${API_URLS.BASE_HOST}${API_URLS.PRIORITY_FEE}`;
-    logger.debug(`Making Raydium V2 fees request to: ${url}`);
+    this.logger.debug(`Making Raydium V2 fees request to: ${url}`);
 
     try {
-      const response = await axios.get<RaydiumV2FeeData>(url);
+      const response = await this.http.get<RaydiumV2FeeData>(url, { signal });
 
       if (response.status !== 200 || !response?.data?.success) {
-        logger.error(`Failed to fetch fees from Raydium: ${JSON.stringify(response.data)}`);
+        this.logger.error(`Failed to fetch fees from Raydium: ${JSON.stringify(response.data)}`);
         throw sdkError(SdkErrorEnum.FAILED_HTTP_REQUEST, `HTTP error! status: ${response.status}`);
       }
 
       return response.data;
     } catch (error) {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
-      logger.error('Failed to request Raydium fees', errorMessageError);
+      this.logger.error('Failed to request Raydium fees', errorMessageError);
       throw sdkError(
-        SdkErrorEnum.FAILED_HTTP_REQUEST,
+        getErrorCode(error, SdkErrorEnum.FAILED_HTTP_REQUEST),
         `Failed to request Raydium fees: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -323,9 +352,10 @@ export class RaydiumV2Service implements IIntentProtocol {
   protected async fetchTokenAccountData(
     owner: string,
     connection: Connection,
+    signal?: AbortSignal,
   ): Promise<RaydiumTokenAccountsResponse> {
     try {
-      logger.debug(`Fetching token account data for owner: ${owner}`);
+      this.logger.debug(`Fetching token account data for owner: ${owner}`);
       const ownerPublicKey = new PublicKey(owner);
 
       const solAccountRespPromise = connection.getAccountInfo(ownerPublicKey);
@@ -336,11 +366,11 @@ export class RaydiumV2Service implements IIntentProtocol {
         programId: TOKEN_2022_PROGRAM_ID,
       });
 
-      const [solAccountResp, tokenAccountResp, token2022Req] = await Promise.all([
-        solAccountRespPromise,
-        tokenAccountRespPromise,
-        token2022ReqPromise,
-      ]);
+      // The Solana connection cannot be aborted, stop waiting on it instead
+      const [solAccountResp, tokenAccountResp, token2022Req] = await raceAbort(
+        Promise.all([solAccountRespPromise, tokenAccountRespPromise, token2022ReqPromise]),
+        signal,
+      );
 
       const tokenAccountData = parseTokenAccountResp({
         owner: ownerPublicKey,
@@ -354,10 +384,11 @@ export class RaydiumV2Service implements IIntentProtocol {
       return tokenAccountData;
     } catch (error) {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
-      logger.error(`Failed to fetch token account data`, errorMessageError);
+      this.logger.error(`Failed to fetch token account data`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.FAILED_HTTP_REQUEST,
+        getErrorCode(error, SdkErrorEnum.FAILED_HTTP_REQUEST),
         `Failed to fetch token account data: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -366,15 +397,15 @@ export class RaydiumV2Service implements IIntentProtocol {
     const { networkIn, networkOut } = params;
 
     if (!this.multiChain && networkIn !== networkOut) {
-      logger.error('Multi-chain swaps not supported');
+      this.logger.error('Multi-chain swaps not supported');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Multi-chain swaps not supported');
     }
     if (!this.chains.includes(networkIn)) {
-      logger.error(`Network ${networkIn} not supported`);
+      this.logger.error(`Network ${networkIn} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkIn} not supported`);
     }
     if (!this.chains.includes(networkOut)) {
-      logger.error(`Network ${networkOut} not supported`);
+      this.logger.error(`Network ${networkOut} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkOut} not supported`);
     }
   }
@@ -8,6 +8,8 @@ export type RaydiumApiPriceParams = {
   tokenIn: string;
   tokenOut: string;
   amountIn: string;
+  // Swaps base-out when set, `amountIn` is then computed by Raydium
+  amountOut?: string;
   slippage: number;
 };
 
@@ -84,7 +86,7 @@ type RoutePlanItem = {
 };
 
 type SwapData = {
-  swapType: 'BaseIn';
+  swapType: 'BaseIn' | 'BaseOut';
   inputMint: string;
   inputAmount: string;
   outputMint: string;
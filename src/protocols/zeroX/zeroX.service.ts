@@ -1,23 +1,29 @@
-import axios from 'axios';
 import { IIntentProtocol } from '../../interfaces/intent-protocol';
 import { ChainIdEnum, ProtocolEnum, SdkErrorEnum } from '../../types/enums';
 import { IntentPriceParams } from '../../types/price-params';
 import { PriceResponse, RawProtocolPriceResponse } from '../../types/price-response';
 import { IntentQuoteParams } from '../../types/quote-params';
+import { ProtocolRequestOptions } from '../../types/request-options';
 import { QuoteResponse, RawProtocolQuoteResponse } from '../../types/quote-response';
 import { GeniusIntentsSDKConfig } from '../../types/sdk-config';
 import { formatAddress } from '../../utils/address';
-import { ILogger, LoggerFactory, LogLevelEnum } from '../../utils/logger';
+import { ILogger, LoggerFactory } from '../../utils/logger';
+import { validateConfigSchema } from '../../lib/config/config-validation';
+import { ZEROX_CONFIG_SCHEMA } from '../../lib/config/protocol-config-schemas';
 import { NATIVE_ADDRESS } from '../../utils/constants';
 import { isNative } from '../../utils/is-native';
+import { isExactOut } from '../../utils/swap-mode';
 import { sdkError } from '../../utils/throw-error';
+import { IHttpClient } from '../../interfaces/http-client';
+import { createProtocolHttpClient } from '../../lib/http/protocol-http-client';
+import { getErrorCode } from '../../lib/retry/error-classification';
 import { createErrorMessage } from '../../utils/create-error-message';
 import { ZeroXConfig, ZeroXPriceResponse, ZeroXQuoteResponse } from './zeroX.types';
 
-let logger: ILogger;
-
 export class ZeroXService implements IIntentProtocol {
   public readonly protocol = ProtocolEnum.ZEROX;
+  protected readonly http: IHttpClient;
+  protected readonly logger: ILogger;
   public readonly chains = [
     ChainIdEnum.ETHEREUM,
     ChainIdEnum.ARBITRUM,
@@ -29,22 +35,16 @@ export class ZeroXService implements IIntentProtocol {
   ];
   public readonly singleChain = true;
   public readonly multiChain = false;
+  public readonly supportsExactOut = true;
   baseUrl = 'https://api.0x.org/swap/allowance-holder/quote';
   public readonly apiKey: string;
 
   constructor(config?: GeniusIntentsSDKConfig & ZeroXConfig) {
-    if (config?.debug) {
-      LoggerFactory.configure(LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG }));
-    }
-    // Use custom logger if provided
-    else if (config?.logger) {
-      LoggerFactory.configure(config.logger);
-    }
-
-    logger = LoggerFactory.getLogger();
+    this.logger = LoggerFactory.fromConfig(config);
+    this.http = createProtocolHttpClient(this.protocol, config);
 
     if (!config?.zeroXApiKey) {
-      logger.error('API key is required for 0x service');
+      this.logger.error('API key is required for 0x service');
       throw sdkError(SdkErrorEnum.MISSING_INITIALIZATION, 'API key is required for 0x service');
     }
     this.apiKey = config.zeroXApiKey;
@@ -54,7 +54,7 @@ export class ZeroXService implements IIntentProtocol {
   isCorrectConfig<T extends { [key: string]: string }>(config: {
     [key: string]: string;
   }): config is T {
-    return typeof config['zeroXApiKey'] === 'string' && config['zeroXApiKey'].length > 0;
+    return validateConfigSchema(this.protocol, ZEROX_CONFIG_SCHEMA, config).length === 0;
   }
 
   /**
@@ -63,7 +63,9 @@ export class ZeroXService implements IIntentProtocol {
    */
   public async fetchPrice(
     params: IntentPriceParams,
+    options?: ProtocolRequestOptions,
   ): Promise<Omit<PriceResponse, 'protocolResponse'> & { protocolResponse: ZeroXPriceResponse }> {
+    const logger = options?.logger ?? this.logger;
     this.validatePriceParams(params);
     params.tokenIn = isNative(params.tokenIn) ? NATIVE_ADDRESS : params.tokenIn;
     logger.debug(`Fetching price from ${this.protocol}`, params);
@@ -78,13 +80,13 @@ export class ZeroXService implements IIntentProtocol {
       };
 
       // Fetch the quote which contains price information
-      const quoteResponse = await this.fetchQuote(quoteParams);
+      const quoteResponse = await this.fetchQuote(quoteParams, options);
 
       // Convert the quote response to a price response format
       const zeroXPriceResponse: ZeroXPriceResponse = {
         routeSummary: {
           tokenIn: params.tokenIn,
-          amountIn: params.amountIn,
+          amountIn: quoteResponse.amountIn,
           tokenOut: params.tokenOut,
           amountOut: quoteResponse.amountOut,
           gas: quoteResponse.estimatedGas || '0',
@@ -99,7 +101,7 @@ export class ZeroXService implements IIntentProtocol {
         networkOut: params.networkOut,
         tokenIn: params.tokenIn,
         tokenOut: params.tokenOut,
-        amountIn: params.amountIn,
+        amountIn: quoteResponse.amountIn,
         amountOut: quoteResponse.amountOut,
         estimatedGas: quoteResponse.estimatedGas,
         protocolResponse: zeroXPriceResponse,
@@ -109,15 +111,18 @@ export class ZeroXService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch swap price from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.PRICE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.PRICE_NOT_FOUND),
         `Failed to fetch swap price from 0x: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
 
   public async fetchQuote(
     params: IntentQuoteParams,
+    options?: ProtocolRequestOptions,
   ): Promise<QuoteResponse & { protocolResponse: ZeroXQuoteResponse }> {
+    const logger = options?.logger ?? this.logger;
     logger.info(`Fetching swap quote for address: ${params.from}`);
     params.tokenIn = isNative(params.tokenIn) ? NATIVE_ADDRESS : params.tokenIn;
     params.tokenOut = isNative(params.tokenOut) ? NATIVE_ADDRESS : params.tokenOut;
@@ -133,7 +138,7 @@ export class ZeroXService implements IIntentProtocol {
       const requestUrl = this.buildRequestUrl(params);
       logger.debug(`Making request to 0x API: ${requestUrl}`);
 
-      const response = await axios.get<ZeroXQuoteResponse>(requestUrl, {
+      const response = await this.http.get<ZeroXQuoteResponse>(requestUrl, {
         headers: {
           // eslint-disable-next-line @typescript-eslint/naming-convention
           'Content-Type': 'application/json',
@@ -142,6 +147,7 @@ export class ZeroXService implements IIntentProtocol {
           // eslint-disable-next-line @typescript-eslint/naming-convention
           '0x-version': 'v2',
         },
+        signal: options?.signal,
       });
 
       const zeroXQuoteResponse = response.data;
@@ -158,12 +164,14 @@ export class ZeroXService implements IIntentProtocol {
 
       const gasEstimate = zeroXQuoteResponse.transaction.gas;
       const gasLimit = Math.floor(Number(gasEstimate) * 1.1).toString(); // 10% buffer
+      // With buyAmount the input is what 0x asks to sell
+      const amountIn = isExactOut(params) ? zeroXQuoteResponse.sellAmount : params.amountIn;
 
       return {
         protocol: this.protocol,
         tokenIn: params.tokenIn,
         tokenOut: params.tokenOut,
-        amountIn: params.amountIn,
+        amountIn,
         amountOut: zeroXQuoteResponse.buyAmount,
         from: params.from,
         receiver: params.from,
@@ -171,13 +179,13 @@ export class ZeroXService implements IIntentProtocol {
           transactionData: {
             data: zeroXQuoteResponse.transaction.data,
             to: zeroXQuoteResponse.transaction.to,
-            value: isNative(params.tokenIn) ? params.amountIn : '0',
+            value: isNative(params.tokenIn) ? amountIn : '0',
             gasEstimate,
             gasLimit,
           },
           approval: {
             token: params.tokenIn,
-            amount: params.amountIn,
+            amount: amountIn,
             spender: zeroXQuoteResponse.transaction.to,
           },
         },
@@ -191,8 +199,9 @@ export class ZeroXService implements IIntentProtocol {
       const { errorMessage, errorMessageError } = createErrorMessage(error);
       logger.error(`Failed to fetch quote from ${this.protocol}`, errorMessageError);
       throw sdkError(
-        SdkErrorEnum.QUOTE_NOT_FOUND,
+        getErrorCode(error, SdkErrorEnum.QUOTE_NOT_FOUND),
         `Failed to fetch swap quote from 0x: ${errorMessage}`,
+        { protocol: this.protocol, cause: error },
       );
     }
   }
@@ -208,7 +217,11 @@ export class ZeroXService implements IIntentProtocol {
     url.searchParams.append('chainId', networkIn.toString());
     url.searchParams.append('sellToken', sellToken);
     url.searchParams.append('buyToken', buyToken);
-    url.searchParams.append('sellAmount', amountIn);
+    if (isExactOut(params)) {
+      url.searchParams.append('buyAmount', params.amountOut!);
+    } else {
+      url.searchParams.append('sellAmount', amountIn);
+    }
     url.searchParams.append('taker', formatAddress(from));
     url.searchParams.append('excludedSources', 'Ox_RFQ'); // Common exclusion
     url.searchParams.append('slippageBps', (slippage * 100).toString()); // Convert decimal to basis points
@@ -218,22 +231,22 @@ export class ZeroXService implements IIntentProtocol {
 
   protected validatePriceParams(params: IntentPriceParams): void {
     const { networkIn, networkOut } = params;
-    logger.debug('Validating price params');
+    this.logger.debug('Validating price params');
 
     if (!this.multiChain && networkIn !== networkOut) {
-      logger.error('Multi-chain swaps not supported');
+      this.logger.error('Multi-chain swaps not supported');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Multi-chain swaps not supported');
     }
     if (!this.singleChain && networkIn === networkOut) {
-      logger.error('Single-chain swaps not supported');
+      this.logger.error('Single-chain swaps not supported');
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, 'Single-chain swaps not supported');
     }
     if (!this.chains.includes(networkIn)) {
-      logger.error(`Network ${networkIn} not supported`);
+      this.logger.error(`Network ${networkIn} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkIn} not supported`);
     }
     if (!this.chains.includes(networkOut)) {
-      logger.error(`Network ${networkOut} not supported`);
+      this.logger.error(`Network ${networkOut} not supported`);
       throw sdkError(SdkErrorEnum.INVALID_PARAMS, `Network ${networkOut} not supported`);
     }
   }
@@ -0,0 +1,30 @@
+import { ProtocolId } from './protocol';
+import { ICacheStorage } from '../interfaces/cache-storage';
+
+export type CacheTtl = {
+  /**
+   * Milliseconds a price response may be served from cache, 0 disables price caching
+   */
+  price?: number;
+  /**
+   * Milliseconds a quote (including its execution payload) may be served from cache,
+   * 0 disables quote caching
+   */
+  quote?: number;
+};
+
+export type IntentsCacheConfig = CacheTtl & {
+  /**
+   * TTL overrides per protocol
+   */
+  protocols?: Partial<Record<ProtocolId, CacheTtl>>;
+  /**
+   * Maximum number of entries of the default in-memory storage
+   * @default 1000
+   */
+  maxEntries?: number;
+  /**
+   * Storage backend, defaults to an in-memory LRU
+   */
+  storage?: ICacheStorage;
+};
@@ -0,0 +1,82 @@
+import { CompositeStepTypeEnum } from './enums';
+import { ProtocolId } from './protocol';
+import { QuoteResponse } from './quote-response';
+import { IntentRequestOptions } from './request-options';
+
+/**
+ * Asset a composite route bridges, given by its address on both chains
+ */
+export type IntermediateAsset = {
+  symbol: string;
+  /**
+   * Address on the input network
+   */
+  tokenIn: string;
+  /**
+   * Address on the output network
+   */
+  tokenOut: string;
+};
+
+/**
+ * Per-call options of `GeniusIntents.fetchCompositeQuote`
+ */
+export type CompositeQuoteOptions = IntentRequestOptions & {
+  /**
+   * Assets to route through, each tried in its own route
+   * @default USDC and the native token, where known on both chains
+   */
+  intermediates?: IntermediateAsset[];
+};
+
+export type CompositeRouteStep = {
+  type: CompositeStepTypeEnum;
+  protocol: ProtocolId;
+  amountIn: string;
+  amountOut: string;
+  /**
+   * Output after slippage, the amountIn of the next step
+   */
+  minAmountOut: string;
+  /**
+   * Best quote of the step, with its execution payload
+   */
+  quote: QuoteResponse;
+};
+
+export type CompositeRoute = {
+  intermediate: IntermediateAsset;
+  /**
+   * Steps in execution order. The source or destination swap is left out when tokenIn or
+   * tokenOut already is the intermediate asset.
+   */
+  steps: CompositeRouteStep[];
+  amountIn: string;
+  /**
+   * Output of the last step
+   */
+  amountOut: string;
+  minAmountOut: string;
+  /**
+   * Slippage of every step compounded, as a percentage
+   */
+  slippage: number;
+};
+
+export type CompositeRouteFailure = {
+  intermediate: IntermediateAsset;
+  error: Error;
+};
+
+export type CompositeQuoteResult = {
+  /**
+   * Route delivering the highest amountOut
+   */
+  route: CompositeRoute;
+  /**
+   * Every route that could be quoted, best first
+   */
+  routes: CompositeRoute[];
+  failures: CompositeRouteFailure[];
+  totalDuration: number;
+};
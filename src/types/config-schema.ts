@@ -0,0 +1,56 @@
+import { ProtocolId } from './protocol';
+
+export type ConfigFieldType = 'string' | 'number' | 'boolean' | 'object' | 'url';
+
+export type ConfigFieldSchema = {
+  type: ConfigFieldType;
+  required?: boolean;
+  /**
+   * What the value is and where to get it, included in validation errors
+   */
+  description: string;
+  pattern?: RegExp;
+};
+
+/**
+ * Describes every key of a protocol config, so a missing key is a compile error
+ */
+export type ProtocolConfigSchema<T = Record<string, unknown>> = {
+  [K in keyof Required<T>]: ConfigFieldSchema;
+};
+
+export type ConfigIssue = {
+  protocol: ProtocolId;
+  key: string;
+  message: string;
+};
+
+export type ProtocolSkipReason = 'excluded' | 'not-included' | 'disabled' | 'invalid-config';
+
+export type ProtocolConfigStatus = {
+  protocol: ProtocolId;
+  /**
+   * True when the protocol will be loaded
+   */
+  enabled: boolean;
+  /**
+   * Why the protocol will not be loaded
+   */
+  reason?: ProtocolSkipReason;
+  issues: ConfigIssue[];
+  /**
+   * Added with `registerProtocol`, its config is not checked
+   */
+  registered?: boolean;
+};
+
+export type ConfigValidationReport = {
+  /**
+   * True when no protocol that passes includeProtocols/excludeProtocols is misconfigured
+   */
+  valid: boolean;
+  enabled: ProtocolId[];
+  skipped: ProtocolId[];
+  protocols: ProtocolConfigStatus[];
+  issues: ConfigIssue[];
+};
@@ -41,4 +41,36 @@ export enum SdkErrorEnum {
   QUOTE_NOT_FOUND = 'QUOTE_NOT_FOUND',
   MISSING_TRANSACTION_DATA = 'MISSING_TRANSACTION_DATA',
   MISSING_INITIALIZATION = 'MISSING_INITIALIZATION_PARAMS',
+  CIRCUIT_OPEN = 'CIRCUIT_OPEN',
+  INSUFFICIENT_LIQUIDITY = 'INSUFFICIENT_LIQUIDITY',
+  UNSUPPORTED_TOKEN = 'UNSUPPORTED_TOKEN',
+  RATE_LIMITED = 'RATE_LIMITED',
+  SLIPPAGE_TOO_LOW = 'SLIPPAGE_TOO_LOW',
+  AMOUNT_TOO_SMALL = 'AMOUNT_TOO_SMALL',
+  SIMULATION_FAILED = 'SIMULATION_FAILED',
+  REPLAY_MISMATCH = 'REPLAY_MISMATCH',
+  INVALID_CONFIG = 'INVALID_CONFIG',
+}
+
+export enum SwapModeEnum {
+  EXACT_IN = 'exactIn',
+  EXACT_OUT = 'exactOut',
+}
+
+export enum RequestPriorityEnum {
+  LOW = 0,
+  NORMAL = 1,
+  HIGH = 2,
+}
+
+export enum CircuitStateEnum {
+  CLOSED = 'CLOSED',
+  OPEN = 'OPEN',
+  HALF_OPEN = 'HALF_OPEN',
+}
+
+export enum CompositeStepTypeEnum {
+  SOURCE_SWAP = 'sourceSwap',
+  BRIDGE = 'bridge',
+  DESTINATION_SWAP = 'destinationSwap',
 }
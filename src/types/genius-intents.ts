@@ -1,6 +1,10 @@
+import { ProtocolId } from './protocol';
+import { ChainIdEnum, ProtocolEnum } from './enums';
 import { PriceResponse } from './price-response';
+import { IntentPriceParams } from './price-params';
 import { QuoteResponse } from './quote-response';
-import { ProtocolEnum } from './enums';
+import { IntentQuoteParams } from './quote-params';
+
 import { GeniusIntentsSDKConfig } from './sdk-config';
 import { OKXConfig } from '../protocols/okx/okx.types';
 import { JupiterConfig } from '../protocols/jupiter/jupiter.types';
@@ -13,6 +17,13 @@ import { AftermathConfig } from '../protocols/aftermath/aftermath.types';
 import { ZeroXConfig } from '../protocols/zeroX/zeroX.types';
 import { AcrossConfig } from '../protocols/across';
 import { EvmQuoteExecutionPayload, SvmQuoteExecutionPayload } from './quote-execution-payload';
+import { ScoreBreakdown, ScoringMode } from './scoring';
+import { RankedResult } from './ranking';
+import { IRankingStrategy } from '../interfaces/ranking-strategy';
+import { IntentsCacheConfig } from './cache';
+import { CircuitBreakerConfig } from './health';
+import { RetryConfig } from './retry';
+import { IIntentsMiddleware } from '../interfaces/intents-middleware';
 
 /**
  * Configuration interface for IntentsProtocols class
@@ -27,10 +38,59 @@ export type GeniusIntentsConfig = OptionalIntentsProtocolsConfig &
     method?: 'race' | 'best';
 
     /**
-     * Timeout in milliseconds for individual protocol requests
+     * How the 'best' method ranks responses
+     * - 'amountOut': highest raw output amount
+     * - 'netValue': highest output amount after subtracting swap and approval gas, converted
+     *   into tokenOut with `getNativeTokenRate`. Only applies to EVM input networks. Quote
+     *   allowances are read from `rpcs` to know which candidates need an approval.
+     * @default 'amountOut'
+     */
+    scoring?: ScoringMode;
+
+    /**
+     * Gas price in wei used by 'netValue' scoring. Defaults to the fee data of the network's rpc
+     */
+    getGasPrice?: (network: number) => Promise<string | bigint>;
+
+    /**
+     * Amount of tokenOut, in its smallest unit, worth one whole native token of `network`.
+     * Used by 'netValue' scoring to convert gas costs into output tokens; not needed when
+     * tokenOut is the native token of a same-chain swap.
+     */
+    getNativeTokenRate?: (
+      network: number,
+      tokenOut: string,
+      networkOut: number,
+    ) => Promise<string | bigint>;
+
+    /**
+     * Strategy used by the 'best' method to order successful results
+     * @default NetValueRankingStrategy when scoring is 'netValue', MaxOutputRankingStrategy otherwise
+     */
+    ranking?: IRankingStrategy;
+
+    /**
+     * Price every compatible protocol first and only request quotes from the K best ranked.
+     * Each of them gets its own price response as `priceResponse`, so protocols that build the
+     * quote from a price (Jupiter, Odos, Kyberswap, Aftermath, Raydium) skip pricing again.
+     * Values below 1 quote every compatible protocol. When no protocol can be priced a
+     * QUOTE_NOT_FOUND error is thrown with the price results in `details.priceResults`.
+     */
+    quoteTopK?: number;
+
+    /**
+     * Timeout in milliseconds for individual protocol requests, including the time they wait
+     * for a `maxConcurrency` slot
      */
     timeout?: number;
 
+    /**
+     * Config and overrides of each protocol. A protocol only receives its own section, next to
+     * the shared options and RPCs. Flat protocol keys (`okxApiKey`, ...) are still read and are
+     * overridden by the same key in the protocol's section.
+     */
+    protocols?: ProtocolsConfig;
+
     /**
      * RCPs to use for the protocols & approval checks
      */
@@ -42,7 +102,10 @@ export type GeniusIntentsConfig = OptionalIntentsProtocolsConfig &
     jitoRpc?: string;
 
     /**
-     * Maximum number of concurrent protocol requests
+     * Maximum number of protocol requests in flight at once, shared by every concurrent
+     * fetchPrice/fetchQuote call on the same instance. Extra requests are queued by priority.
+     * Values below 1 disable the limit.
+     * @default 10
      */
     maxConcurrency?: number;
 
@@ -83,15 +146,48 @@ export type GeniusIntentsConfig = OptionalIntentsProtocolsConfig &
       simulationError?: Error;
     }>;
 
+    /**
+     * Opt-in cache of protocol responses. Identical concurrent requests also share a single
+     * in-flight fetch while the cache is enabled.
+     */
+    cache?: IntentsCacheConfig;
+
+    /**
+     * Per-protocol circuit breaker. Protocols whose rolling error rate crosses the threshold are
+     * skipped, reported with a CIRCUIT_OPEN error, and probed again after `openDuration`.
+     * Pass false to only track health without skipping protocols.
+     */
+    circuitBreaker?: CircuitBreakerConfig | false;
+
+    /**
+     * Retry policy for protocol requests, with optional per-protocol overrides. Only retryable
+     * errors (timeouts, 429, 5xx, dropped connections) are retried, honouring `Retry-After`,
+     * and retries never extend past `timeout`. Disabled by default.
+     */
+    retry?: RetryConfig;
+
+    /**
+     * Hooks run around every protocol request, in order. Use `GeniusIntents.use` to add more
+     * after construction. Updating this option replaces every registered middleware.
+     */
+    middleware?: IIntentsMiddleware[];
+
+    /**
+     * Throw an INVALID_CONFIG error at construction when a protocol that passes
+     * includeProtocols/excludeProtocols is misconfigured, instead of skipping it with a warning.
+     * See `GeniusIntents.validateConfig` for the full report.
+     */
+    strictConfig?: boolean;
+
     /**
      * Specific protocols to include (if not specified, all compatible protocols will be used)
      */
-    includeProtocols?: ProtocolEnum[];
+    includeProtocols?: ProtocolId[];
 
     /**
      * Specific protocols to exclude
      */
-    excludeProtocols?: ProtocolEnum[];
+    excludeProtocols?: ProtocolId[];
   };
 
 export type OptionalIntentsProtocolsConfig = Partial<
@@ -107,24 +203,119 @@ export type OptionalIntentsProtocolsConfig = Partial<
     AcrossConfig
 >;
 
+/**
+ * Settings GeniusIntents applies to any protocol, built-in or registered
+ */
+export type ProtocolOverrides = {
+  /**
+   * false skips the protocol like excludeProtocols. true lifts the default exclusion of
+   * Genius Bridge, includeProtocols and excludeProtocols still apply.
+   */
+  enabled?: boolean;
+  /**
+   * Timeout in milliseconds of this protocol's requests, instead of `timeout`
+   */
+  timeout?: number;
+  /**
+   * Only use the protocol on these chains, chains it does not support are ignored
+   */
+  chains?: ChainIdEnum[];
+};
+
+export type ProtocolsConfig = {
+  [ProtocolEnum.ODOS]?: ProtocolOverrides;
+  [ProtocolEnum.JUPITER]?: ProtocolOverrides & Partial<JupiterConfig>;
+  [ProtocolEnum.RAYDIUM_V2]?: ProtocolOverrides & Partial<RaydiumSdkConfig>;
+  [ProtocolEnum.OPEN_OCEAN]?: ProtocolOverrides & Partial<OpenOceanConfig>;
+  [ProtocolEnum.OKX]?: ProtocolOverrides & Partial<OKXConfig>;
+  [ProtocolEnum.KYBERSWAP]?: ProtocolOverrides & Partial<KyberswapConfig>;
+  [ProtocolEnum.AFTERMATH]?: ProtocolOverrides & Partial<AftermathConfig>;
+  [ProtocolEnum.ZEROX]?: ProtocolOverrides & Partial<ZeroXConfig>;
+  [ProtocolEnum.DEBRIDGE]?: ProtocolOverrides & Partial<DeBridgeConfig>;
+  [ProtocolEnum.GENIUS_BRIDGE]?: ProtocolOverrides & Partial<GeniusBridgeConfig>;
+  [ProtocolEnum.ACROSS]?: ProtocolOverrides & Partial<AcrossConfig>;
+  // Protocols added with registerProtocol
+  [protocol: string]: (ProtocolOverrides & Record<string, unknown>) | undefined;
+};
+
+/**
+ * What `GeniusIntents.updateConfig` changed in the loaded protocols
+ */
+export type ConfigUpdateSummary = {
+  /**
+   * Rebuilt because a config key they are built from changed
+   */
+  reloaded: ProtocolId[];
+  /**
+   * Loaded because they are now enabled
+   */
+  added: ProtocolId[];
+  /**
+   * Dropped because they are now excluded or disabled
+   */
+  removed: ProtocolId[];
+  /**
+   * Could not be built with the new config and are no longer loaded
+   */
+  failed: ProtocolId[];
+};
+
 /**
  * Result interface for individual price requests
  */
 export type IntentPriceResult = {
-  protocol: ProtocolEnum;
+  protocol: ProtocolId;
   response?: PriceResponse;
   error?: Error;
+  /**
+   * Time in milliseconds spent executing the protocol request
+   */
   duration: number;
+  /**
+   * Time in milliseconds the request waited in the concurrency queue before executing
+   */
+  queueDuration: number;
+  /**
+   * Net value breakdown, set on successful results when 'netValue' scoring is used
+   */
+  score?: ScoreBreakdown;
+  /**
+   * True when the response was served from the cache
+   */
+  cached?: boolean;
+  /**
+   * Number of calls made to the protocol, 0 when served from cache or skipped
+   */
+  attempts?: number;
 };
 
 /**
  * Result interface for individual quote requests
  */
 export type IntentQuoteResult = {
-  protocol: ProtocolEnum;
+  protocol: ProtocolId;
   response?: QuoteResponse;
   error?: Error;
+  /**
+   * Time in milliseconds spent executing the protocol request
+   */
   duration: number;
+  /**
+   * Time in milliseconds the request waited in the concurrency queue before executing
+   */
+  queueDuration: number;
+  /**
+   * Net value breakdown, set on successful results when 'netValue' scoring is used
+   */
+  score?: ScoreBreakdown;
+  /**
+   * True when the response was served from the cache
+   */
+  cached?: boolean;
+  /**
+   * Number of calls made to the protocol, 0 when served from cache or skipped
+   */
+  attempts?: number;
 };
 
 /**
@@ -141,6 +332,21 @@ export type GeniusIntentsResults<T> = {
    */
   allResults: Array<IntentPriceResult | IntentQuoteResult>;
 
+  /**
+   * Successful results ordered by the ranking strategy, best first ('best' method only)
+   */
+  ranking?: RankedResult[];
+
+  /**
+   * Price results of every compatible protocol, set by `fetchQuote` when `quoteTopK` is used
+   */
+  priceResults?: IntentPriceResult[];
+
+  /**
+   * True when the selected result was served from the cache
+   */
+  cached?: boolean;
+
   /**
    * Execution method used
    */
@@ -152,6 +358,58 @@ export type GeniusIntentsResults<T> = {
   totalDuration: number;
 };
 
+/**
+ * Price responses of an earlier price call: a single response, the whole result set of
+ * `fetchPrice`, or responses keyed by the protocol that returned them
+ */
+export type PriorPriceResponses =
+  PriceResponse | GeniusIntentsResults<PriceResponse> | Partial<Record<ProtocolId, PriceResponse>>;
+
+/**
+ * Params of `GeniusIntents.fetchQuote` and `streamQuotes`. Each protocol receives only the
+ * price response it returned itself as `IntentQuoteParams.priceResponse`.
+ */
+export type GeniusIntentsQuoteParams = Omit<IntentQuoteParams, 'priceResponse'> & {
+  priceResponse?: PriorPriceResponses;
+};
+
+/**
+ * Outcome of one pair of `GeniusIntents.fetchPrices`, in the order the pairs were given
+ */
+export type IntentBatchPriceResult = {
+  params: IntentPriceParams;
+  results?: GeniusIntentsResults<PriceResponse>;
+  /**
+   * Set when the pair could not be priced at all, e.g. no compatible protocol
+   */
+  error?: Error;
+};
+
+/**
+ * Update yielded by `streamPrices`/`streamQuotes` each time a protocol completes
+ */
+export type IntentStreamUpdate<T extends IntentPriceResult | IntentQuoteResult> = {
+  /**
+   * Result of the protocol that just completed, successful or not
+   */
+  result: T;
+
+  /**
+   * Best successful result received so far according to the ranking strategy
+   */
+  best?: T;
+
+  /**
+   * Number of protocols that completed so far
+   */
+  completed: number;
+
+  /**
+   * Number of protocols queried
+   */
+  total: number;
+};
+
 /**
  * Race execution result interface
  */
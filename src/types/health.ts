@@ -0,0 +1,57 @@
+import { CircuitStateEnum } from './enums';
+import { ProtocolId } from './protocol';
+
+export type CircuitBreakerConfig = {
+  /**
+   * Error rate (0-1) over the rolling window above which the circuit opens
+   * @default 0.5
+   */
+  failureThreshold?: number;
+  /**
+   * Minimum requests in the rolling window before the error rate is evaluated
+   * @default 5
+   */
+  minimumRequests?: number;
+  /**
+   * Length of the rolling window in milliseconds
+   * @default 60000
+   */
+  windowMs?: number;
+  /**
+   * Milliseconds an open circuit skips the protocol before allowing half-open probes
+   * @default 30000
+   */
+  openDuration?: number;
+  /**
+   * Concurrent probe requests allowed while half-open
+   * @default 1
+   */
+  halfOpenMaxRequests?: number;
+};
+
+export type ProtocolHealth = {
+  protocol: ProtocolId;
+  state: CircuitStateEnum;
+  /**
+   * Requests completed within the rolling window
+   */
+  requests: number;
+  /**
+   * Requests within the rolling window that failed on the protocol side (timeouts, 5xx,
+   * dropped connections), rejected requests such as unsupported tokens are not counted
+   */
+  failures: number;
+  /**
+   * failures / requests, 0 without requests
+   */
+  errorRate: number;
+  /**
+   * Average duration in milliseconds of the requests within the rolling window
+   */
+  averageLatency: number;
+  /**
+   * Timestamp at which an open circuit allows half-open probes
+   */
+  nextProbeAt?: number;
+  lastError?: string;
+};
@@ -0,0 +1,92 @@
+import { ProtocolId } from './protocol';
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
+
+export type HttpHeaders = Record<string, string>;
+
+export type HttpRequestConfig = {
+  headers?: HttpHeaders;
+  /**
+   * Query string parameters, appended to the url
+   */
+  params?: Record<string, unknown>;
+  /**
+   * Milliseconds before the request fails, 0 for no timeout
+   */
+  timeout?: number;
+  signal?: AbortSignal;
+};
+
+export type HttpResponse<T> = {
+  data: T;
+  status: number;
+  headers: HttpHeaders;
+};
+
+export type HttpProxyConfig = {
+  protocol?: 'http' | 'https';
+  host: string;
+  port: number;
+  auth?: { username: string; password: string };
+};
+
+/**
+ * Defaults applied to the requests of every protocol, or of a single protocol
+ */
+export type HttpRequestDefaults = {
+  headers?: HttpHeaders;
+  timeout?: number;
+  /**
+   * Sent as `User-Agent`, tagged with the protocol, e.g. `my-app/1.0 (odos)`
+   */
+  userAgent?: string;
+};
+
+export type HttpRecordReplayConfig = {
+  /**
+   * - 'record': send requests and write every request/response pair to `directory`
+   * - 'replay': serve responses from `directory` without touching the network
+   */
+  mode: 'record' | 'replay';
+  directory: string;
+  /**
+   * Query and body fields replaced before matching and writing fixtures, matched case
+   * insensitively. Added to the defaults: timestamp, deadline, expiry, signature, apiKey and
+   * accessToken.
+   */
+  redact?: string[];
+};
+
+/**
+ * Recorded request/response pair. Request headers are never written, they carry credentials.
+ */
+export type HttpFixture = {
+  scope: string;
+  request: {
+    method: 'GET' | 'POST';
+    url: string;
+    body?: unknown;
+  };
+  response: HttpResponse<unknown>;
+  recordedAt: string;
+};
+
+export type HttpConfig = HttpRequestDefaults & {
+  /**
+   * Proxy used by the default axios client, ignored by a custom `httpClient`
+   */
+  proxy?: HttpProxyConfig;
+  /**
+   * Agents used by the default axios client, e.g. keep-alive agents
+   */
+  httpAgent?: HttpAgent;
+  httpsAgent?: HttpsAgent;
+  /**
+   * Record protocol traffic to fixtures once and replay it offline, e.g. in CI
+   */
+  recordReplay?: HttpRecordReplayConfig;
+  /**
+   * Per-protocol defaults, merged over the shared ones
+   */
+  protocols?: Partial<Record<ProtocolId, HttpRequestDefaults>>;
+};
@@ -0,0 +1,58 @@
+import { ProtocolId } from './protocol';
+
+import { IntentPriceParams } from './price-params';
+import { IntentQuoteParams } from './quote-params';
+import { PriceResponse } from './price-response';
+import { QuoteResponse } from './quote-response';
+
+export type MiddlewareStage = 'price' | 'quote';
+
+export type MiddlewareStageTypes = {
+  price: { params: IntentPriceParams; response: PriceResponse };
+  quote: { params: IntentQuoteParams; response: QuoteResponse };
+};
+
+export type MaybePromise<T> = T | Promise<T>;
+
+export type RequestHookContext<S extends MiddlewareStage> = {
+  protocol: ProtocolId;
+  params: MiddlewareStageTypes[S]['params'];
+};
+
+/**
+ * Returned by `beforePrice` and `beforeQuote`. `params` replaces the params seen by the following
+ * hooks and the protocol, `response` skips the protocol request altogether.
+ */
+export type RequestHookResult<S extends MiddlewareStage> = {
+  params?: MiddlewareStageTypes[S]['params'];
+  response?: MiddlewareStageTypes[S]['response'];
+};
+
+export type ResponseHookContext<S extends MiddlewareStage> = RequestHookContext<S> & {
+  response: MiddlewareStageTypes[S]['response'];
+};
+
+export type ErrorHookContext<S extends MiddlewareStage = MiddlewareStage> =
+  S extends MiddlewareStage ? RequestHookContext<S> & { stage: S; error: Error } : never;
+
+/**
+ * Returned by `onError`. `response` recovers the request, `error` replaces the error seen by the
+ * following hooks and the caller.
+ */
+export type ErrorHookResult = {
+  error?: Error;
+  response?: PriceResponse | QuoteResponse;
+};
+
+export type SimulateHookContext = RequestHookContext<'quote'> & {
+  response: QuoteResponse;
+};
+
+/**
+ * Returned by `beforeSimulate`. `response` replaces the quote that is simulated and returned,
+ * `skip` returns it without simulation.
+ */
+export type SimulateHookResult = {
+  response?: QuoteResponse;
+  skip?: boolean;
+};
@@ -1,5 +1,6 @@
 import { DeBridgePriceParams } from '../protocols/debridge/debridge.types';
 import { JupiterPriceUrlParams, JupiterSwapUrlParams } from '../protocols/jupiter';
+import { SwapModeEnum } from './enums';
 
 export type IntentPriceParams = {
   networkIn: number;
@@ -9,6 +10,17 @@ export type IntentPriceParams = {
   amountIn: string;
   from: string;
 
+  /**
+   * With `SwapModeEnum.EXACT_OUT` the swap delivers exactly `amountOut` and responses report the
+   * `amountIn` it requires. `amountIn` is not used in that mode, pass '0'.
+   * @default SwapModeEnum.EXACT_IN
+   */
+  swapMode?: SwapModeEnum;
+  /**
+   * Output amount to deliver, required with `SwapModeEnum.EXACT_OUT`
+   */
+  amountOut?: string;
+
   /**
    * Slippage is the maximum allowed price deviation from the best price.
    * It is a percentage of the best price.
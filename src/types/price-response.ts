@@ -1,7 +1,11 @@
+import { ProtocolId } from './protocol';
 import { OdosPriceResponse } from '../protocols/odos/odos.types';
 import { RaydiumV2PriceResponse } from '../protocols/raydium/raydium-v2.types';
-import { JupiterPriceResponse } from '../protocols/jupiter/jupiter.types';
-import { ProtocolEnum } from './enums';
+import {
+  JupiterBatchPriceResponse,
+  JupiterPriceResponse,
+} from '../protocols/jupiter/jupiter.types';
+
 import { OkxPriceResponse } from '../protocols/okx/okx.types';
 import { AftermathPriceResponse } from '../protocols/aftermath/aftermath.types';
 import { OpenOceanPriceResponse } from '../protocols/openocean/openocean.types';
@@ -14,6 +18,7 @@ export type RawProtocolPriceResponse =
   | OdosPriceResponse
   | RaydiumV2PriceResponse
   | JupiterPriceResponse
+  | JupiterBatchPriceResponse
   | OkxPriceResponse
   | AftermathPriceResponse
   | OpenOceanPriceResponse
@@ -24,7 +29,7 @@ export type RawProtocolPriceResponse =
   | DeBridgeQuoteResponse;
 
 export type PriceResponse = {
-  protocol: ProtocolEnum;
+  protocol: ProtocolId;
   networkIn: number;
   networkOut: number;
   tokenIn: string;
@@ -35,4 +40,9 @@ export type PriceResponse = {
   protocolResponse: RawProtocolPriceResponse;
   slippage: number;
   priceImpact?: number;
+  /**
+   * Derived from reference rates instead of a route, e.g. Jupiter batch prices.
+   * Estimates only rank behind the routed prices of the same request.
+   */
+  estimate?: boolean;
 };
@@ -0,0 +1,24 @@
+import { IIntentProtocol } from '../interfaces/intent-protocol';
+import { ProtocolEnum } from './enums';
+import { GeniusIntentsSDKConfig } from './sdk-config';
+
+/**
+ * A built-in protocol or the id of a protocol added with `GeniusIntents.registerProtocol`
+ */
+export type ProtocolId = ProtocolEnum | (string & Record<never, never>);
+
+/**
+ * Config handed to a protocol: the shared SDK options and RPCs, the protocol's flat keys and
+ * its section of `protocols`
+ */
+export type ProtocolServiceConfig = GeniusIntentsSDKConfig & {
+  rpcs?: { [network: number]: string };
+  solanaRpcUrl?: string;
+  suiRpcUrl?: string;
+  [key: string]: unknown;
+};
+
+/**
+ * Creates a registered protocol from its config when protocols are initialized
+ */
+export type ProtocolFactory = (config: ProtocolServiceConfig) => IIntentProtocol;
@@ -1,7 +1,8 @@
+import { ProtocolId } from './protocol';
 import { OdosQuoteResponse } from '../protocols/odos/odos.types';
 import { RaydiumV2QuoteResponse } from '../protocols/raydium/raydium-v2.types';
 import { JupiterQuoteResponses } from '../protocols/jupiter/jupiter.types';
-import { ProtocolEnum } from './enums';
+
 import { EvmQuoteExecutionPayload, SvmQuoteExecutionPayload } from './quote-execution-payload';
 import { OkxQuoteResponse } from '../protocols/okx/okx.types';
 import { AftermathQuoteResponse } from '../protocols/aftermath/aftermath.types';
@@ -13,7 +14,7 @@ import { AcrossQuoteResponse } from '../protocols/across/across.types';
 import { GeniusBridgeQuoteResponse } from 'genius-bridge-sdk';
 
 export type QuoteResponse = {
-  protocol: ProtocolEnum;
+  protocol: ProtocolId;
   networkIn: number;
   networkOut: number;
   tokenIn: string;
@@ -0,0 +1,14 @@
+import { IntentPriceResult, IntentQuoteResult } from './genius-intents';
+
+export type RankableResult = IntentPriceResult | IntentQuoteResult;
+
+/**
+ * A single entry of a ranking, ordered from best to worst
+ */
+export type RankedResult<T extends RankableResult = RankableResult> = {
+  result: T;
+  /**
+   * Human readable explanation of the position, e.g. the compared value
+   */
+  reason: string;
+};
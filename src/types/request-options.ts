@@ -0,0 +1,33 @@
+import { RequestPriorityEnum } from './enums';
+import { ILogger } from '../utils/logger';
+
+/**
+ * Per-call options passed to every `IIntentProtocol` request
+ */
+export type ProtocolRequestOptions = {
+  /**
+   * Aborts the underlying HTTP and RPC calls of the request
+   */
+  signal?: AbortSignal;
+  /**
+   * Logger carrying the request context (request id, protocol, chain).
+   * Services log the request through it instead of their own logger when given.
+   */
+  logger?: ILogger;
+};
+
+/**
+ * Per-call options for `GeniusIntents.fetchPrice` and `GeniusIntents.fetchQuote`
+ */
+export type IntentRequestOptions = ProtocolRequestOptions & {
+  /**
+   * Priority of the protocol requests in the shared request queue.
+   * Higher priorities are dequeued first, equal priorities in arrival order.
+   * @default RequestPriorityEnum.NORMAL
+   */
+  priority?: RequestPriorityEnum | number;
+  /**
+   * Added as `requestId` to every log line of the request, generated when omitted
+   */
+  requestId?: string;
+};
@@ -0,0 +1,35 @@
+import { ProtocolId } from './protocol';
+
+export type RetryPolicy = {
+  /**
+   * Total attempts including the first one, 1 disables retries
+   * @default 1
+   */
+  maxAttempts?: number;
+  /**
+   * Delay in milliseconds before the first retry, doubled on every following retry
+   * @default 250
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound in milliseconds of the backoff delay
+   * @default 4000
+   */
+  maxDelay?: number;
+  /**
+   * Randomize each delay between half and the full backoff to spread retries out
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * Decide whether an error is worth retrying, defaults to `isRetryableError`
+   */
+  shouldRetry?: (error: unknown) => boolean;
+};
+
+export type RetryConfig = RetryPolicy & {
+  /**
+   * Policy overrides per protocol
+   */
+  protocols?: Partial<Record<ProtocolId, RetryPolicy>>;
+};
@@ -0,0 +1,64 @@
+import { ChainIdEnum } from './enums';
+import { ProtocolId } from './protocol';
+import { ProtocolConfigStatus } from './config-schema';
+
+export type RouteQuery = {
+  networkIn: number;
+  networkOut: number;
+  tokenIn?: string;
+  tokenOut?: string;
+};
+
+export type ProtocolCapabilities = {
+  singleChain: boolean;
+  multiChain: boolean;
+  /**
+   * Quotes can be requested for a fixed output amount
+   */
+  exactOut: boolean;
+  /**
+   * Quotes can send the output to an address other than `from`
+   */
+  receiver: boolean;
+  /**
+   * Every required config key of the protocol is set
+   */
+  configured: boolean;
+  /**
+   * Supported chains, narrowed by the protocol's `chains` override
+   */
+  chains: ChainIdEnum[];
+};
+
+/**
+ * Routes a protocol API currently lists between two chains
+ */
+export type ProtocolRoutes = {
+  supported: boolean;
+  /**
+   * Only set when the protocol API publishes token lists
+   */
+  tokensIn?: string[];
+  tokensOut?: string[];
+};
+
+export type ProtocolRouteSupport = {
+  protocol: ProtocolId;
+  capabilities: ProtocolCapabilities;
+  /**
+   * Live listing from the protocol API, not set when the protocol has none or it failed
+   */
+  routes?: ProtocolRoutes;
+  error?: Error;
+};
+
+export type SupportedRoutes = {
+  networkIn: number;
+  networkOut: number;
+  crossChain: boolean;
+  protocols: ProtocolRouteSupport[];
+  /**
+   * Enabled protocols that are not loaded because required config is missing
+   */
+  unconfigured: ProtocolConfigStatus[];
+};
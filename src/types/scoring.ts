@@ -0,0 +1,40 @@
+/**
+ * How 'best' mode ranks successful protocol responses
+ * - 'amountOut': highest raw output amount
+ * - 'netValue': highest output amount once the gas cost, converted into tokenOut, is subtracted
+ */
+export type ScoringMode = 'amountOut' | 'netValue';
+
+/**
+ * Breakdown of the net value score of a single response. All amounts are in their smallest unit.
+ */
+export type ScoreBreakdown = {
+  /**
+   * Raw output amount returned by the protocol
+   */
+  amountOut: string;
+  /**
+   * Gas units of the swap transaction, 0 when the protocol returned no estimate
+   */
+  swapGas: string;
+  /**
+   * Gas units of the approval transaction, only counted when `approval.required` is true
+   */
+  approvalGas: string;
+  /**
+   * Gas price of the input network in wei
+   */
+  gasPrice: string;
+  /**
+   * Total gas cost in wei of the input network's native token
+   */
+  gasCostNative: string;
+  /**
+   * Total gas cost converted into tokenOut
+   */
+  gasCostOut: string;
+  /**
+   * amountOut minus gasCostOut, may be negative when gas costs more than the output
+   */
+  netAmountOut: string;
+};
@@ -1,6 +1,24 @@
 import { ILogger } from '../utils/logger';
+import { IMetrics } from '../utils/metrics';
+import { IHttpClient } from '../interfaces/http-client';
+import { HttpConfig } from './http';
 
 export type GeniusIntentsSDKConfig = {
   logger?: ILogger;
+  /**
+   * Receives spans, counters and histograms of protocol requests, simulations, approval
+   * checks and selections. Metrics are disabled when omitted.
+   */
+  metrics?: IMetrics;
+  /**
+   * Transport for the HTTP requests of the protocol services
+   * @default AxiosHttpClient
+   */
+  httpClient?: IHttpClient;
+  /**
+   * Headers, timeout and user agent of protocol requests, shared or per protocol, and the
+   * proxy and agents of the default axios client
+   */
+  http?: HttpConfig;
   debug?: boolean;
 };
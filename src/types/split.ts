@@ -0,0 +1,62 @@
+import { ProtocolId } from './protocol';
+import { QuoteResponse } from './quote-response';
+import { IntentPriceResult, IntentQuoteResult } from './genius-intents';
+import { IntentRequestOptions } from './request-options';
+
+/**
+ * Per-call options of `GeniusIntents.fetchSplitQuote`
+ */
+export type SplitQuoteOptions = IntentRequestOptions & {
+  /**
+   * Number of equal parts amountIn is cut into. Every protocol is priced at each multiple of
+   * one part, so a protocol costs `parts` price requests.
+   * @default 4
+   */
+  parts?: number;
+  /**
+   * Maximum number of protocols the order is spread over
+   * @default parts
+   */
+  maxLegs?: number;
+};
+
+/**
+ * One protocol's share of a split order
+ */
+export type SplitQuoteLeg = {
+  protocol: ProtocolId;
+  /**
+   * Position of the leg in execution order, starting at 0
+   */
+  index: number;
+  /**
+   * Parts of the order routed through this leg, out of `SplitQuoteResult.parts`
+   */
+  parts: number;
+  amountIn: string;
+  amountOut: string;
+  /**
+   * Quote of the leg. Its EVM approval accounts for the allowance spent by earlier legs
+   * approving the same spender.
+   */
+  quote: QuoteResponse;
+};
+
+export type SplitQuoteResult = {
+  amountIn: string;
+  /**
+   * Sum of the quoted output of every leg
+   */
+  amountOut: string;
+  parts: number;
+  /**
+   * Legs ordered by amountIn, largest first
+   */
+  legs: SplitQuoteLeg[];
+  /**
+   * Price results of every protocol at every fraction of the order
+   */
+  priceResults: IntentPriceResult[];
+  quoteResults: IntentQuoteResult[];
+  totalDuration: number;
+};
@@ -0,0 +1,79 @@
+export const createAbortError = (message = 'The operation was aborted'): Error => {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * True for our own abort errors as well as the ones thrown by axios and fetch
+ */
+export const isAbortError = (error: unknown): boolean => {
+  if (!(error instanceof Error)) return false;
+  return (
+    error.name === 'AbortError' ||
+    error.name === 'CanceledError' ||
+    (error as Error & { code?: string }).code === 'ERR_CANCELED'
+  );
+};
+
+export const getAbortReason = (signal: AbortSignal): Error => {
+  return signal.reason instanceof Error ? signal.reason : createAbortError();
+};
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw getAbortReason(signal);
+  }
+};
+
+/**
+ * Create an AbortController that also aborts when the parent signal aborts.
+ * Call `unlink` once the controller is no longer needed so the parent does not keep a reference.
+ */
+export const linkAbortController = (
+  parent?: AbortSignal,
+): { controller: AbortController; unlink: () => void } => {
+  const controller = new AbortController();
+
+  if (!parent) {
+    return { controller, unlink: (): void => {} };
+  }
+
+  if (parent.aborted) {
+    controller.abort(getAbortReason(parent));
+    return { controller, unlink: (): void => {} };
+  }
+
+  const onAbort = (): void => controller.abort(getAbortReason(parent));
+  parent.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    controller,
+    unlink: (): void => parent.removeEventListener('abort', onAbort),
+  };
+};
+
+/**
+ * Reject as soon as the signal aborts, for third-party calls (SDKs, RPC clients)
+ * that cannot be handed a signal themselves
+ */
+export const raceAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(getAbortReason(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(getAbortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+};
@@ -1,6 +1,8 @@
 import { Connection, VersionedTransaction } from '@solana/web3.js';
-import axios from 'axios';
 import bs58 from 'bs58';
+import { raceAbort } from './abort';
+import { IHttpClient } from '../interfaces/http-client';
+import { AxiosHttpClient } from '../lib/http/axios-http-client';
 
 export interface ITXSimulationResults {
   jitoSimulations?: unknown;
@@ -13,9 +15,11 @@ export default async function simulateJito(
   jitoRpc: string,
   rpcUrl: string,
   transactions: string[],
+  signal?: AbortSignal,
+  http: IHttpClient = new AxiosHttpClient(),
 ): Promise<ITXSimulationResults> {
   const connection = new Connection(rpcUrl);
-  const { blockhash } = await connection.getLatestBlockhash('finalized');
+  const { blockhash } = await raceAbort(connection.getLatestBlockhash('finalized'), signal);
 
   transactions = transactions as string[];
   const encodedTransactions = await Promise.all(
@@ -42,7 +46,11 @@ export default async function simulateJito(
     ],
   };
 
-  const jitoSimResp = await axios.post(jitoRpc, data);
+  const jitoSimResp = await http.post<{ result?: { value?: { summary?: string } } }>(
+    jitoRpc,
+    data,
+    { signal },
+  );
   const jitoSim = jitoSimResp.data;
   const simsFailed = jitoSim?.result?.value?.summary !== 'succeeded';
 
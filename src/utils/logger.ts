@@ -19,6 +19,21 @@ export interface ILogger {
   error(message: string, error?: Error, meta?: Record<string, unknown>): void;
 }
 
+/**
+ * Fields added to the meta of every log line written through a child logger
+ */
+export type LogContext = {
+  requestId?: string;
+  protocol?: string;
+  chain?: number;
+  [key: string]: unknown;
+};
+
+export interface ILoggerConfig {
+  debug?: boolean;
+  logger?: ILogger;
+}
+
 // Default no-op logger (silent)
 export class NoOpLogger implements ILogger {
   debug(): void {}
@@ -110,6 +125,43 @@ export class PinoLogger implements ILogger {
   }
 }
 
+// Adds a fixed context to the meta of every log line, the message is left untouched
+export class ChildLogger implements ILogger {
+  private _parent: ILogger;
+  private _context: LogContext;
+
+  constructor(parent: ILogger, context: LogContext) {
+    // Flatten nested children so each line goes through a single wrapper
+    if (parent instanceof ChildLogger) {
+      this._parent = parent._parent;
+      this._context = { ...parent._context, ...context };
+    } else {
+      this._parent = parent;
+      this._context = context;
+    }
+  }
+
+  get context(): LogContext {
+    return this._context;
+  }
+
+  debug(message: string, meta?: Record<string, unknown>): void {
+    this._parent.debug(message, { ...this._context, ...meta });
+  }
+
+  info(message: string, meta?: Record<string, unknown>): void {
+    this._parent.info(message, { ...this._context, ...meta });
+  }
+
+  warn(message: string, meta?: Record<string, unknown>): void {
+    this._parent.warn(message, { ...this._context, ...meta });
+  }
+
+  error(message: string, error?: Error, meta?: Record<string, unknown>): void {
+    this._parent.error(message, error, { ...this._context, ...meta });
+  }
+}
+
 // SDK logging configuration
 export class LoggerFactory {
   private static _instance: ILogger = new NoOpLogger();
@@ -118,10 +170,27 @@ export class LoggerFactory {
     return LoggerFactory._instance;
   }
 
+  /**
+   * Set the process-wide default, used by instances configured without `logger` or `debug`
+   */
   static configure(logger: ILogger): void {
     LoggerFactory._instance = logger;
   }
 
+  /**
+   * Resolve the logger of one SDK or service instance without touching the process default
+   */
+  static fromConfig(config?: ILoggerConfig): ILogger {
+    if (config?.debug) {
+      return LoggerFactory.createConsoleLogger({ level: LogLevelEnum.DEBUG });
+    }
+    return config?.logger ?? LoggerFactory.getLogger();
+  }
+
+  static createChildLogger(logger: ILogger, context: LogContext): ILogger {
+    return new ChildLogger(logger, context);
+  }
+
   static createConsoleLogger(options?: ILoggerOptions): ILogger {
     return new ConsoleLogger(options);
   }
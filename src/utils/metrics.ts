@@ -0,0 +1,169 @@
+export enum SpanNameEnum {
+  PRICE_REQUEST = 'intents.price',
+  QUOTE_REQUEST = 'intents.quote',
+  SIMULATION = 'intents.simulation',
+  APPROVAL_CHECK = 'intents.approval_check',
+  SELECTION = 'intents.selection',
+}
+
+export enum MetricNameEnum {
+  /**
+   * Counter of protocol requests, by protocol and type
+   */
+  REQUESTS = 'intents.requests',
+  /**
+   * Counter of failed protocol requests, by protocol, type and SdkErrorEnum code
+   */
+  ERRORS = 'intents.errors',
+  /**
+   * Histogram of protocol request durations in milliseconds, by protocol and type
+   */
+  LATENCY = 'intents.latency',
+  /**
+   * Counter of selected results, by protocol, type and method
+   */
+  WINS = 'intents.wins',
+}
+
+export type MetricAttributes = Record<string, string | number | boolean>;
+
+export interface ISpan {
+  setAttributes(attributes: MetricAttributes): void;
+  recordError(error: Error): void;
+  end(): void;
+}
+
+export interface IMetrics {
+  startSpan(name: string, attributes?: MetricAttributes): ISpan;
+  /**
+   * Add to a counter
+   */
+  add(name: string, value: number, attributes?: MetricAttributes): void;
+  /**
+   * Record a histogram value
+   */
+  record(name: string, value: number, attributes?: MetricAttributes): void;
+}
+
+// Default no-op metrics (disabled)
+export class NoOpSpan implements ISpan {
+  setAttributes(): void {}
+  recordError(): void {}
+  end(): void {}
+}
+
+export class NoOpMetrics implements IMetrics {
+  startSpan(): ISpan {
+    return new NoOpSpan();
+  }
+  add(): void {}
+  record(): void {}
+}
+
+// The parts of the @opentelemetry/api Tracer, Meter and Span the adapters use
+export interface IOpenTelemetrySpan {
+  setAttributes(attributes: MetricAttributes): unknown;
+  recordException(exception: Error): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+export interface IOpenTelemetryTracer {
+  startSpan(name: string, options?: { attributes?: MetricAttributes }): IOpenTelemetrySpan;
+}
+
+export interface IOpenTelemetryCounter {
+  add(value: number, attributes?: MetricAttributes): void;
+}
+
+export interface IOpenTelemetryHistogram {
+  record(value: number, attributes?: MetricAttributes): void;
+}
+
+export interface IOpenTelemetryMeter {
+  createCounter(name: string): IOpenTelemetryCounter;
+  createHistogram(name: string): IOpenTelemetryHistogram;
+}
+
+// SpanStatusCode.ERROR of @opentelemetry/api
+const OTEL_SPAN_STATUS_ERROR = 2;
+
+// OpenTelemetry span adapter
+export class OpenTelemetrySpan implements ISpan {
+  private _span: IOpenTelemetrySpan;
+
+  constructor(otelSpan: IOpenTelemetrySpan) {
+    this._span = otelSpan;
+  }
+
+  setAttributes(attributes: MetricAttributes): void {
+    this._span.setAttributes(attributes);
+  }
+
+  recordError(error: Error): void {
+    this._span.recordException(error);
+    this._span.setStatus({ code: OTEL_SPAN_STATUS_ERROR, message: error.message });
+  }
+
+  end(): void {
+    this._span.end();
+  }
+}
+
+// OpenTelemetry adapter, takes a Tracer and a Meter from @opentelemetry/api
+export class OpenTelemetryMetrics implements IMetrics {
+  private _tracer?: IOpenTelemetryTracer;
+  private _meter?: IOpenTelemetryMeter;
+  private _counters = new Map<string, IOpenTelemetryCounter>();
+  private _histograms = new Map<string, IOpenTelemetryHistogram>();
+
+  constructor(options: { tracer?: IOpenTelemetryTracer; meter?: IOpenTelemetryMeter }) {
+    this._tracer = options.tracer;
+    this._meter = options.meter;
+  }
+
+  startSpan(name: string, attributes?: MetricAttributes): ISpan {
+    if (!this._tracer) return new NoOpSpan();
+    return new OpenTelemetrySpan(this._tracer.startSpan(name, { attributes }));
+  }
+
+  add(name: string, value: number, attributes?: MetricAttributes): void {
+    if (!this._meter) return;
+    let counter = this._counters.get(name);
+    if (!counter) {
+      counter = this._meter.createCounter(name);
+      this._counters.set(name, counter);
+    }
+    counter.add(value, attributes);
+  }
+
+  record(name: string, value: number, attributes?: MetricAttributes): void {
+    if (!this._meter) return;
+    let histogram = this._histograms.get(name);
+    if (!histogram) {
+      histogram = this._meter.createHistogram(name);
+      this._histograms.set(name, histogram);
+    }
+    histogram.record(value, attributes);
+  }
+}
+
+/**
+ * Run a task inside a span, recording the error and ending the span whatever the outcome
+ */
+export const withSpan = async <T>(
+  metrics: IMetrics,
+  name: string,
+  attributes: MetricAttributes,
+  task: (span: ISpan) => Promise<T>,
+): Promise<T> => {
+  const span = metrics.startSpan(name, attributes);
+  try {
+    return await task(span);
+  } catch (error) {
+    span.recordError(error instanceof Error ? error : new Error('Unknown error'));
+    throw error;
+  } finally {
+    span.end();
+  }
+};
@@ -0,0 +1,51 @@
+import { SdkErrorEnum } from '../types/enums';
+import { ProtocolId } from '../types/protocol';
+import { getHttpStatus, isRetryableError } from '../lib/retry/error-classification';
+
+export type SdkErrorOptions = {
+  protocol?: ProtocolId;
+  /**
+   * Defaults to the status of the HTTP response found in the cause chain
+   */
+  httpStatus?: number;
+  /**
+   * Defaults to true for rate limits and to the classification of the cause otherwise
+   */
+  retryable?: boolean;
+  /**
+   * Original axios, RPC or SDK error
+   */
+  cause?: unknown;
+  details?: Record<string, unknown>;
+};
+
+/**
+ * Error thrown by the SDK and its protocol services. The message keeps the `CODE: message`
+ * format, use `code` instead of parsing it.
+ */
+export class SdkError extends Error {
+  public readonly code: SdkErrorEnum;
+  /**
+   * Protocol the error originates from, set by `GeniusIntents` when a service did not
+   */
+  public protocol?: ProtocolId;
+  public readonly httpStatus?: number;
+  public readonly retryable: boolean;
+  public readonly cause?: unknown;
+  public readonly details?: Record<string, unknown>;
+
+  constructor(code: SdkErrorEnum, message: string, options: SdkErrorOptions = {}) {
+    super(`${code}: ${message}`);
+    this.name = 'SdkError';
+    this.code = code;
+    this.protocol = options.protocol;
+    this.httpStatus = options.httpStatus ?? getHttpStatus(options.cause);
+    this.retryable =
+      options.retryable ?? (code === SdkErrorEnum.RATE_LIMITED || isRetryableError(options.cause));
+    this.cause = options.cause;
+    this.details = options.details;
+  }
+}
+
+export const isSdkError = (error: unknown, code?: SdkErrorEnum): error is SdkError =>
+  error instanceof SdkError && (code === undefined || error.code === code);
@@ -0,0 +1,5 @@
+import { SwapModeEnum } from '../types/enums';
+import { IntentPriceParams } from '../types/price-params';
+
+export const isExactOut = (params?: Pick<IntentPriceParams, 'swapMode'>): boolean =>
+  params?.swapMode === SwapModeEnum.EXACT_OUT;
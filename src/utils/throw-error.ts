@@ -1,5 +1,10 @@
 import { SdkErrorEnum } from '../types/enums';
+import { SdkError, SdkErrorOptions } from './sdk-error';
 
-export const sdkError = (errorType: SdkErrorEnum, message: string): Error => {
-  return new Error(`${errorType}: ${message}`);
+export const sdkError = (
+  errorType: SdkErrorEnum,
+  message: string,
+  options?: SdkErrorOptions,
+): SdkError => {
+  return new SdkError(errorType, message, options);
 };
@@ -0,0 +1,52 @@
+import {
+  isAbortError,
+  linkAbortController,
+  raceAbort,
+  throwIfAborted,
+} from '../../src/utils/abort';
+
+describe('abort utilities', () => {
+  test('should abort the linked controller with the parent reason', () => {
+    const parent = new AbortController();
+    const { controller } = linkAbortController(parent.signal);
+
+    parent.abort(new Error('caller gave up'));
+
+    expect(controller.signal.aborted).toBe(true);
+    expect(() => throwIfAborted(controller.signal)).toThrow('caller gave up');
+  });
+
+  test('should stop following the parent once unlinked', () => {
+    const parent = new AbortController();
+    const { controller, unlink } = linkAbortController(parent.signal);
+
+    unlink();
+    parent.abort();
+
+    expect(controller.signal.aborted).toBe(false);
+  });
+
+  test('should reject a pending promise when the signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = raceAbort(new Promise(() => {}), controller.signal);
+
+    controller.abort();
+
+    const error = await pending.catch((reason: unknown) => reason);
+    expect(isAbortError(error)).toBe(true);
+  });
+
+  test('should pass through results when the signal never aborts', async () => {
+    const controller = new AbortController();
+
+    await expect(raceAbort(Promise.resolve('ok'), controller.signal)).resolves.toBe('ok');
+    await expect(raceAbort(Promise.resolve('ok'))).resolves.toBe('ok');
+  });
+
+  test('should recognise axios cancellations', () => {
+    const canceled = Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' });
+
+    expect(isAbortError(canceled)).toBe(true);
+    expect(isAbortError(new Error('Request timeout'))).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+import {
+  USDC_ADDRESSES,
+  applySlippage,
+  compoundSlippage,
+  getIntermediateAssets,
+  isSameToken,
+} from '../../src/lib/composite/composite-route';
+import { ChainIdEnum } from '../../src/types/enums';
+import { NATIVE_ADDRESS, NATIVE_SOL, ZERO_ADDRESS } from '../../src/utils/constants';
+
+describe('composite routes', () => {
+  test('should offer USDC and the native token as intermediate assets', () => {
+    expect(getIntermediateAssets(ChainIdEnum.ETHEREUM, ChainIdEnum.SOLANA)).toEqual([
+      {
+        symbol: 'USDC',
+        tokenIn: USDC_ADDRESSES[ChainIdEnum.ETHEREUM],
+        tokenOut: USDC_ADDRESSES[ChainIdEnum.SOLANA],
+      },
+      { symbol: 'native', tokenIn: NATIVE_ADDRESS, tokenOut: NATIVE_SOL },
+    ]);
+  });
+
+  test('should skip USDC when a chain has no known address', () => {
+    expect(getIntermediateAssets(ChainIdEnum.BLAST, ChainIdEnum.BASE)).toEqual([
+      { symbol: 'native', tokenIn: NATIVE_ADDRESS, tokenOut: NATIVE_ADDRESS },
+    ]);
+  });
+
+  test('should treat every native token address as the same token', () => {
+    expect(isSameToken(ZERO_ADDRESS, NATIVE_ADDRESS)).toBe(true);
+    expect(
+      isSameToken(
+        USDC_ADDRESSES[ChainIdEnum.BASE]!.toLowerCase(),
+        USDC_ADDRESSES[ChainIdEnum.BASE]!,
+      ),
+    ).toBe(true);
+    expect(isSameToken(USDC_ADDRESSES[ChainIdEnum.BASE]!, NATIVE_ADDRESS)).toBe(false);
+  });
+
+  test('should apply and compound slippage percentages', () => {
+    expect(applySlippage('1000000', 0.5)).toBe('995000');
+    expect(compoundSlippage([1, 1])).toBeCloseTo(1.99);
+    expect(compoundSlippage([])).toBe(0);
+  });
+});
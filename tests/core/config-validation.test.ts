@@ -0,0 +1,55 @@
+import { formatConfigIssues, validateConfigSchema } from '../../src/lib/config/config-validation';
+import {
+  ACROSS_CONFIG_SCHEMA,
+  OKX_CONFIG_SCHEMA,
+  ZEROX_CONFIG_SCHEMA,
+} from '../../src/lib/config/protocol-config-schemas';
+import { ProtocolEnum } from '../../src/types/enums';
+
+describe('validateConfigSchema', () => {
+  test('should report every missing required key', () => {
+    const issues = validateConfigSchema(ProtocolEnum.OKX, OKX_CONFIG_SCHEMA, {
+      okxApiKey: 'key',
+      okxSecretKey: '',
+    });
+
+    expect(issues.map(issue => issue.key)).toEqual(['okxSecretKey', 'okxPassphrase', 'okxProjectId']);
+    expect(issues[0]).toEqual({
+      protocol: ProtocolEnum.OKX,
+      key: 'okxSecretKey',
+      message: 'okxSecretKey is required: Secret key of the OKX API key',
+    });
+  });
+
+  test('should check types, URLs and patterns of the provided keys', () => {
+    const zeroX = validateConfigSchema(ProtocolEnum.ZEROX, ZEROX_CONFIG_SCHEMA, {
+      zeroXApiKey: 42,
+      zeroXBaseUrl: 'not a url',
+    });
+    const across = validateConfigSchema(ProtocolEnum.ACROSS, ACROSS_CONFIG_SCHEMA, {
+      acrossIntegratorId: 'dead',
+    });
+
+    expect(zeroX.map(issue => issue.message)).toEqual([
+      'zeroXApiKey must be a string: 0x API key from dashboard.0x.org',
+      'zeroXBaseUrl must be a valid URL: 0x swap quote endpoint',
+    ]);
+    expect(across[0]!.message).toContain('acrossIntegratorId must match');
+  });
+
+  test('should accept valid configs and ignore unknown keys', () => {
+    expect(
+      validateConfigSchema(ProtocolEnum.ZEROX, ZEROX_CONFIG_SCHEMA, {
+        zeroXApiKey: 'key',
+        zeroXBaseUrl: 'https://api.0x.org/swap/allowance-holder/quote',
+        okxApiKey: 42,
+      }),
+    ).toEqual([]);
+  });
+
+  test('should format issues with their protocol', () => {
+    const issues = validateConfigSchema(ProtocolEnum.ZEROX, ZEROX_CONFIG_SCHEMA, {});
+
+    expect(formatConfigIssues(issues)).toBe('0x: zeroXApiKey is required: 0x API key from dashboard.0x.org');
+  });
+});
@@ -0,0 +1,73 @@
+import { jest } from '@jest/globals';
+import { IHttpClient } from '../../src/interfaces/http-client';
+import { DeBridgeService } from '../../src/protocols/debridge/debridge.service';
+import { ChainIdEnum, SwapModeEnum } from '../../src/types/enums';
+import { HttpRequestConfig } from '../../src/types/http';
+import { IntentPriceParams } from '../../src/types/price-params';
+import { createPriceParams } from '../fixtures/test-data';
+
+const createClient = () => {
+  const client = {
+    get: jest.fn(async (_url: string, _config?: HttpRequestConfig) => ({
+      data: {
+        orderId: 'order',
+        estimation: {
+          srcChainTokenIn: { amount: '1005' },
+          dstChainTokenOut: { amount: '1000' },
+        },
+      },
+      status: 200,
+      headers: {},
+    })),
+    post: jest.fn(),
+  };
+  return client as typeof client & IHttpClient;
+};
+
+const exactOutParams = createPriceParams({
+  networkOut: ChainIdEnum.ARBITRUM,
+  tokenOut: '0xaf88d065e77c8cc2239327c5edb3a432268e5831',
+  amountIn: '0',
+  swapMode: SwapModeEnum.EXACT_OUT,
+  amountOut: '1000',
+});
+
+// Exposes the param validation, errors of fetchPrice go through the mocked axios
+class TestDeBridgeService extends DeBridgeService {
+  validate(params: IntentPriceParams): void {
+    this.validatePriceParams(params);
+  }
+}
+
+describe('DeBridgeService', () => {
+  test('should price exact-out orders with amountIn 0 from amountOut', async () => {
+    const client = createClient();
+    const debridge = new DeBridgeService({ httpClient: client });
+
+    const price = await debridge.fetchPrice(exactOutParams);
+
+    expect(price.amountIn).toBe('1005');
+    expect(price.amountOut).toBe('1000');
+    expect(client.get).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        params: expect.objectContaining({
+          srcChainTokenInAmount: 'auto',
+          dstChainTokenOutAmount: '1000',
+        }),
+      }),
+    );
+  });
+
+  test('should require a positive amountOut in exact-out mode', () => {
+    const debridge = new TestDeBridgeService();
+
+    expect(() => debridge.validate(exactOutParams)).not.toThrow();
+    expect(() => debridge.validate({ ...exactOutParams, amountOut: '0' })).toThrow(
+      'Amount out must be greater than 0',
+    );
+    expect(() => debridge.validate({ ...exactOutParams, swapMode: SwapModeEnum.EXACT_IN })).toThrow(
+      'Amount in must be greater than 0',
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { jest } from '@jest/globals';
+import { IHttpClient } from '../../src/interfaces/http-client';
+import { createProtocolHttpClient } from '../../src/lib/http/protocol-http-client';
+import { OdosService } from '../../src/protocols/odos/odos.service';
+import { ProtocolEnum } from '../../src/types/enums';
+import { HttpRequestConfig } from '../../src/types/http';
+import { createPriceParams } from '../fixtures/test-data';
+
+const createClient = (data: unknown = {}) => {
+  const client = {
+    get: jest.fn(async (_url: string, _config?: HttpRequestConfig) => ({
+      data,
+      status: 200,
+      headers: {},
+    })),
+    post: jest.fn(async (_url: string, _data?: unknown, _config?: HttpRequestConfig) => ({
+      data,
+      status: 200,
+      headers: {},
+    })),
+  };
+  return client as typeof client & IHttpClient;
+};
+
+describe('createProtocolHttpClient', () => {
+  test('should merge shared and per-protocol defaults under request values', async () => {
+    const client = createClient();
+    const http = createProtocolHttpClient(ProtocolEnum.ODOS, {
+      httpClient: client,
+      http: {
+        headers: { 'x-trace': 'shared', 'x-team': 'swap' },
+        timeout: 5000,
+        userAgent: 'my-app/1.0',
+        protocols: { [ProtocolEnum.ODOS]: { headers: { 'x-trace': 'odos' }, timeout: 2000 } },
+      },
+    });
+
+    await http.get('https://api.odos.xyz', { headers: { 'x-team': 'request' } });
+
+    expect(client.get).toHaveBeenCalledWith('https://api.odos.xyz', {
+      headers: { 'x-trace': 'odos', 'x-team': 'request', 'User-Agent': 'my-app/1.0 (odos)' },
+      timeout: 2000,
+    });
+  });
+
+  test('should not apply another protocol overrides', async () => {
+    const client = createClient();
+    const http = createProtocolHttpClient(ProtocolEnum.JUPITER, {
+      httpClient: client,
+      http: { protocols: { [ProtocolEnum.ODOS]: { timeout: 2000 } } },
+    });
+
+    await http.post('https://quote-api.jup.ag', { amount: '1' });
+
+    expect(client.post).toHaveBeenCalledWith(
+      'https://quote-api.jup.ag',
+      { amount: '1' },
+      { headers: {}, timeout: undefined },
+    );
+  });
+});
+
+describe('protocol services', () => {
+  test('should send their requests through the configured client', async () => {
+    const client = createClient({ outAmounts: ['42'], gasEstimate: 21000 });
+    const odos = new OdosService({ httpClient: client, http: { userAgent: 'my-app/1.0' } });
+
+    const price = await odos.fetchPrice(createPriceParams());
+
+    expect(price.amountOut).toBe('42');
+    expect(client.post).toHaveBeenCalledWith(
+      expect.stringContaining('odos'),
+      expect.anything(),
+      expect.objectContaining({ headers: { 'User-Agent': 'my-app/1.0 (odos)' } }),
+    );
+  });
+});
@@ -1,8 +1,29 @@
 import { jest } from '@jest/globals';
 import { GeniusIntents } from '../../src/genius-intents';
-import { ChainIdEnum, ProtocolEnum } from '../../src/types/enums';
+import {
+  ChainIdEnum,
+  CompositeStepTypeEnum,
+  ProtocolEnum,
+  SdkErrorEnum,
+  SwapModeEnum,
+} from '../../src/types/enums';
 import { GeniusIntentsConfig } from '../../src/types/genius-intents';
-import { createPriceParams, createQuoteParams } from '../fixtures/test-data';
+import { IIntentProtocol } from '../../src/interfaces/intent-protocol';
+import { ProtocolFactory, ProtocolId } from '../../src/types/protocol';
+import { Erc20Service } from '../../src/lib/erc20/erc20.service';
+import { sdkError } from '../../src/utils/throw-error';
+import { USDC_ADDRESSES, getIntermediateAssets } from '../../src/lib/composite/composite-route';
+import {
+  FakeProtocol,
+  FakeProtocolOptions,
+  TEST_TOKENS,
+  TEST_WALLETS,
+  createFakeProtocol,
+  createPriceParams,
+  createPriceResponse,
+  createQuoteParams,
+  createQuoteResponse,
+} from '../fixtures/test-data';
 
 // Mock the problematic ES module package
 jest.mock('@across-protocol/app-sdk', () => ({
@@ -31,7 +52,7 @@ describe('GeniusIntents', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
-    
+
     // Spy on console methods
     consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
     consoleInfoSpy = jest.spyOn(console, 'info').mockImplementation(() => {});
@@ -47,7 +68,7 @@ describe('GeniusIntents', () => {
   describe('Constructor and Initialization', () => {
     test('should initialize with default configuration', () => {
       geniusIntents = new GeniusIntents();
-      
+
       expect(geniusIntents).toBeDefined();
       expect(typeof geniusIntents.getInitializedProtocols).toBe('function');
       expect(typeof geniusIntents.fetchPrice).toBe('function');
@@ -63,7 +84,7 @@ describe('GeniusIntents', () => {
       };
 
       geniusIntents = new GeniusIntents(config);
-      
+
       expect(geniusIntents).toBeDefined();
     });
 
@@ -74,7 +95,7 @@ describe('GeniusIntents', () => {
 
       geniusIntents = new GeniusIntents(config);
       const initializedProtocols = await geniusIntents.getInitializedProtocols();
-      
+
       // Should only include Jupiter if it's available, or be empty if not
       expect(initializedProtocols.length).toBeLessThanOrEqual(1);
       if (initializedProtocols.length > 0) {
@@ -89,18 +110,18 @@ describe('GeniusIntents', () => {
 
       geniusIntents = new GeniusIntents(config);
       const initializedProtocols = await geniusIntents.getInitializedProtocols();
-      
+
       expect(initializedProtocols).not.toContain(ProtocolEnum.ODOS);
     });
 
     test('should handle protocol initialization gracefully', async () => {
       // This test verifies that the class doesn't crash when protocols fail to initialize
       geniusIntents = new GeniusIntents();
-      
+
       // The class should still be functional even if some protocols fail
       expect(geniusIntents).toBeDefined();
       expect(typeof geniusIntents.getInitializedProtocols).toBe('function');
-      
+
       // Test that we can get initialized protocols
       const protocols = await geniusIntents.getInitializedProtocols();
       expect(Array.isArray(protocols)).toBe(true);
@@ -114,20 +135,20 @@ describe('GeniusIntents', () => {
 
     test('should return list of initialized protocols', async () => {
       const protocols = await geniusIntents.getInitializedProtocols();
-      
+
       expect(Array.isArray(protocols)).toBe(true);
-      protocols.forEach((protocol: ProtocolEnum) => {
+      protocols.forEach((protocol: ProtocolId) => {
         expect(Object.values(ProtocolEnum)).toContain(protocol);
       });
     });
 
     test('should get specific protocol instance', async () => {
       const protocols = await geniusIntents.getInitializedProtocols();
-      
+
       if (protocols.length > 0) {
         const firstProtocol = protocols[0]!;
         const protocol = await geniusIntents.getProtocol(firstProtocol);
-        
+
         // Protocol might be undefined due to mocking, which is expected
         if (protocol && protocol.protocol) {
           expect(protocol.protocol).toBe(firstProtocol);
@@ -143,7 +164,7 @@ describe('GeniusIntents', () => {
 
     test('should return undefined for non-existent protocol', async () => {
       const protocol = await geniusIntents.getProtocol('NON_EXISTENT' as ProtocolEnum);
-      
+
       expect(protocol).toBeUndefined();
     });
   });
@@ -162,7 +183,7 @@ describe('GeniusIntents', () => {
       // Access the protected method through reflection
       try {
         const compatibleProtocols = (geniusIntents as any).getCompatibleProtocols(params);
-        
+
         expect(Array.isArray(compatibleProtocols)).toBe(true);
         compatibleProtocols.forEach((protocol: any) => {
           if (protocol && protocol.chains) {
@@ -184,7 +205,7 @@ describe('GeniusIntents', () => {
 
       try {
         const compatibleProtocols = (geniusIntents as any).getCompatibleProtocols(params);
-        
+
         expect(Array.isArray(compatibleProtocols)).toBe(true);
         compatibleProtocols.forEach((protocol: any) => {
           if (protocol && protocol.chains) {
@@ -232,7 +253,7 @@ describe('GeniusIntents', () => {
     test('should handle price fetching method configuration', () => {
       const bestModeInstance = new GeniusIntents({ method: 'best' });
       const raceModeInstance = new GeniusIntents({ method: 'race' });
-      
+
       expect(bestModeInstance).toBeDefined();
       expect(raceModeInstance).toBeDefined();
     });
@@ -274,7 +295,7 @@ describe('GeniusIntents', () => {
 
       geniusIntents.updateConfig(newConfig);
       const updatedProtocols = await geniusIntents.getInitializedProtocols();
-      
+
       // The protocols should be reinitialized
       expect(Array.isArray(updatedProtocols)).toBe(true);
       expect(updatedProtocols).not.toContain(ProtocolEnum.ODOS);
@@ -287,14 +308,14 @@ describe('GeniusIntents', () => {
     });
 
     test('should handle protocol service creation errors', () => {
-      const createProtocolSafely = (geniusIntents as any).createProtocolSafely;
-      
+      const createProtocolSafely = (geniusIntents as any).createProtocolSafely.bind(geniusIntents);
+
       const failingFactory = () => {
         throw new Error('Service creation failed');
       };
 
       const result = createProtocolSafely(failingFactory);
-      
+
       expect(result).toBeNull();
     });
 
@@ -334,7 +355,7 @@ describe('GeniusIntents', () => {
       ];
 
       const bestResponse = (geniusIntents as any).selectBestPriceResponse(results);
-      
+
       expect(bestResponse).toBeDefined();
       expect(bestResponse.amountOut).toBe('1900000000');
     });
@@ -349,7 +370,7 @@ describe('GeniusIntents', () => {
       ];
 
       const bestResponse = (geniusIntents as any).selectBestPriceResponse(results);
-      
+
       expect(bestResponse).toBeUndefined();
     });
   });
@@ -372,6 +393,38 @@ describe('GeniusIntents', () => {
       const instance = new GeniusIntents(config);
       expect(instance).toBeDefined();
     });
+
+    test('should time out requests still waiting for a scheduler slot', async () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: ['blocking', 'queued'],
+        method: 'best',
+        maxConcurrency: 1,
+        timeout: 50,
+        protocols: { blocking: { timeout: 1000 } },
+      });
+      geniusIntents.registerProtocol(
+        'blocking',
+        createFakeProtocol('blocking', {
+          fetchPrice: params =>
+            new Promise(resolve =>
+              setTimeout(
+                () => resolve(createPriceResponse({ ...params, protocol: 'blocking' })),
+                200,
+              ),
+            ),
+        }),
+      );
+      const queued = createFakeProtocol('queued');
+      geniusIntents.registerProtocol('queued', queued);
+
+      const results = await geniusIntents.fetchPrice(createPriceParams());
+      const queuedResult = results.allResults.find(result => result.protocol === 'queued');
+
+      expect(results.result?.protocol).toBe('blocking');
+      expect(queuedResult?.error?.message).toBe('Request timeout');
+      expect(queuedResult?.duration).toBeLessThan(200);
+      expect(queued.fetchPrice).not.toHaveBeenCalled();
+    });
   });
 
   describe('Quote Simulation', () => {
@@ -386,7 +439,7 @@ describe('GeniusIntents', () => {
       const params = createQuoteParams();
 
       await expect(geniusIntents.fetchQuote(params)).rejects.toThrow(
-        'rpcs are required for quote simulation and approval checks'
+        'rpcs are required for quote simulation and approval checks',
       );
     });
 
@@ -401,7 +454,9 @@ describe('GeniusIntents', () => {
       const responseWithoutSimulation = {
         amountOut: '1800000000',
       };
-      expect((geniusIntents as any).isQuoteSimulationStatusOk(responseWithoutSimulation)).toBe(true);
+      expect((geniusIntents as any).isQuoteSimulationStatusOk(responseWithoutSimulation)).toBe(
+        true,
+      );
 
       // Test response with successful simulation
       const responseWithSuccess = {
@@ -462,4 +517,1306 @@ describe('GeniusIntents', () => {
       expect(geniusIntents).toBeDefined();
     });
   });
-});
\ No newline at end of file
+  describe('Streaming', () => {
+    const fakeProtocol = (protocol: ProtocolEnum, amountOut: string, delay: number) =>
+      createFakeProtocol(protocol, {
+        fetchPrice: (_params, options) =>
+          new Promise((resolve, reject) => {
+            const timer = setTimeout(
+              () => resolve(createPriceResponse({ protocol, amountOut })),
+              delay,
+            );
+            options?.signal?.addEventListener('abort', () => {
+              clearTimeout(timer);
+              reject(new Error('aborted'));
+            });
+          }),
+      });
+
+    const register = (protocols: FakeProtocol[], timeout: number): GeniusIntents => {
+      const intents = new GeniusIntents({
+        timeout,
+        includeProtocols: protocols.map(protocol => protocol.protocol),
+      });
+      protocols.forEach(protocol => intents.registerProtocol(protocol.protocol, protocol));
+      return intents;
+    };
+
+    const wasAborted = (protocol: FakeProtocol): boolean | undefined =>
+      protocol.fetchPrice.mock.calls[0]![1]?.signal?.aborted;
+
+    test('should yield results as they arrive with the running best', async () => {
+      geniusIntents = register(
+        [
+          fakeProtocol(ProtocolEnum.ODOS, '100', 30),
+          fakeProtocol(ProtocolEnum.KYBERSWAP, '300', 10),
+          fakeProtocol(ProtocolEnum.OKX, '200', 20),
+        ],
+        1000,
+      );
+
+      const updates = [];
+      for await (const update of geniusIntents.streamPrices(createPriceParams())) {
+        updates.push(update);
+      }
+
+      expect(updates.map(update => update.result.protocol)).toEqual([
+        ProtocolEnum.KYBERSWAP,
+        ProtocolEnum.OKX,
+        ProtocolEnum.ODOS,
+      ]);
+      expect(updates.map(update => update.best?.protocol)).toEqual([
+        ProtocolEnum.KYBERSWAP,
+        ProtocolEnum.KYBERSWAP,
+        ProtocolEnum.KYBERSWAP,
+      ]);
+      expect(updates[2]!.completed).toBe(3);
+      expect(updates[2]!.total).toBe(3);
+    });
+
+    test('should cancel outstanding requests when the consumer breaks out', async () => {
+      const fast = fakeProtocol(ProtocolEnum.ODOS, '100', 5);
+      const slow = fakeProtocol(ProtocolEnum.KYBERSWAP, '300', 500);
+      geniusIntents = register([fast, slow], 1000);
+
+      for await (const update of geniusIntents.streamPrices(createPriceParams())) {
+        expect(update.result.protocol).toBe(ProtocolEnum.ODOS);
+        break;
+      }
+
+      expect(wasAborted(slow)).toBe(true);
+    });
+
+    test('should report timed out protocols as errors', async () => {
+      const slow = fakeProtocol(ProtocolEnum.KYBERSWAP, '300', 500);
+      geniusIntents = register([slow], 20);
+
+      const updates = [];
+      for await (const update of geniusIntents.streamPrices(createPriceParams())) {
+        updates.push(update);
+      }
+
+      expect(updates[0]!.result.error?.message).toBe('Request timeout');
+      expect(updates[0]!.best).toBeUndefined();
+      expect(wasAborted(slow)).toBe(true);
+    });
+  });
+  describe('Caching', () => {
+    test('should share in-flight requests and serve later ones from the cache', async () => {
+      geniusIntents = new GeniusIntents({
+        cache: { price: 1000 },
+        includeProtocols: [ProtocolEnum.ODOS],
+      });
+      const protocol = createFakeProtocol(ProtocolEnum.ODOS, {
+        fetchPrice: async () => createPriceResponse({ amountOut: '100' }),
+      });
+      geniusIntents.registerProtocol(ProtocolEnum.ODOS, protocol);
+
+      const [first, second] = await Promise.all([
+        geniusIntents.fetchPrice(createPriceParams()),
+        geniusIntents.fetchPrice(createPriceParams()),
+      ]);
+      const third = await geniusIntents.fetchPrice(createPriceParams());
+
+      expect(protocol.fetchPrice).toHaveBeenCalledTimes(1);
+      expect(first.cached).toBe(false);
+      expect(second.cached).toBe(false);
+      expect(third.cached).toBe(true);
+      expect(third.result?.amountOut).toBe('100');
+    });
+
+    test('should not cache quotes unless a quote ttl is configured', async () => {
+      geniusIntents = new GeniusIntents({
+        cache: { price: 1000 },
+        includeProtocols: [ProtocolEnum.ODOS],
+      });
+      const protocol = createFakeProtocol(ProtocolEnum.ODOS);
+      geniusIntents.registerProtocol(ProtocolEnum.ODOS, protocol);
+
+      await geniusIntents.fetchQuote(createQuoteParams());
+      const second = await geniusIntents.fetchQuote(createQuoteParams());
+
+      expect(protocol.fetchQuote).toHaveBeenCalledTimes(2);
+      expect(second.cached).toBe(false);
+    });
+
+    test('should not let callers change cached or shared responses', async () => {
+      geniusIntents = new GeniusIntents({
+        cache: { quote: 1000 },
+        includeProtocols: [ProtocolEnum.ODOS],
+      });
+      const protocol = createFakeProtocol(ProtocolEnum.ODOS, {
+        fetchQuote: async () =>
+          createQuoteResponse({
+            evmExecutionPayload: {
+              transactionData: { to: '0xrouter', data: '0x', value: '0' },
+              approval: { spender: '0xspender', token: '0xtoken', amount: '1' },
+            },
+          }),
+      });
+      geniusIntents.registerProtocol(ProtocolEnum.ODOS, protocol);
+
+      const [first, shared] = await Promise.all([
+        geniusIntents.fetchQuote(createQuoteParams()),
+        geniusIntents.fetchQuote(createQuoteParams()),
+      ]);
+      first.result!.simulationSuccess = false;
+      first.result!.evmExecutionPayload!.approval.required = true;
+      first.result!.evmExecutionPayload!.transactionData.gasEstimate = '21000';
+      const cached = await geniusIntents.fetchQuote(createQuoteParams());
+
+      expect(protocol.fetchQuote).toHaveBeenCalledTimes(1);
+      expect(cached.cached).toBe(true);
+      for (const { result } of [shared, cached]) {
+        expect(result).not.toBe(first.result);
+        expect(result?.simulationSuccess).toBeUndefined();
+        expect(result?.evmExecutionPayload?.approval.required).toBeUndefined();
+        expect(result?.evmExecutionPayload?.transactionData.gasEstimate).toBeUndefined();
+      }
+    });
+  });
+  describe('Circuit Breaker', () => {
+    test('should skip a failing protocol with a circuit open error', async () => {
+      geniusIntents = new GeniusIntents({
+        circuitBreaker: { minimumRequests: 2 },
+        includeProtocols: [ProtocolEnum.ODOS],
+      });
+      const protocol = createFakeProtocol(ProtocolEnum.ODOS, {
+        fetchPrice: async () => {
+          throw new Error('Service unavailable');
+        },
+      });
+      geniusIntents.registerProtocol(ProtocolEnum.ODOS, protocol);
+
+      await geniusIntents.fetchPrice(createPriceParams());
+      await geniusIntents.fetchPrice(createPriceParams());
+      const skipped = await geniusIntents.fetchPrice(createPriceParams());
+
+      expect(protocol.fetchPrice).toHaveBeenCalledTimes(2);
+      expect(skipped.allResults[0]!.error?.message).toMatch(/^CIRCUIT_OPEN/);
+      expect(geniusIntents.getProtocolHealth()).toEqual([
+        expect.objectContaining({ protocol: ProtocolEnum.ODOS, state: 'OPEN', failures: 2 }),
+      ]);
+    });
+
+    test('should keep the circuit closed when requests are rejected for bad input', async () => {
+      geniusIntents = new GeniusIntents({
+        circuitBreaker: { minimumRequests: 2 },
+        includeProtocols: [ProtocolEnum.ODOS],
+      });
+      const protocol = createFakeProtocol(ProtocolEnum.ODOS, {
+        fetchPrice: async () => {
+          throw sdkError(SdkErrorEnum.UNSUPPORTED_TOKEN, 'Token not supported');
+        },
+      });
+      geniusIntents.registerProtocol(ProtocolEnum.ODOS, protocol);
+
+      for (let i = 0; i < 3; i++) {
+        await geniusIntents.fetchPrice(createPriceParams());
+      }
+
+      expect(protocol.fetchPrice).toHaveBeenCalledTimes(3);
+      expect(geniusIntents.getProtocolHealth()).toEqual([
+        expect.objectContaining({ state: 'CLOSED', requests: 3, failures: 0 }),
+      ]);
+    });
+  });
+  describe('Retry Policy', () => {
+    test('should retry retryable failures and report the attempts', async () => {
+      geniusIntents = new GeniusIntents({
+        retry: { maxAttempts: 3, baseDelay: 1 },
+        includeProtocols: [ProtocolEnum.ODOS],
+      });
+      const unavailable = Object.assign(new Error('Service unavailable'), {
+        response: { status: 503, headers: {} },
+      });
+      const protocol = createFakeProtocol(ProtocolEnum.ODOS);
+      protocol.fetchPrice
+        .mockRejectedValueOnce(unavailable)
+        .mockResolvedValueOnce(createPriceResponse({ amountOut: '100' }));
+      geniusIntents.registerProtocol(ProtocolEnum.ODOS, protocol);
+
+      const results = await geniusIntents.fetchPrice(createPriceParams());
+
+      expect(results.result?.amountOut).toBe('100');
+      expect(results.allResults[0]!.attempts).toBe(2);
+    });
+  });
+  describe('Middleware', () => {
+    test('should transform params and responses for matching protocols only', async () => {
+      geniusIntents = new GeniusIntents({
+        middleware: [
+          {
+            protocols: [ProtocolEnum.ODOS],
+            beforePrice: ({ params }) => ({ params: { ...params, amountIn: '2000' } }),
+            afterPrice: ({ response }) => ({ ...response, amountOut: `${response.amountOut}0` }),
+          },
+        ],
+        includeProtocols: [ProtocolEnum.ODOS, ProtocolEnum.JUPITER],
+      });
+      const odos = createFakeProtocol(ProtocolEnum.ODOS, {
+        fetchPrice: async () => createPriceResponse({ amountOut: '100' }),
+      });
+      const jupiter = createFakeProtocol(ProtocolEnum.JUPITER, {
+        fetchPrice: async () =>
+          createPriceResponse({ protocol: ProtocolEnum.JUPITER, amountOut: '200' }),
+      });
+      geniusIntents.registerProtocol(ProtocolEnum.ODOS, odos);
+      geniusIntents.registerProtocol(ProtocolEnum.JUPITER, jupiter);
+
+      const results = await geniusIntents.fetchPrice(createPriceParams({ amountIn: '1000' }));
+
+      expect(odos.fetchPrice).toHaveBeenCalledWith(
+        expect.objectContaining({ amountIn: '2000' }),
+        expect.anything(),
+      );
+      expect(jupiter.fetchPrice).toHaveBeenCalledWith(
+        expect.objectContaining({ amountIn: '1000' }),
+        expect.anything(),
+      );
+      expect(results.result?.protocol).toBe(ProtocolEnum.ODOS);
+      expect(results.result?.amountOut).toBe('1000');
+    });
+
+    test('should short-circuit the protocol request and recover errors', async () => {
+      geniusIntents = new GeniusIntents({ includeProtocols: [ProtocolEnum.ODOS] });
+      const protocol = createFakeProtocol(ProtocolEnum.ODOS, {
+        fetchPrice: async () => {
+          throw new Error('Service unavailable');
+        },
+      });
+      geniusIntents.registerProtocol(ProtocolEnum.ODOS, protocol);
+
+      const remove = geniusIntents.use({
+        beforePrice: () => ({ response: createPriceResponse({ amountOut: '5' }) }),
+      });
+      const shortCircuited = await geniusIntents.fetchPrice(createPriceParams());
+
+      expect(shortCircuited.result?.amountOut).toBe('5');
+      expect(protocol.fetchPrice).not.toHaveBeenCalled();
+
+      remove();
+      geniusIntents.use({
+        onError: ({ stage, error }) =>
+          stage === 'price' && error.message === 'Service unavailable'
+            ? { response: createPriceResponse({ amountOut: '1' }) }
+            : undefined,
+      });
+      const recovered = await geniusIntents.fetchPrice(createPriceParams());
+
+      expect(protocol.fetchPrice).toHaveBeenCalledTimes(1);
+      expect(recovered.result?.amountOut).toBe('1');
+      expect(recovered.allResults[0]!.error).toBeUndefined();
+    });
+  });
+  describe('Metrics', () => {
+    test('should count requests, errors and wins by protocol', async () => {
+      const metrics = {
+        startSpan: jest.fn(() => ({
+          setAttributes: jest.fn(),
+          recordError: jest.fn(),
+          end: jest.fn(),
+        })),
+        add: jest.fn(),
+        record: jest.fn(),
+      };
+      geniusIntents = new GeniusIntents({
+        metrics,
+        includeProtocols: [ProtocolEnum.ODOS, ProtocolEnum.JUPITER],
+      });
+      geniusIntents.registerProtocol(ProtocolEnum.ODOS, createFakeProtocol(ProtocolEnum.ODOS));
+      geniusIntents.registerProtocol(
+        ProtocolEnum.JUPITER,
+        createFakeProtocol(ProtocolEnum.JUPITER, {
+          fetchPrice: async () => {
+            throw new Error('Insufficient liquidity');
+          },
+        }),
+      );
+
+      await geniusIntents.fetchPrice(createPriceParams());
+
+      expect(metrics.add).toHaveBeenCalledWith(
+        'intents.requests',
+        1,
+        expect.objectContaining({ protocol: ProtocolEnum.JUPITER }),
+      );
+      expect(metrics.add).toHaveBeenCalledWith(
+        'intents.errors',
+        1,
+        expect.objectContaining({ protocol: ProtocolEnum.JUPITER, code: 'INSUFFICIENT_LIQUIDITY' }),
+      );
+      expect(metrics.add).toHaveBeenCalledWith('intents.wins', 1, {
+        protocol: ProtocolEnum.ODOS,
+        type: 'price',
+        method: 'best',
+      });
+      expect(metrics.record).toHaveBeenCalledTimes(2);
+      expect(metrics.startSpan).toHaveBeenCalledWith('intents.selection', expect.anything());
+    });
+  });
+
+  describe('Protocol Registration', () => {
+    const createCustomProtocol = (id: string): FakeProtocol =>
+      createFakeProtocol(id, {
+        fetchPrice: async () => createPriceResponse({ protocol: id, amountOut: '42' }),
+      });
+
+    test('should select registered protocols alongside the built-in ones', async () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: ['custom-dex'],
+        protocols: { 'custom-dex': { apiKey: 'custom-key' } },
+      });
+      const custom = createCustomProtocol('custom-dex');
+      const factory = jest.fn<ProtocolFactory>(() => custom);
+
+      geniusIntents.registerProtocol('custom-dex', factory);
+      const results = await geniusIntents.fetchPrice(createPriceParams());
+
+      expect(factory).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'custom-key' }));
+      expect(await geniusIntents.getInitializedProtocols()).toEqual(['custom-dex']);
+      expect(results.result?.protocol).toBe('custom-dex');
+      expect(results.result?.amountOut).toBe('42');
+
+      expect(geniusIntents.unregisterProtocol('custom-dex')).toBe(true);
+      expect(geniusIntents.unregisterProtocol('custom-dex')).toBe(false);
+      expect(await geniusIntents.getInitializedProtocols()).toEqual([]);
+    });
+
+    test('should replace a built-in protocol until unregistered', async () => {
+      geniusIntents = new GeniusIntents({ includeProtocols: [ProtocolEnum.ODOS] });
+      const custom = createCustomProtocol(ProtocolEnum.ODOS);
+
+      await geniusIntents.getInitializedProtocols();
+      geniusIntents.registerProtocol(ProtocolEnum.ODOS, custom);
+      expect(await geniusIntents.getProtocol(ProtocolEnum.ODOS)).toBe(custom);
+
+      geniusIntents.unregisterProtocol(ProtocolEnum.ODOS);
+      const builtIn = await geniusIntents.getProtocol(ProtocolEnum.ODOS);
+      expect(builtIn).toBeDefined();
+      expect(builtIn).not.toBe(custom);
+    });
+
+    test('should reject instances whose protocol does not match the id', () => {
+      geniusIntents = new GeniusIntents();
+
+      expect(() =>
+        geniusIntents.registerProtocol('custom-dex', createCustomProtocol('other-dex')),
+      ).toThrow(SdkErrorEnum.INVALID_PARAMS);
+    });
+  });
+
+  describe('Logging', () => {
+    const createLogger = () => ({
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    });
+
+    test('should keep loggers scoped to their instance', async () => {
+      const first = createLogger();
+      const second = createLogger();
+      const firstIntents = new GeniusIntents({
+        logger: first,
+        includeProtocols: [ProtocolEnum.ODOS],
+      });
+      new GeniusIntents({ logger: second, includeProtocols: [ProtocolEnum.ODOS] });
+
+      await firstIntents.getInitializedProtocols();
+
+      expect(first.info).toHaveBeenCalled();
+      expect(second.info).not.toHaveBeenCalled();
+    });
+
+    test('should pass a logger with the request context to the protocols', async () => {
+      const logger = createLogger();
+      geniusIntents = new GeniusIntents({ logger, includeProtocols: [ProtocolEnum.ODOS] });
+      geniusIntents.registerProtocol(
+        ProtocolEnum.ODOS,
+        createFakeProtocol(ProtocolEnum.ODOS, {
+          fetchPrice: async (_params, options) => {
+            options?.logger?.info('inside odos');
+            return createPriceResponse();
+          },
+        }),
+      );
+
+      await geniusIntents.fetchPrice(createPriceParams(), { requestId: 'req-42' });
+
+      expect(logger.info).toHaveBeenCalledWith('inside odos', {
+        requestId: 'req-42',
+        chain: ChainIdEnum.ETHEREUM,
+        protocol: ProtocolEnum.ODOS,
+      });
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringContaining('compatible protocols'),
+        expect.objectContaining({ requestId: 'req-42' }),
+      );
+    });
+
+    test('should log net value scoring failures with the request context', async () => {
+      const logger = createLogger();
+      geniusIntents = new GeniusIntents({
+        logger,
+        includeProtocols: [ProtocolEnum.ODOS],
+        method: 'best',
+        scoring: 'netValue',
+      });
+      geniusIntents.registerProtocol(ProtocolEnum.ODOS, createFakeProtocol(ProtocolEnum.ODOS));
+
+      await geniusIntents.fetchPrice(createPriceParams(), { requestId: 'req-43' });
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Net value scoring unavailable'),
+        expect.objectContaining({ requestId: 'req-43' }),
+      );
+    });
+  });
+
+  describe('Config Validation', () => {
+    test('should report which protocols load and why the others are skipped', () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: [ProtocolEnum.ODOS, ProtocolEnum.ZEROX, ProtocolEnum.OKX],
+        excludeProtocols: [ProtocolEnum.OKX],
+      });
+
+      const report = geniusIntents.validateConfig();
+      const status = (protocol: ProtocolEnum) =>
+        report.protocols.find(entry => entry.protocol === protocol);
+
+      expect(report.valid).toBe(false);
+      expect(report.enabled).toEqual([ProtocolEnum.ODOS]);
+      expect(status(ProtocolEnum.OKX)).toMatchObject({
+        enabled: false,
+        reason: 'excluded',
+        issues: [],
+      });
+      expect(status(ProtocolEnum.JUPITER)).toMatchObject({
+        enabled: false,
+        reason: 'not-included',
+      });
+      expect(status(ProtocolEnum.ZEROX)).toMatchObject({
+        enabled: false,
+        reason: 'invalid-config',
+        issues: [expect.objectContaining({ key: 'zeroXApiKey' })],
+      });
+    });
+
+    test('should skip misconfigured protocols when loading', async () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: [ProtocolEnum.ODOS, ProtocolEnum.ZEROX],
+      });
+
+      expect(await geniusIntents.getInitializedProtocols()).toEqual([ProtocolEnum.ODOS]);
+    });
+
+    test('should throw at construction in strict mode', () => {
+      expect(
+        () => new GeniusIntents({ includeProtocols: [ProtocolEnum.ZEROX], strictConfig: true }),
+      ).toThrow(/INVALID_CONFIG.*zeroXApiKey is required/);
+      expect(
+        () =>
+          new GeniusIntents({
+            includeProtocols: [ProtocolEnum.ZEROX],
+            zeroXApiKey: 'key',
+            strictConfig: true,
+          }),
+      ).not.toThrow();
+    });
+  });
+
+  describe('Protocol Config', () => {
+    test('should give each protocol only its own section and the shared options', async () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: ['custom-dex'],
+        okxApiKey: 'okx-secret',
+        rpcs: { [ChainIdEnum.ETHEREUM]: 'https://eth.example' },
+        protocols: { 'custom-dex': { apiKey: 'custom-key', timeout: 500 } },
+      });
+      const factory = jest.fn<ProtocolFactory>(() => createFakeProtocol('custom-dex'));
+
+      geniusIntents.registerProtocol('custom-dex', factory);
+      await geniusIntents.getInitializedProtocols();
+
+      const config = factory.mock.calls[0]![0];
+      expect(config).toMatchObject({
+        apiKey: 'custom-key',
+        rpcs: expect.objectContaining({ [ChainIdEnum.ETHEREUM]: 'https://eth.example' }),
+      });
+      expect(config).not.toHaveProperty('okxApiKey');
+      expect(config).not.toHaveProperty('timeout');
+    });
+
+    test('should apply enabled, chains and timeout overrides', async () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: [ProtocolEnum.JUPITER, 'slow-dex', 'arbitrum-dex'],
+        timeout: 5000,
+        protocols: {
+          [ProtocolEnum.JUPITER]: { enabled: false },
+          'slow-dex': { timeout: 50 },
+          'arbitrum-dex': { chains: [ChainIdEnum.ARBITRUM] },
+        },
+      });
+      const chains = [ChainIdEnum.ETHEREUM, ChainIdEnum.ARBITRUM];
+      const arbitrumDex = createFakeProtocol('arbitrum-dex', { chains });
+      geniusIntents.registerProtocol(
+        'slow-dex',
+        createFakeProtocol('slow-dex', { chains, fetchPrice: () => new Promise(() => {}) }),
+      );
+      geniusIntents.registerProtocol('arbitrum-dex', arbitrumDex);
+
+      const results = await geniusIntents.fetchPrice(createPriceParams());
+
+      expect(await geniusIntents.getInitializedProtocols()).toEqual(['slow-dex', 'arbitrum-dex']);
+      expect(results.allResults.map(result => result.protocol)).toEqual(['slow-dex']);
+      expect(results.allResults[0]!.error?.message).toContain('timeout');
+      expect(arbitrumDex.fetchPrice).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Hot Reconfiguration', () => {
+    const okxConfig = {
+      okxApiKey: 'key',
+      okxSecretKey: 'secret',
+      okxPassphrase: 'passphrase',
+      okxProjectId: 'project',
+    };
+
+    test('should rebuild only the protocols whose config changed', async () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: [ProtocolEnum.OKX, ProtocolEnum.ODOS, ProtocolEnum.RAYDIUM_V2],
+        ...okxConfig,
+      });
+      const odos = await geniusIntents.getProtocol(ProtocolEnum.ODOS);
+      const okx = await geniusIntents.getProtocol(ProtocolEnum.OKX);
+
+      expect(geniusIntents.updateConfig({ okxApiKey: 'rotated' })).toEqual({
+        reloaded: [ProtocolEnum.OKX],
+        added: [],
+        removed: [],
+        failed: [],
+      });
+      expect(await geniusIntents.getProtocol(ProtocolEnum.OKX)).not.toBe(okx);
+      expect(await geniusIntents.getProtocol(ProtocolEnum.ODOS)).toBe(odos);
+
+      // Raydium was skipped without a Solana RPC
+      expect(
+        geniusIntents.updateConfig({ rpcs: { [ChainIdEnum.SOLANA]: 'https://solana.example' } }),
+      ).toMatchObject({ reloaded: [], added: [ProtocolEnum.RAYDIUM_V2] });
+      expect(
+        geniusIntents.updateConfig({ includeProtocols: [ProtocolEnum.OKX, ProtocolEnum.ODOS] }),
+      ).toMatchObject({ reloaded: [], removed: [ProtocolEnum.RAYDIUM_V2] });
+      expect(await geniusIntents.getProtocol(ProtocolEnum.ODOS)).toBe(odos);
+    });
+
+    test('should let in-flight requests finish on the previous instance', async () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: ['custom-dex'],
+        protocols: { 'custom-dex': { apiKey: 'old' } },
+      });
+      let release!: () => void;
+      const factory = jest.fn<ProtocolFactory>(config =>
+        createFakeProtocol('custom-dex', {
+          fetchPrice: async () => {
+            if (config['apiKey'] === 'old') {
+              await new Promise<void>(resolve => (release = resolve));
+            }
+            return createPriceResponse({
+              protocol: 'custom-dex',
+              amountOut: String(config['apiKey'] === 'old' ? 1 : 2),
+            });
+          },
+        }),
+      );
+      geniusIntents.registerProtocol('custom-dex', factory);
+      await geniusIntents.getInitializedProtocols();
+
+      const inFlight = geniusIntents.fetchPrice(createPriceParams());
+      await new Promise(resolve => setImmediate(resolve));
+      const summary = geniusIntents.updateConfig({
+        protocols: { 'custom-dex': { apiKey: 'new' } },
+      });
+      release();
+
+      expect(summary.reloaded).toEqual(['custom-dex']);
+      expect((await inFlight).result?.amountOut).toBe('1');
+      expect((await geniusIntents.fetchPrice(createPriceParams())).result?.amountOut).toBe('2');
+      expect(factory).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Route Discovery', () => {
+    const createProtocol = (protocol: string, options: FakeProtocolOptions = {}): FakeProtocol =>
+      createFakeProtocol(protocol, {
+        singleChain: false,
+        multiChain: true,
+        chains: [ChainIdEnum.ETHEREUM, ChainIdEnum.ARBITRUM],
+        ...options,
+      });
+
+    test('should list compatible protocols with their capabilities and live routes', async () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: [
+          'bridge',
+          'listed-bridge',
+          'other-bridge',
+          'same-chain',
+          ProtocolEnum.ZEROX,
+        ],
+      });
+      const getRoutes = jest.fn<NonNullable<IIntentProtocol['getRoutes']>>(async () => ({
+        supported: true,
+        tokensIn: ['0xAAAA'],
+        tokensOut: ['0xbbbb'],
+      }));
+      geniusIntents.registerProtocol(
+        'bridge',
+        createProtocol('bridge', { supportsReceiver: true }),
+      );
+      geniusIntents.registerProtocol(
+        'listed-bridge',
+        createProtocol('listed-bridge', { getRoutes }),
+      );
+      geniusIntents.registerProtocol(
+        'other-bridge',
+        createProtocol('other-bridge', { getRoutes: async () => ({ supported: false }) }),
+      );
+      geniusIntents.registerProtocol(
+        'same-chain',
+        createProtocol('same-chain', { singleChain: true, multiChain: false }),
+      );
+
+      const routes = await geniusIntents.getSupportedRoutes({
+        networkIn: ChainIdEnum.ETHEREUM,
+        networkOut: ChainIdEnum.ARBITRUM,
+        tokenIn: '0xaaaa',
+      });
+
+      expect(routes.crossChain).toBe(true);
+      expect(routes.protocols).toEqual([
+        {
+          protocol: 'bridge',
+          capabilities: {
+            singleChain: false,
+            multiChain: true,
+            exactOut: false,
+            receiver: true,
+            configured: true,
+            chains: [ChainIdEnum.ETHEREUM, ChainIdEnum.ARBITRUM],
+          },
+        },
+        expect.objectContaining({
+          protocol: 'listed-bridge',
+          routes: { supported: true, tokensIn: ['0xAAAA'], tokensOut: ['0xbbbb'] },
+        }),
+      ]);
+      expect(getRoutes).toHaveBeenCalledWith(
+        expect.objectContaining({ networkIn: ChainIdEnum.ETHEREUM, tokenIn: '0xaaaa' }),
+        expect.objectContaining({ signal: expect.any(AbortSignal) }),
+      );
+      expect(routes.unconfigured.map(status => status.protocol)).toEqual([ProtocolEnum.ZEROX]);
+
+      const unlisted = await geniusIntents.getSupportedRoutes({
+        networkIn: ChainIdEnum.ETHEREUM,
+        networkOut: ChainIdEnum.ARBITRUM,
+        tokenOut: '0xcccc',
+      });
+      expect(unlisted.protocols.map(support => support.protocol)).toEqual(['bridge']);
+    });
+
+    test('should keep a protocol whose route listing fails', async () => {
+      geniusIntents = new GeniusIntents({ includeProtocols: ['bridge'] });
+      geniusIntents.registerProtocol(
+        'bridge',
+        createProtocol('bridge', {
+          getRoutes: async () => {
+            throw new Error('listing unavailable');
+          },
+        }),
+      );
+
+      const routes = await geniusIntents.getSupportedRoutes({
+        networkIn: ChainIdEnum.ETHEREUM,
+        networkOut: ChainIdEnum.ARBITRUM,
+      });
+
+      expect(routes.protocols).toHaveLength(1);
+      expect(routes.protocols[0]!.routes).toBeUndefined();
+      expect(routes.protocols[0]!.error?.message).toContain('listing unavailable');
+    });
+  });
+
+  describe('Batch Pricing', () => {
+    const createProtocol = (protocol: string, options: FakeProtocolOptions = {}): FakeProtocol =>
+      createFakeProtocol(protocol, {
+        fetchPrice: async params =>
+          createPriceResponse({ protocol, tokenIn: params.tokenIn, amountOut: '1' }),
+        ...options,
+      });
+
+    test('should dedupe identical pairs and return results in order with per-pair errors', async () => {
+      geniusIntents = new GeniusIntents({ includeProtocols: ['dex'] });
+      const dex = createProtocol('dex');
+      geniusIntents.registerProtocol('dex', dex);
+
+      const usdcPair = createPriceParams({ tokenIn: '0xaaaa' });
+      const results = await geniusIntents.fetchPrices([
+        usdcPair,
+        createPriceParams({ tokenIn: '0xbbbb' }),
+        { ...usdcPair },
+        createPriceParams({ networkIn: ChainIdEnum.SOLANA }),
+      ]);
+
+      expect(dex.fetchPrice).toHaveBeenCalledTimes(2);
+      expect(results.map(({ results }) => results?.result?.tokenIn)).toEqual([
+        '0xaaaa',
+        '0xbbbb',
+        '0xaaaa',
+        undefined,
+      ]);
+      expect(results[2]!.params).not.toBe(usdcPair);
+      expect(results[3]!.error?.message).toContain('No compatible protocols');
+    });
+
+    test('should price pairs through a batch endpoint and fall back for unpriced pairs', async () => {
+      geniusIntents = new GeniusIntents({ includeProtocols: ['batch-dex'] });
+      const fetchPrices = jest.fn<NonNullable<IIntentProtocol['fetchPrices']>>(async paramsList =>
+        paramsList.map(params =>
+          params.tokenIn === '0xaaaa'
+            ? createPriceResponse({
+                protocol: 'batch-dex',
+                tokenIn: params.tokenIn,
+                amountOut: '5',
+              })
+            : new Error('no price'),
+        ),
+      );
+      const batchDex = createProtocol('batch-dex', { fetchPrices });
+      geniusIntents.registerProtocol('batch-dex', batchDex);
+
+      const results = await geniusIntents.fetchPrices([
+        createPriceParams({ tokenIn: '0xaaaa' }),
+        createPriceParams({ tokenIn: '0xbbbb' }),
+      ]);
+
+      expect(fetchPrices).toHaveBeenCalledTimes(1);
+      expect(fetchPrices.mock.calls[0]![0]).toHaveLength(2);
+      expect(batchDex.fetchPrice).toHaveBeenCalledTimes(1);
+      expect(batchDex.fetchPrice).toHaveBeenCalledWith(
+        expect.objectContaining({ tokenIn: '0xbbbb' }),
+        expect.anything(),
+      );
+      expect(results.map(({ results }) => results?.result?.amountOut)).toEqual(['5', '1']);
+    });
+
+    test('should rank batch estimates behind routed prices', async () => {
+      geniusIntents = new GeniusIntents({ includeProtocols: ['batch-dex', 'dex'] });
+      geniusIntents.registerProtocol(
+        'batch-dex',
+        createProtocol('batch-dex', {
+          fetchPrices: async paramsList =>
+            paramsList.map(() =>
+              createPriceResponse({ protocol: 'batch-dex', amountOut: '10', estimate: true }),
+            ),
+        }),
+      );
+      geniusIntents.registerProtocol('dex', createProtocol('dex'));
+
+      const [priced] = await geniusIntents.fetchPrices([createPriceParams()]);
+
+      expect(priced!.results?.result?.protocol).toBe('dex');
+      expect(priced!.results?.ranking?.map(entry => entry.result.protocol)).toEqual([
+        'dex',
+        'batch-dex',
+      ]);
+    });
+  });
+
+  describe('Exact Output', () => {
+    const createProtocol = (protocol: string, amountIn: string, supportsExactOut = true) =>
+      createFakeProtocol(protocol, {
+        supportsExactOut,
+        fetchPrice: async params =>
+          createPriceResponse({ protocol, amountIn, amountOut: params.amountOut }),
+      });
+
+    test('should skip protocols without exact-out support and select the lowest amountIn', async () => {
+      geniusIntents = new GeniusIntents({ includeProtocols: ['cheap', 'expensive', 'exact-in'] });
+      const exactIn = createProtocol('exact-in', '1', false);
+      geniusIntents.registerProtocol('cheap', createProtocol('cheap', '990'));
+      geniusIntents.registerProtocol('expensive', createProtocol('expensive', '1000'));
+      geniusIntents.registerProtocol('exact-in', exactIn);
+
+      const results = await geniusIntents.fetchPrice(
+        createPriceParams({ amountIn: '0', swapMode: SwapModeEnum.EXACT_OUT, amountOut: '500' }),
+      );
+
+      expect(exactIn.fetchPrice).not.toHaveBeenCalled();
+      expect(results.allResults).toHaveLength(2);
+      expect(results.result).toMatchObject({
+        protocol: 'cheap',
+        amountIn: '990',
+        amountOut: '500',
+      });
+    });
+
+    test('should require amountOut in exact-out mode', async () => {
+      await expect(
+        geniusIntents.fetchPrice(createPriceParams({ swapMode: SwapModeEnum.EXACT_OUT })),
+      ).rejects.toThrow('amountOut is required');
+    });
+  });
+
+  describe('Split Routing', () => {
+    // Output shrinks with size so no single protocol fills a large order best
+    const getAmountOut = (amountIn: string, capacity: bigint): string => {
+      const amount = BigInt(amountIn);
+      return (amount - (amount * amount) / capacity).toString();
+    };
+
+    const createProtocol = (protocol: string, capacity: bigint) =>
+      createFakeProtocol(protocol, {
+        fetchPrice: async params =>
+          createPriceResponse({
+            protocol,
+            amountIn: params.amountIn,
+            amountOut: getAmountOut(params.amountIn, capacity),
+          }),
+        fetchQuote: async params =>
+          createQuoteResponse({
+            protocol,
+            tokenIn: params.tokenIn,
+            from: params.from,
+            networkIn: params.networkIn,
+            amountIn: params.amountIn,
+            amountOut: getAmountOut(params.amountIn, capacity),
+            evmExecutionPayload: {
+              transactionData: { to: '0xrouter', data: '0x', value: '0' },
+              approval: {
+                spender: '0x1111111111111111111111111111111111111111',
+                token: params.tokenIn,
+                amount: params.amountIn,
+              },
+            },
+          }),
+      });
+
+    const quoteParams = createQuoteParams({
+      tokenIn: TEST_TOKENS[ChainIdEnum.ETHEREUM].USDC,
+      tokenOut: TEST_TOKENS[ChainIdEnum.ETHEREUM].ETH,
+      amountIn: '1000',
+    });
+
+    test('should split the order and quote every leg with its own price response', async () => {
+      geniusIntents = new GeniusIntents({ includeProtocols: ['first', 'second'] });
+      const first = createProtocol('first', BigInt(4000));
+      const second = createProtocol('second', BigInt(4000));
+      geniusIntents.registerProtocol('first', first);
+      geniusIntents.registerProtocol('second', second);
+
+      const split = await geniusIntents.fetchSplitQuote(quoteParams);
+
+      expect(first.fetchPrice).toHaveBeenCalledTimes(4);
+      expect(split.priceResults).toHaveLength(8);
+      expect(split.legs.map(leg => [leg.index, leg.protocol, leg.amountIn])).toEqual([
+        [0, 'first', '500'],
+        [1, 'second', '500'],
+      ]);
+      expect(split.amountOut).toBe('876');
+      expect(first.fetchQuote.mock.calls[0]![0]).toMatchObject({
+        amountIn: '500',
+        priceResponse: { protocol: 'first', amountIn: '500' },
+      });
+      expect(split.legs[0]!.quote.evmExecutionPayload?.approval.txnData?.to).toBe(
+        quoteParams.tokenIn,
+      );
+    });
+
+    test('should keep a single leg when one protocol is much deeper', async () => {
+      geniusIntents = new GeniusIntents({ includeProtocols: ['deep', 'shallow'] });
+      geniusIntents.registerProtocol('deep', createProtocol('deep', BigInt(1000000)));
+      geniusIntents.registerProtocol('shallow', createProtocol('shallow', BigInt(2000)));
+
+      const split = await geniusIntents.fetchSplitQuote(quoteParams, { parts: 5 });
+
+      expect(split.legs).toHaveLength(1);
+      expect(split.legs[0]).toMatchObject({ protocol: 'deep', parts: 5, amountIn: '1000' });
+    });
+
+    test('should require an approval once earlier legs spent the allowance', async () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: ['first', 'second'],
+        rpcs: { [ChainIdEnum.ETHEREUM]: 'http://localhost:8545' },
+      });
+      geniusIntents.registerProtocol('first', createProtocol('first', BigInt(4000)));
+      geniusIntents.registerProtocol('second', createProtocol('second', BigInt(4000)));
+      const allowance = jest
+        .spyOn(Erc20Service.prototype, 'allowance')
+        .mockResolvedValue(BigInt(600));
+
+      try {
+        const split = await geniusIntents.fetchSplitQuote(quoteParams);
+
+        expect(allowance).toHaveBeenCalledTimes(1);
+        expect(split.legs.map(leg => leg.quote.evmExecutionPayload?.approval.required)).toEqual([
+          false,
+          true,
+        ]);
+      } finally {
+        allowance.mockRestore();
+      }
+    });
+
+    test('should reject exact-out orders', async () => {
+      await expect(
+        geniusIntents.fetchSplitQuote(
+          createQuoteParams({ swapMode: SwapModeEnum.EXACT_OUT, amountOut: '500' }),
+        ),
+      ).rejects.toThrow('exact-in');
+    });
+  });
+
+  describe('Net Value Scoring', () => {
+    const createProtocol = (protocol: string, amountOut: string, spender: string) =>
+      createFakeProtocol(protocol, {
+        fetchQuote: async params =>
+          createQuoteResponse({
+            protocol,
+            tokenIn: params.tokenIn,
+            tokenOut: params.tokenOut,
+            amountIn: params.amountIn,
+            amountOut,
+            evmExecutionPayload: {
+              transactionData: { to: '0xrouter', data: '0x', value: '0', gasEstimate: '150000' },
+              approval: { spender, token: params.tokenIn, amount: params.amountIn },
+            },
+          }),
+      });
+
+    test('should charge the approval gas of candidates lacking an allowance', async () => {
+      const approvedSpender = '0x1111111111111111111111111111111111111111';
+      geniusIntents = new GeniusIntents({
+        includeProtocols: ['unapproved', 'approved'],
+        method: 'best',
+        scoring: 'netValue',
+        rpcs: { [ChainIdEnum.ETHEREUM]: 'http://localhost:8545' },
+        // 46k approval gas at 10 gwei costs 0.00046 ETH
+        getGasPrice: async () => BigInt(10000000000),
+      });
+      geniusIntents.registerProtocol(
+        'unapproved',
+        createProtocol(
+          'unapproved',
+          '1000100000000000000',
+          '0x2222222222222222222222222222222222222222',
+        ),
+      );
+      geniusIntents.registerProtocol(
+        'approved',
+        createProtocol('approved', '1000000000000000000', approvedSpender),
+      );
+      const allowance = jest
+        .spyOn(Erc20Service.prototype, 'allowance')
+        .mockImplementation(async (_owner, spender) =>
+          spender === approvedSpender ? BigInt(10) ** BigInt(30) : BigInt(0),
+        );
+
+      try {
+        const response = await geniusIntents.fetchQuote(
+          createQuoteParams({
+            tokenIn: TEST_TOKENS[ChainIdEnum.ETHEREUM].USDC,
+            tokenOut: TEST_TOKENS[ChainIdEnum.ETHEREUM].ETH,
+            amountIn: '1000000000',
+          }),
+        );
+
+        expect(allowance).toHaveBeenCalledTimes(2);
+        expect(response.result?.protocol).toBe('approved');
+        expect(response.result?.evmExecutionPayload?.approval.required).toBe(false);
+        expect(response.ranking?.[1]?.result.score?.approvalGas).toBe('46000');
+      } finally {
+        allowance.mockRestore();
+      }
+    });
+  });
+
+  describe('Composite Routes', () => {
+    const WBTC = '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599';
+    const ARB = '0x912ce59144191c1204e64559fe8253a0e49e6548';
+
+    const createProtocol = (
+      protocol: string,
+      chains: ChainIdEnum[],
+      rate: bigint,
+      multiChain = false,
+    ): FakeProtocol =>
+      createFakeProtocol(protocol, {
+        singleChain: !multiChain,
+        multiChain,
+        chains,
+        fetchQuote: async params => {
+          if (multiChain && params.tokenIn !== USDC_ADDRESSES[ChainIdEnum.ETHEREUM]) {
+            throw new Error('Unsupported bridge token');
+          }
+          return createQuoteResponse({
+            protocol,
+            networkIn: params.networkIn,
+            networkOut: params.networkOut,
+            tokenIn: params.tokenIn,
+            tokenOut: params.tokenOut,
+            amountIn: params.amountIn,
+            amountOut: (BigInt(params.amountIn) * rate).toString(),
+            slippage: params.slippage,
+          });
+        },
+      });
+
+    const createIntents = () => {
+      const intents = new GeniusIntents({ includeProtocols: ['swap-in', 'bridge', 'swap-out'] });
+      const protocols = {
+        swapIn: createProtocol('swap-in', [ChainIdEnum.ETHEREUM], BigInt(50000)),
+        bridge: createProtocol(
+          'bridge',
+          [ChainIdEnum.ETHEREUM, ChainIdEnum.ARBITRUM],
+          BigInt(1),
+          true,
+        ),
+        swapOut: createProtocol('swap-out', [ChainIdEnum.ARBITRUM], BigInt(2)),
+      };
+      intents.registerProtocol('swap-in', protocols.swapIn);
+      intents.registerProtocol('bridge', protocols.bridge);
+      intents.registerProtocol('swap-out', protocols.swapOut);
+      return { intents, protocols };
+    };
+
+    test('should chain a source swap, a bridge and a destination swap', async () => {
+      const { intents, protocols } = createIntents();
+
+      const composite = await intents.fetchCompositeQuote(
+        createQuoteParams({
+          networkOut: ChainIdEnum.ARBITRUM,
+          tokenIn: WBTC,
+          tokenOut: ARB,
+          amountIn: '1000',
+          slippage: 1,
+        }),
+      );
+
+      expect(composite.route.intermediate.symbol).toBe('USDC');
+      expect(composite.route.steps.map(step => [step.type, step.protocol, step.amountIn])).toEqual([
+        [CompositeStepTypeEnum.SOURCE_SWAP, 'swap-in', '1000'],
+        [CompositeStepTypeEnum.BRIDGE, 'bridge', '49500000'],
+        [CompositeStepTypeEnum.DESTINATION_SWAP, 'swap-out', '49005000'],
+      ]);
+      expect(composite.route.amountOut).toBe('98010000');
+      expect(composite.route.minAmountOut).toBe('97029900');
+      expect(composite.route.slippage).toBeCloseTo(2.9701);
+      expect(protocols.bridge.fetchQuote.mock.calls[0]![0]).toMatchObject({
+        networkIn: ChainIdEnum.ETHEREUM,
+        networkOut: ChainIdEnum.ARBITRUM,
+        tokenOut: USDC_ADDRESSES[ChainIdEnum.ARBITRUM],
+      });
+      expect(composite.failures.map(failure => failure.intermediate.symbol)).toEqual(['native']);
+    });
+
+    test('should skip the source swap when tokenIn is the intermediate asset', async () => {
+      const { intents, protocols } = createIntents();
+
+      const composite = await intents.fetchCompositeQuote(
+        createQuoteParams({
+          networkOut: ChainIdEnum.ARBITRUM,
+          tokenIn: USDC_ADDRESSES[ChainIdEnum.ETHEREUM],
+          tokenOut: ARB,
+          amountIn: '1000',
+          slippage: 1,
+        }),
+        {
+          intermediates: getIntermediateAssets(ChainIdEnum.ETHEREUM, ChainIdEnum.ARBITRUM).filter(
+            asset => asset.symbol === 'USDC',
+          ),
+        },
+      );
+
+      expect(protocols.swapIn.fetchQuote).not.toHaveBeenCalled();
+      expect(composite.route.steps.map(step => step.type)).toEqual([
+        CompositeStepTypeEnum.BRIDGE,
+        CompositeStepTypeEnum.DESTINATION_SWAP,
+      ]);
+    });
+
+    test('should send the destination swap to the sender without a receiver', async () => {
+      const { intents, protocols } = createIntents();
+
+      await intents.fetchCompositeQuote(
+        createQuoteParams({
+          networkOut: ChainIdEnum.ARBITRUM,
+          tokenIn: WBTC,
+          tokenOut: ARB,
+          amountIn: '1000',
+          slippage: 1,
+          receiver: undefined,
+        }),
+      );
+
+      expect(protocols.bridge.fetchQuote.mock.calls[0]![0]).toMatchObject({
+        from: TEST_WALLETS.EVM,
+        receiver: TEST_WALLETS.EVM,
+      });
+      expect(protocols.swapOut.fetchQuote.mock.calls[0]![0]).toMatchObject({
+        from: TEST_WALLETS.EVM,
+        receiver: TEST_WALLETS.EVM,
+      });
+    });
+
+    test('should reject same-chain swaps', async () => {
+      const { intents } = createIntents();
+
+      await expect(intents.fetchCompositeQuote(createQuoteParams({ slippage: 1 }))).rejects.toThrow(
+        'across chains',
+      );
+    });
+  });
+
+  describe('Two-Phase Quotes', () => {
+    const createProtocol = (protocol: string, amountOut: string) =>
+      createFakeProtocol(protocol, {
+        fetchPrice: async () => createPriceResponse({ protocol, amountOut }),
+        fetchQuote: async params =>
+          createQuoteResponse({
+            protocol,
+            amountOut: params.priceResponse?.amountOut ?? amountOut,
+          }),
+      });
+
+    test('should only quote the top ranked protocols with their own price response', async () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: ['best', 'second', 'worst'],
+        quoteTopK: 2,
+      });
+      const best = createProtocol('best', '1003');
+      const second = createProtocol('second', '1002');
+      const worst = createProtocol('worst', '1001');
+      geniusIntents.registerProtocol('best', best);
+      geniusIntents.registerProtocol('second', second);
+      geniusIntents.registerProtocol('worst', worst);
+
+      const results = await geniusIntents.fetchQuote(createQuoteParams());
+
+      expect(results.priceResults).toHaveLength(3);
+      expect(results.allResults.map(result => result.protocol)).toEqual(['best', 'second']);
+      expect(worst.fetchQuote).not.toHaveBeenCalled();
+      expect(best.fetchQuote.mock.calls[0]![0]).toMatchObject({
+        priceResponse: { protocol: 'best', amountOut: '1003' },
+      });
+      expect(second.fetchQuote.mock.calls[0]![0]).toMatchObject({
+        priceResponse: { protocol: 'second' },
+      });
+      expect(results.result?.protocol).toBe('best');
+    });
+
+    test('should throw with the price results when no protocol can be priced', async () => {
+      geniusIntents = new GeniusIntents({
+        includeProtocols: ['first', 'second'],
+        quoteTopK: 1,
+        method: 'race',
+      });
+      const failing = (protocol: string): FakeProtocol =>
+        createFakeProtocol(protocol, {
+          fetchPrice: async () => {
+            throw new Error('Insufficient liquidity');
+          },
+        });
+      const first = failing('first');
+      geniusIntents.registerProtocol('first', first);
+      geniusIntents.registerProtocol('second', failing('second'));
+
+      await expect(geniusIntents.fetchQuote(createQuoteParams())).rejects.toMatchObject({
+        code: SdkErrorEnum.QUOTE_NOT_FOUND,
+        details: {
+          priceResults: [
+            expect.objectContaining({ protocol: 'first', error: expect.any(Error) }),
+            expect.objectContaining({ protocol: 'second', error: expect.any(Error) }),
+          ],
+        },
+      });
+      expect(first.fetchQuote).not.toHaveBeenCalled();
+    });
+
+    test('should quote every protocol without quoteTopK', async () => {
+      geniusIntents = new GeniusIntents({ includeProtocols: ['best', 'worst'] });
+      const best = createProtocol('best', '1003');
+      const worst = createProtocol('worst', '1001');
+      geniusIntents.registerProtocol('best', best);
+      geniusIntents.registerProtocol('worst', worst);
+
+      const results = await geniusIntents.fetchQuote(createQuoteParams());
+
+      expect(best.fetchPrice).not.toHaveBeenCalled();
+      expect(results.priceResults).toBeUndefined();
+      expect(results.allResults).toHaveLength(2);
+    });
+  });
+
+  describe('Prior Price Responses', () => {
+    const createProtocol = (protocol: string, amountOut: string) =>
+      createFakeProtocol(protocol, {
+        fetchPrice: async () => createPriceResponse({ protocol, amountOut }),
+        fetchQuote: async () => createQuoteResponse({ protocol, amountOut }),
+      });
+
+    const createIntents = () => {
+      const intents = new GeniusIntents({ includeProtocols: ['first', 'second'] });
+      const first = createProtocol('first', '1001');
+      const second = createProtocol('second', '1002');
+      intents.registerProtocol('first', first);
+      intents.registerProtocol('second', second);
+      return { intents, first, second };
+    };
+
+    test('should give each protocol its own response of a prior price result set', async () => {
+      const { intents, first, second } = createIntents();
+      const prices = await intents.fetchPrice(createPriceParams());
+
+      await intents.fetchQuote({ ...createQuoteParams(), priceResponse: prices });
+
+      expect(first.fetchQuote.mock.calls[0]![0]).toMatchObject({
+        priceResponse: { protocol: 'first', amountOut: '1001' },
+      });
+      expect(second.fetchQuote.mock.calls[0]![0]).toMatchObject({
+        priceResponse: { protocol: 'second', amountOut: '1002' },
+      });
+    });
+
+    test('should route a protocol map and a single response to their owners only', async () => {
+      const { intents, first, second } = createIntents();
+      const prices = await intents.fetchPrice(createPriceParams());
+      const secondPrice = prices.allResults.find(result => result.protocol === 'second')!.response;
+
+      await intents.fetchQuote({ ...createQuoteParams(), priceResponse: { second: secondPrice } });
+      await intents.fetchQuote({ ...createQuoteParams(), priceResponse: secondPrice });
+
+      expect(first.fetchQuote.mock.calls.map(call => call[0])).toEqual([
+        expect.objectContaining({ priceResponse: undefined }),
+        expect.objectContaining({ priceResponse: undefined }),
+      ]);
+      expect(second.fetchQuote.mock.calls.map(call => call[0])).toEqual([
+        expect.objectContaining({ priceResponse: secondPrice }),
+        expect.objectContaining({ priceResponse: secondPrice }),
+      ]);
+    });
+
+    test('should not price protocols again when quoteTopK reuses prior responses', async () => {
+      const { intents, first, second } = createIntents();
+      const prices = await intents.fetchPrice(createPriceParams());
+      intents.updateConfig({ quoteTopK: 1 });
+
+      const results = await intents.fetchQuote({ ...createQuoteParams(), priceResponse: prices });
+
+      expect(first.fetchPrice).toHaveBeenCalledTimes(1);
+      expect(second.fetchPrice).toHaveBeenCalledTimes(1);
+      expect(first.fetchQuote).not.toHaveBeenCalled();
+      expect(results.result?.protocol).toBe('second');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { jest } from '@jest/globals';
+import {
+  ChildLogger,
+  ConsoleLogger,
+  ILogger,
+  LoggerFactory,
+  NoOpLogger,
+} from '../../src/utils/logger';
+
+const createLogger = () => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+});
+
+describe('logger', () => {
+  afterEach(() => {
+    LoggerFactory.configure(new NoOpLogger());
+  });
+
+  test('should add the context to the meta of every line', () => {
+    const parent = createLogger();
+    const child = LoggerFactory.createChildLogger(parent, { requestId: 'req-1', chain: 1 });
+    const error = new Error('boom');
+
+    child.info('fetching', { amountIn: '1' });
+    child.error('failed', error);
+
+    expect(parent.info).toHaveBeenCalledWith('fetching', {
+      requestId: 'req-1',
+      chain: 1,
+      amountIn: '1',
+    });
+    expect(parent.error).toHaveBeenCalledWith('failed', error, { requestId: 'req-1', chain: 1 });
+  });
+
+  test('should merge nested contexts into a single child', () => {
+    const parent = createLogger();
+    const request = LoggerFactory.createChildLogger(parent, { requestId: 'req-1' });
+    const protocol = LoggerFactory.createChildLogger(request, { protocol: 'odos' });
+
+    protocol.debug('request sent');
+
+    expect((protocol as ChildLogger).context).toEqual({ requestId: 'req-1', protocol: 'odos' });
+    expect(parent.debug).toHaveBeenCalledWith('request sent', {
+      requestId: 'req-1',
+      protocol: 'odos',
+    });
+  });
+
+  test('should resolve instance loggers without changing the process default', () => {
+    const custom: ILogger = createLogger();
+
+    expect(LoggerFactory.fromConfig({ logger: custom })).toBe(custom);
+    expect(LoggerFactory.fromConfig({ debug: true })).toBeInstanceOf(ConsoleLogger);
+    expect(LoggerFactory.getLogger()).toBeInstanceOf(NoOpLogger);
+
+    LoggerFactory.configure(custom);
+    expect(LoggerFactory.fromConfig()).toBe(custom);
+  });
+});
@@ -0,0 +1,78 @@
+import { jest } from '@jest/globals';
+import { NoOpSpan, OpenTelemetryMetrics, withSpan } from '../../src/utils/metrics';
+
+const createTracer = () => {
+  const span = {
+    setAttributes: jest.fn(),
+    recordException: jest.fn(),
+    setStatus: jest.fn(),
+    end: jest.fn(),
+  };
+  return { span, tracer: { startSpan: jest.fn(() => span) } };
+};
+
+const createMeter = () => {
+  const counter = { add: jest.fn() };
+  const histogram = { record: jest.fn() };
+  return {
+    counter,
+    histogram,
+    meter: {
+      createCounter: jest.fn(() => counter),
+      createHistogram: jest.fn(() => histogram),
+    },
+  };
+};
+
+describe('OpenTelemetryMetrics', () => {
+  test('should create each instrument once and forward values', () => {
+    const { counter, histogram, meter } = createMeter();
+    const metrics = new OpenTelemetryMetrics({ meter });
+
+    metrics.add('intents.requests', 1, { protocol: 'odos' });
+    metrics.add('intents.requests', 1, { protocol: 'jupiter' });
+    metrics.record('intents.latency', 120, { protocol: 'odos' });
+
+    expect(meter.createCounter).toHaveBeenCalledTimes(1);
+    expect(counter.add).toHaveBeenLastCalledWith(1, { protocol: 'jupiter' });
+    expect(histogram.record).toHaveBeenCalledWith(120, { protocol: 'odos' });
+  });
+
+  test('should mark spans as failed when recording an error', () => {
+    const { span, tracer } = createTracer();
+    const metrics = new OpenTelemetryMetrics({ tracer });
+
+    const started = metrics.startSpan('intents.price', { protocol: 'odos' });
+    started.recordError(new Error('boom'));
+    started.end();
+
+    expect(tracer.startSpan).toHaveBeenCalledWith('intents.price', {
+      attributes: { protocol: 'odos' },
+    });
+    expect(span.setStatus).toHaveBeenCalledWith({ code: 2, message: 'boom' });
+    expect(span.end).toHaveBeenCalled();
+  });
+
+  test('should fall back to no-op spans without a tracer', () => {
+    const metrics = new OpenTelemetryMetrics({});
+
+    expect(metrics.startSpan('intents.price')).toBeInstanceOf(NoOpSpan);
+    expect(() => metrics.add('intents.requests', 1)).not.toThrow();
+  });
+});
+
+describe('withSpan', () => {
+  test('should record the error and end the span when the task fails', async () => {
+    const { span, tracer } = createTracer();
+    const metrics = new OpenTelemetryMetrics({ tracer });
+
+    await expect(
+      withSpan(metrics, 'intents.simulation', {}, async () => {
+        throw new Error('failed');
+      }),
+    ).rejects.toThrow('failed');
+
+    expect(span.recordException).toHaveBeenCalled();
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,102 @@
+import { MiddlewarePipeline } from '../../src/lib/middleware/middleware-pipeline';
+import { ProtocolEnum } from '../../src/types/enums';
+import { QuoteResponse } from '../../src/types/quote-response';
+import { createPriceParams, createQuoteParams } from '../fixtures/test-data';
+
+const quote = (amountOut: string): QuoteResponse =>
+  ({ protocol: ProtocolEnum.ODOS, amountOut }) as QuoteResponse;
+
+describe('MiddlewarePipeline', () => {
+  test('should only apply middleware registered for the protocol', () => {
+    const pipeline = new MiddlewarePipeline([{ protocols: [ProtocolEnum.JUPITER] }]);
+
+    expect(pipeline.has(ProtocolEnum.JUPITER)).toBe(true);
+    expect(pipeline.has(ProtocolEnum.ODOS)).toBe(false);
+
+    const remove = pipeline.use({});
+    expect(pipeline.has(ProtocolEnum.ODOS)).toBe(true);
+
+    remove();
+    expect(pipeline.has(ProtocolEnum.ODOS)).toBe(false);
+  });
+
+  test('should chain params through before hooks and stop at a response', async () => {
+    const calls: string[] = [];
+    const pipeline = new MiddlewarePipeline([
+      {
+        beforeQuote: ({ params }) => {
+          calls.push('first');
+          return { params: { ...params, slippage: 50 } };
+        },
+      },
+      {
+        beforeQuote: ({ params }) => {
+          calls.push(`second:${params.slippage}`);
+          return { response: quote('42') };
+        },
+      },
+      {
+        beforeQuote: () => {
+          calls.push('third');
+        },
+      },
+    ]);
+
+    const result = await pipeline.before('quote', {
+      protocol: ProtocolEnum.ODOS,
+      params: createQuoteParams({ slippage: 100 }),
+    });
+
+    expect(calls).toEqual(['first', 'second:50']);
+    expect(result.params.slippage).toBe(50);
+    expect(result.response?.amountOut).toBe('42');
+  });
+
+  test('should keep the response when an after hook returns nothing', async () => {
+    const pipeline = new MiddlewarePipeline([
+      { afterQuote: ({ response }) => ({ ...response, amountOut: '2' }) },
+      { afterQuote: () => undefined },
+    ]);
+
+    const response = await pipeline.after('quote', {
+      protocol: ProtocolEnum.ODOS,
+      params: createQuoteParams(),
+      response: quote('1'),
+    });
+
+    expect(response.amountOut).toBe('2');
+  });
+
+  test('should skip simulation when a hook asks for it', async () => {
+    const pipeline = new MiddlewarePipeline([{ beforeSimulate: () => ({ skip: true }) }]);
+
+    const result = await pipeline.beforeSimulate({
+      protocol: ProtocolEnum.ODOS,
+      params: createQuoteParams(),
+      response: quote('1'),
+    });
+
+    expect(result).toEqual({ response: quote('1'), skip: true });
+  });
+
+  test('should replace errors with the ones thrown or returned by error hooks', async () => {
+    const pipeline = new MiddlewarePipeline([
+      {
+        onError: () => {
+          throw new Error('thrown by hook');
+        },
+      },
+      { onError: ({ error }) => ({ error: new Error(`${error.message}, wrapped`) }) },
+    ]);
+
+    const result = await pipeline.onError({
+      stage: 'price',
+      protocol: ProtocolEnum.ODOS,
+      params: createPriceParams(),
+      error: new Error('original'),
+    });
+
+    expect(result.response).toBeUndefined();
+    expect(result.error?.message).toBe('thrown by hook, wrapped');
+  });
+});
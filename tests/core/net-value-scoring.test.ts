@@ -0,0 +1,58 @@
+import { DEFAULT_APPROVAL_GAS, scoreNetValue } from '../../src/lib/scoring/net-value';
+import { ProtocolEnum } from '../../src/types/enums';
+import { QuoteResponse } from '../../src/types/quote-response';
+
+const GWEI = BigInt(10) ** BigInt(9);
+// 1 ETH = 2000 USDC (6 decimals)
+const ETH_USDC_RATE = BigInt(2000) * BigInt(10) ** BigInt(6);
+
+const quote = (amountOut: string, gasEstimate: string, approvalRequired?: boolean): QuoteResponse =>
+  ({
+    protocol: ProtocolEnum.ODOS,
+    networkIn: 1,
+    networkOut: 1,
+    tokenIn: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE',
+    tokenOut: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    amountIn: '1000000000000000000',
+    amountOut,
+    slippage: 1,
+    from: '0x0000000000000000000000000000000000000001',
+    receiver: '0x0000000000000000000000000000000000000001',
+    evmExecutionPayload: {
+      transactionData: { to: '0x', data: '0x', value: '0', gasEstimate },
+      approval: { spender: '0x', token: '0x', amount: '0', required: approvalRequired },
+    },
+    protocolResponse: {},
+  }) as unknown as QuoteResponse;
+
+describe('scoreNetValue', () => {
+  test('should subtract the gas cost converted into tokenOut', () => {
+    const score = scoreNetValue(quote('2000000000', '150000'), BigInt(20) * GWEI, ETH_USDC_RATE);
+
+    // 150k gas * 20 gwei = 0.003 ETH = 6 USDC
+    expect(score.gasCostNative).toBe('3000000000000000');
+    expect(score.gasCostOut).toBe('6000000');
+    expect(score.netAmountOut).toBe('1994000000');
+    expect(score.approvalGas).toBe('0');
+  });
+
+  test('should rank a cheaper route above a slightly larger but gas heavy one', () => {
+    const gasPrice = BigInt(30) * GWEI;
+    const larger = scoreNetValue(quote('2002000000', '450000'), gasPrice, ETH_USDC_RATE);
+    const cheaper = scoreNetValue(quote('2000000000', '150000'), gasPrice, ETH_USDC_RATE);
+
+    expect(BigInt(cheaper.netAmountOut)).toBeGreaterThan(BigInt(larger.netAmountOut));
+  });
+
+  test('should include approval gas only when an approval is required', () => {
+    const withApproval = scoreNetValue(quote('2000000000', '150000', true), GWEI, ETH_USDC_RATE);
+    const withoutApproval = scoreNetValue(
+      quote('2000000000', '150000', false),
+      GWEI,
+      ETH_USDC_RATE,
+    );
+
+    expect(withApproval.approvalGas).toBe(DEFAULT_APPROVAL_GAS.toString());
+    expect(withoutApproval.approvalGas).toBe('0');
+  });
+});
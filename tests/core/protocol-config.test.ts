@@ -0,0 +1,72 @@
+import {
+  getProtocolOverrides,
+  hasProtocolConfigChanged,
+  resolveProtocolConfig,
+} from '../../src/lib/config/protocol-config';
+import { ChainIdEnum, ProtocolEnum } from '../../src/types/enums';
+import { GeniusIntentsConfig } from '../../src/types/genius-intents';
+
+describe('resolveProtocolConfig', () => {
+  const config: GeniusIntentsConfig = {
+    timeout: 1000,
+    solanaRpcUrl: 'https://solana.example',
+    rpcs: { [ChainIdEnum.ETHEREUM]: 'https://eth.example' },
+    okxApiKey: 'flat-key',
+    okxSecretKey: 'flat-secret',
+    zeroXApiKey: 'zerox-key',
+    protocols: {
+      [ProtocolEnum.OKX]: { okxApiKey: 'namespaced-key', timeout: 200, enabled: true },
+    },
+  };
+
+  test('should map flat keys of the protocol and let its section override them', () => {
+    expect(resolveProtocolConfig(config, ProtocolEnum.OKX)).toEqual({
+      solanaRpcUrl: 'https://solana.example',
+      rpcs: { [ChainIdEnum.ETHEREUM]: 'https://eth.example' },
+      okxApiKey: 'namespaced-key',
+      okxSecretKey: 'flat-secret',
+    });
+  });
+
+  test("should leave out other protocols' keys", () => {
+    const zeroX = resolveProtocolConfig(config, ProtocolEnum.ZEROX);
+    const raydium = resolveProtocolConfig(config, ProtocolEnum.RAYDIUM_V2);
+
+    expect(zeroX).toHaveProperty('zeroXApiKey', 'zerox-key');
+    expect(zeroX).not.toHaveProperty('okxApiKey');
+    expect(raydium).not.toHaveProperty('zeroXApiKey');
+    expect(raydium).toHaveProperty('solanaRpcUrl', 'https://solana.example');
+  });
+
+  test('should read the overrides of a protocol', () => {
+    expect(getProtocolOverrides(config, ProtocolEnum.OKX)).toEqual({ enabled: true, timeout: 200 });
+    expect(getProtocolOverrides(config, ProtocolEnum.ODOS)).toEqual({});
+  });
+});
+
+describe('hasProtocolConfigChanged', () => {
+  const config: GeniusIntentsConfig = {
+    okxApiKey: 'key',
+    http: { headers: { 'x-team': 'swap' } },
+    rpcs: { [ChainIdEnum.ETHEREUM]: 'https://eth.example' },
+  };
+
+  test('should only report keys the protocol is built from', () => {
+    expect(hasProtocolConfigChanged(config, { ...config, okxApiKey: 'rotated' }, ProtocolEnum.OKX)).toBe(true);
+    expect(hasProtocolConfigChanged(config, { ...config, okxApiKey: 'rotated' }, ProtocolEnum.ODOS)).toBe(false);
+    expect(hasProtocolConfigChanged(config, { ...config, rpcs: {} }, ProtocolEnum.OKX)).toBe(false);
+    expect(hasProtocolConfigChanged(config, { ...config, solanaRpcUrl: 'https://solana.example' }, ProtocolEnum.RAYDIUM_V2)).toBe(true);
+  });
+
+  test('should compare nested options by value', () => {
+    const copy = { ...config, http: { headers: { 'x-team': 'swap' } } };
+    const changed = { ...config, http: { headers: { 'x-team': 'routing' } } };
+
+    expect(hasProtocolConfigChanged(config, copy, ProtocolEnum.JUPITER)).toBe(false);
+    expect(hasProtocolConfigChanged(config, changed, ProtocolEnum.JUPITER)).toBe(true);
+  });
+
+  test('should treat every shared option as a dependency of registered protocols', () => {
+    expect(hasProtocolConfigChanged(config, { ...config, rpcs: {} }, 'custom-dex')).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { jest } from '@jest/globals';
+import { ProtocolHealthTracker } from '../../src/lib/health/protocol-health-tracker';
+import { CircuitStateEnum, ProtocolEnum, SdkErrorEnum } from '../../src/types/enums';
+import { sdkError } from '../../src/utils/throw-error';
+
+const failure = new Error('boom');
+
+describe('ProtocolHealthTracker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const recordMany = (
+    tracker: ProtocolHealthTracker,
+    outcomes: Array<Error | undefined>,
+    duration = 100,
+  ): void => {
+    outcomes.forEach(error => {
+      tracker.tryAcquire(ProtocolEnum.ODOS);
+      tracker.record(ProtocolEnum.ODOS, duration, error);
+    });
+  };
+
+  test('should open once the error rate crosses the threshold', () => {
+    const tracker = new ProtocolHealthTracker({ failureThreshold: 0.5, minimumRequests: 4 });
+
+    recordMany(tracker, [undefined, failure, failure]);
+    expect(tracker.getHealth(ProtocolEnum.ODOS).state).toBe(CircuitStateEnum.CLOSED);
+
+    recordMany(tracker, [failure]);
+    const health = tracker.getHealth(ProtocolEnum.ODOS);
+
+    expect(health.state).toBe(CircuitStateEnum.OPEN);
+    expect(health.errorRate).toBe(0.75);
+    expect(health.averageLatency).toBe(100);
+    expect(health.lastError).toBe('boom');
+    expect(tracker.tryAcquire(ProtocolEnum.ODOS)).toBe(false);
+  });
+
+  test('should not count rejected requests as failures', () => {
+    const tracker = new ProtocolHealthTracker({ minimumRequests: 3 });
+    const unsupported = sdkError(SdkErrorEnum.UNSUPPORTED_TOKEN, 'Token not supported');
+    const badRequest = Object.assign(new Error('Request failed with status code 400'), {
+      response: { status: 400 },
+    });
+
+    recordMany(tracker, [unsupported, badRequest, new Error('Insufficient liquidity')]);
+    const health = tracker.getHealth(ProtocolEnum.ODOS);
+
+    expect(health.state).toBe(CircuitStateEnum.CLOSED);
+    expect(health.requests).toBe(3);
+    expect(health.failures).toBe(0);
+    expect(health.lastError).toBe('Insufficient liquidity');
+  });
+
+  test('should allow a single half-open probe and close on success', () => {
+    const tracker = new ProtocolHealthTracker({ minimumRequests: 1, openDuration: 1000 });
+    recordMany(tracker, [failure]);
+
+    jest.setSystemTime(1000);
+
+    expect(tracker.tryAcquire(ProtocolEnum.ODOS)).toBe(true);
+    expect(tracker.getHealth(ProtocolEnum.ODOS).state).toBe(CircuitStateEnum.HALF_OPEN);
+    expect(tracker.tryAcquire(ProtocolEnum.ODOS)).toBe(false);
+
+    tracker.record(ProtocolEnum.ODOS, 50);
+
+    expect(tracker.getHealth(ProtocolEnum.ODOS).state).toBe(CircuitStateEnum.CLOSED);
+    expect(tracker.getHealth(ProtocolEnum.ODOS).failures).toBe(0);
+  });
+
+  test('should reopen when the probe fails', () => {
+    const tracker = new ProtocolHealthTracker({ minimumRequests: 1, openDuration: 1000 });
+    recordMany(tracker, [failure]);
+
+    jest.setSystemTime(1000);
+    tracker.tryAcquire(ProtocolEnum.ODOS);
+    tracker.record(ProtocolEnum.ODOS, 50, failure);
+
+    expect(tracker.getHealth(ProtocolEnum.ODOS).state).toBe(CircuitStateEnum.OPEN);
+    expect(tracker.getNextProbeAt(ProtocolEnum.ODOS)).toBe(2000);
+  });
+
+  test('should forget samples outside the rolling window', () => {
+    const tracker = new ProtocolHealthTracker({ windowMs: 1000, minimumRequests: 10 });
+    recordMany(tracker, [failure, failure]);
+
+    jest.setSystemTime(1500);
+
+    expect(tracker.getHealth(ProtocolEnum.ODOS).requests).toBe(0);
+  });
+
+  test('should keep tracking without skipping when disabled', () => {
+    const tracker = new ProtocolHealthTracker({ minimumRequests: 1 }, false);
+    recordMany(tracker, [failure]);
+
+    expect(tracker.tryAcquire(ProtocolEnum.ODOS)).toBe(true);
+    expect(tracker.getHealth(ProtocolEnum.ODOS).failures).toBe(1);
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  LowestLatencyRankingStrategy,
+  MaxOutputRankingStrategy,
+  MinInputRankingStrategy,
+  NetValueRankingStrategy,
+  PreferSimulatedRankingStrategy,
+  ProtocolPreferenceRankingStrategy,
+} from '../../src/lib/ranking/ranking-strategies';
+import { ProtocolEnum } from '../../src/types/enums';
+import { ProtocolId } from '../../src/types/protocol';
+import { IntentQuoteResult } from '../../src/types/genius-intents';
+import { QuoteResponse } from '../../src/types/quote-response';
+
+const result = (
+  protocol: ProtocolEnum,
+  amountOut: string,
+  extra: Partial<IntentQuoteResult> & { simulationSuccess?: boolean } = {},
+): IntentQuoteResult => {
+  const { simulationSuccess, ...rest } = extra;
+  return {
+    protocol,
+    response: { protocol, amountOut, simulationSuccess } as QuoteResponse,
+    duration: 100,
+    queueDuration: 0,
+    ...rest,
+  };
+};
+
+const protocols = (ranking: { result: IntentQuoteResult }[]): ProtocolId[] =>
+  ranking.map(entry => entry.result.protocol);
+
+describe('ranking strategies', () => {
+  const odos = result(ProtocolEnum.ODOS, '1000000', { duration: 300 });
+  const kyber = result(ProtocolEnum.KYBERSWAP, '1002000', { duration: 100 });
+  const okx = result(ProtocolEnum.OKX, '999000', { duration: 200 });
+
+  test('should order by highest amountOut', () => {
+    const ranking = new MaxOutputRankingStrategy().rank([odos, kyber, okx]);
+
+    expect(protocols(ranking)).toEqual([
+      ProtocolEnum.KYBERSWAP,
+      ProtocolEnum.ODOS,
+      ProtocolEnum.OKX,
+    ]);
+    expect(ranking[0]!.reason).toContain('1002000');
+  });
+
+  test('should order by lowest amountIn for exact-out results', () => {
+    const withAmountIn = (entry: IntentQuoteResult, amountIn: string): IntentQuoteResult => ({
+      ...entry,
+      response: { ...entry.response!, amountIn },
+    });
+    const ranking = new MinInputRankingStrategy().rank([
+      withAmountIn(odos, '2000'),
+      withAmountIn(kyber, '2100'),
+      withAmountIn(okx, '1990'),
+    ]);
+
+    expect(protocols(ranking)).toEqual([
+      ProtocolEnum.OKX,
+      ProtocolEnum.ODOS,
+      ProtocolEnum.KYBERSWAP,
+    ]);
+    expect(ranking[0]!.reason).toBe('amountIn 1990');
+  });
+
+  test('should order by net amount when results are scored', () => {
+    const scored = (entry: IntentQuoteResult, gasCostOut: number): IntentQuoteResult => {
+      const amountOut = BigInt(entry.response!.amountOut);
+      return {
+        ...entry,
+        score: {
+          amountOut: amountOut.toString(),
+          swapGas: '0',
+          approvalGas: '0',
+          gasPrice: '0',
+          gasCostNative: '0',
+          gasCostOut: gasCostOut.toString(),
+          netAmountOut: (amountOut - BigInt(gasCostOut)).toString(),
+        },
+      };
+    };
+
+    const ranking = new NetValueRankingStrategy().rank([scored(odos, 1000), scored(kyber, 5000)]);
+
+    expect(protocols(ranking)).toEqual([ProtocolEnum.ODOS, ProtocolEnum.KYBERSWAP]);
+  });
+
+  test('should order by lowest latency', () => {
+    const ranking = new LowestLatencyRankingStrategy().rank([odos, kyber, okx]);
+
+    expect(protocols(ranking)).toEqual([
+      ProtocolEnum.KYBERSWAP,
+      ProtocolEnum.OKX,
+      ProtocolEnum.ODOS,
+    ]);
+  });
+
+  test('should move failed simulations to the end', () => {
+    const failed = result(ProtocolEnum.ZEROX, '2000000', { simulationSuccess: false });
+    const ranking = new PreferSimulatedRankingStrategy().rank([failed, odos, kyber]);
+
+    expect(protocols(ranking)).toEqual([
+      ProtocolEnum.KYBERSWAP,
+      ProtocolEnum.ODOS,
+      ProtocolEnum.ZEROX,
+    ]);
+    expect(ranking[2]!.reason).toContain('simulation failed');
+  });
+
+  test('should keep a preferred protocol unless beaten by more than its weight', () => {
+    // kyber returns 20 bps more than odos
+    const within = new ProtocolPreferenceRankingStrategy({
+      weights: { [ProtocolEnum.ODOS]: 25 },
+    }).rank([odos, kyber]);
+    const beaten = new ProtocolPreferenceRankingStrategy({
+      weights: { [ProtocolEnum.ODOS]: 10 },
+    }).rank([odos, kyber]);
+
+    expect(protocols(within)).toEqual([ProtocolEnum.ODOS, ProtocolEnum.KYBERSWAP]);
+    expect(within[0]!.reason).toContain('25 bps');
+    expect(protocols(beaten)).toEqual([ProtocolEnum.KYBERSWAP, ProtocolEnum.ODOS]);
+  });
+});
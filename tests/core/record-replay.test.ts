@@ -0,0 +1,109 @@
+import { jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IHttpClient } from '../../src/interfaces/http-client';
+import { HttpError } from '../../src/lib/http/http-error';
+import { normalizeRequest } from '../../src/lib/http/http-fixtures';
+import {
+  RecordingHttpClient,
+  ReplayHttpClient,
+} from '../../src/lib/http/record-replay-http-client';
+import { SdkErrorEnum } from '../../src/types/enums';
+import { isSdkError } from '../../src/utils/sdk-error';
+
+describe('HTTP record/replay', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'genius-intents-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const createClient = (): IHttpClient => ({
+    get: jest.fn(async () => ({ data: { price: '1' }, status: 200, headers: {} })) as never,
+    post: jest.fn(async (_url: string, body?: unknown) => ({
+      data: { amountOut: `${(body as { amountIn: string }).amountIn}0` },
+      status: 200,
+      headers: { 'set-cookie': 'session=secret' },
+    })) as never,
+  });
+
+  test('should normalize query order, key order and redacted fields', () => {
+    const a = normalizeRequest(
+      'POST',
+      'https://api.example.com/quote?b=2&a=1',
+      { amountIn: '1', timestamp: 1 },
+      undefined,
+    );
+    const b = normalizeRequest(
+      'POST',
+      'https://api.example.com/quote?a=1',
+      { timestamp: 2, amountIn: '1' },
+      { params: { b: 2 } },
+    );
+
+    expect(a).toEqual(b);
+    expect(a.body).toEqual({ amountIn: '1', timestamp: '<redacted>' });
+  });
+
+  test('should replay recorded responses without the network', async () => {
+    const client = createClient();
+    const recorder = new RecordingHttpClient(client, 'odos', { directory });
+
+    await recorder.post('https://api.example.com/quote', { amountIn: '5', timestamp: 100 });
+    await recorder.get('https://api.example.com/price', { params: { token: 'ETH' } });
+
+    const replay = new ReplayHttpClient('odos', { directory });
+    const quote = await replay.post('https://api.example.com/quote', {
+      timestamp: 200,
+      amountIn: '5',
+    });
+    const price = await replay.get('https://api.example.com/price?token=ETH');
+
+    expect(quote).toEqual({ data: { amountOut: '50' }, status: 200, headers: {} });
+    expect(price.data).toEqual({ price: '1' });
+    expect(client.post).toHaveBeenCalledTimes(1);
+  });
+
+  test('should explain mismatches with the closest recording', async () => {
+    const recorder = new RecordingHttpClient(createClient(), 'odos', { directory });
+    await recorder.post('https://api.example.com/quote', { amountIn: '5' });
+
+    const replay = new ReplayHttpClient('odos', { directory });
+    const error = await replay
+      .post('https://api.example.com/quote', { amountIn: '6' })
+      .catch((reason: unknown) => reason);
+
+    expect(isSdkError(error, SdkErrorEnum.REPLAY_MISMATCH)).toBe(true);
+    expect((error as Error).message).toContain('body differs at $.amountIn');
+
+    const unknownEndpoint = await replay
+      .get('https://api.example.com/tokens')
+      .catch((reason: unknown) => reason);
+    expect((unknownEndpoint as Error).message).toContain('endpoint was never recorded');
+  });
+
+  test('should record and replay error responses', async () => {
+    const client: IHttpClient = {
+      get: jest.fn(async () => {
+        throw new HttpError(429, { message: 'Too many requests' }, { 'retry-after': '1' });
+      }) as never,
+      post: jest.fn() as never,
+    };
+    const recorder = new RecordingHttpClient(client, 'okx', { directory });
+    await expect(recorder.get('https://api.example.com/price')).rejects.toThrow(HttpError);
+
+    const replay = new ReplayHttpClient('okx', { directory });
+    const error = await replay
+      .get('https://api.example.com/price')
+      .catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).response.status).toBe(429);
+    expect((error as HttpError).response.headers).toEqual({ 'retry-after': '1' });
+  });
+});
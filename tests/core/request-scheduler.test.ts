@@ -0,0 +1,104 @@
+import { jest } from '@jest/globals';
+import { RequestScheduler } from '../../src/lib/scheduler/request-scheduler';
+import { RequestPriorityEnum } from '../../src/types/enums';
+
+const deferred = <T = void>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('RequestScheduler', () => {
+  test('should never run more tasks than maxConcurrency', async () => {
+    const scheduler = new RequestScheduler(2);
+    const gates = [deferred(), deferred(), deferred(), deferred()];
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = gates.map((gate, index) =>
+      scheduler.schedule(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await gate.promise;
+        running--;
+        return index;
+      }),
+    );
+
+    await flush();
+    expect(scheduler.active).toBe(2);
+    expect(scheduler.pending).toBe(2);
+
+    gates.forEach(gate => gate.resolve());
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2, 3]);
+    expect(maxRunning).toBe(2);
+  });
+
+  test('should dequeue higher priorities first and keep arrival order otherwise', async () => {
+    const scheduler = new RequestScheduler(1);
+    const blocker = deferred();
+    const order: string[] = [];
+
+    const first = scheduler.schedule(() => blocker.promise);
+    const tasks = [
+      scheduler.schedule(async () => order.push('low'), { priority: RequestPriorityEnum.LOW }),
+      scheduler.schedule(async () => order.push('normal-1')),
+      scheduler.schedule(async () => order.push('high'), { priority: RequestPriorityEnum.HIGH }),
+      scheduler.schedule(async () => order.push('normal-2')),
+    ];
+
+    blocker.resolve();
+    await Promise.all([first, ...tasks]);
+
+    expect(order).toEqual(['high', 'normal-1', 'normal-2', 'low']);
+  });
+
+  test('should free the slot when a task fails', async () => {
+    const scheduler = new RequestScheduler(1);
+
+    await expect(
+      scheduler.schedule(async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    await expect(scheduler.schedule(async () => 'ok')).resolves.toBe('ok');
+    expect(scheduler.active).toBe(0);
+  });
+
+  test('should start queued tasks when the limit is raised', async () => {
+    const scheduler = new RequestScheduler(1);
+    const gate = deferred();
+
+    scheduler.schedule(() => gate.promise);
+    const queued = scheduler.schedule(async () => 'queued');
+
+    await flush();
+    expect(scheduler.pending).toBe(1);
+
+    scheduler.setMaxConcurrency(2);
+    await expect(queued).resolves.toBe('queued');
+    gate.resolve();
+  });
+
+  test('should drop queued tasks whose signal aborts', async () => {
+    const scheduler = new RequestScheduler(1);
+    const gate = deferred();
+    const controller = new AbortController();
+    const task = jest.fn(async () => 'never');
+
+    scheduler.schedule(() => gate.promise);
+    const queued = scheduler.schedule(task, { signal: controller.signal });
+
+    controller.abort();
+    await expect(queued).rejects.toThrow();
+    expect(scheduler.pending).toBe(0);
+
+    gate.resolve();
+    await flush();
+    expect(task).not.toHaveBeenCalled();
+  });
+});
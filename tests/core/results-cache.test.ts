@@ -0,0 +1,140 @@
+import { jest } from '@jest/globals';
+import { LruCacheStorage } from '../../src/lib/cache/lru-cache-storage';
+import { RequestCoalescer } from '../../src/lib/cache/request-coalescer';
+import { ResultsCache } from '../../src/lib/cache/results-cache';
+import { ProtocolEnum, SwapModeEnum } from '../../src/types/enums';
+import { createPriceParams } from '../fixtures/test-data';
+
+describe('LruCacheStorage', () => {
+  test('should evict the least recently used entry', async () => {
+    const storage = new LruCacheStorage(2);
+
+    await storage.set('a', 1, 1000);
+    await storage.set('b', 2, 1000);
+    await storage.get('a');
+    await storage.set('c', 3, 1000);
+
+    expect(await storage.get('a')).toBe(1);
+    expect(await storage.get('b')).toBeUndefined();
+    expect(await storage.get('c')).toBe(3);
+    expect(storage.size).toBe(2);
+  });
+
+  test('should not return expired entries', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const storage = new LruCacheStorage();
+
+    await storage.set('a', 1, 1000);
+    jest.setSystemTime(1000);
+
+    expect(await storage.get('a')).toBeUndefined();
+    jest.useRealTimers();
+  });
+});
+
+describe('RequestCoalescer', () => {
+  test('should share one in-flight request between identical callers', async () => {
+    const coalescer = new RequestCoalescer();
+    const task = jest.fn(async () => 'shared');
+
+    const results = await Promise.all([
+      coalescer.join('key', task),
+      coalescer.join('key', task),
+      coalescer.join('other', task),
+    ]);
+
+    expect(results).toEqual(['shared', 'shared', 'shared']);
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(coalescer.pending).toBe(0);
+  });
+
+  test('should only abort the shared request once every caller aborted', async () => {
+    const coalescer = new RequestCoalescer();
+    let sharedSignal: AbortSignal | undefined;
+    const task = (signal: AbortSignal): Promise<string> => {
+      sharedSignal = signal;
+      return new Promise(() => {});
+    };
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstResult = coalescer.join('key', task, first.signal).catch(() => 'aborted');
+    const secondResult = coalescer.join('key', task, second.signal).catch(() => 'aborted');
+    await Promise.resolve();
+
+    first.abort();
+    await expect(firstResult).resolves.toBe('aborted');
+    expect(sharedSignal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(secondResult).resolves.toBe('aborted');
+    expect(sharedSignal?.aborted).toBe(true);
+  });
+});
+
+describe('ResultsCache', () => {
+  test('should build the same key for equivalent params', () => {
+    const cache = new ResultsCache({});
+    const params = createPriceParams();
+
+    expect(cache.getKey('price', ProtocolEnum.ODOS, params)).toBe(
+      cache.getKey('price', ProtocolEnum.ODOS, {
+        ...params,
+        tokenOut: params.tokenOut.toUpperCase().replace('0X', '0x'),
+        amountIn: `00${params.amountIn}`,
+      }),
+    );
+    expect(cache.getKey('price', ProtocolEnum.ODOS, params)).not.toBe(
+      cache.getKey('price', ProtocolEnum.OKX, params),
+    );
+    expect(cache.getKey('price', ProtocolEnum.ODOS, params)).not.toBe(
+      cache.getKey('price', ProtocolEnum.ODOS, {
+        ...params,
+        swapMode: SwapModeEnum.EXACT_OUT,
+        amountOut: '1000000',
+      }),
+    );
+    expect(cache.getKey('price', ProtocolEnum.JUPITER, params)).not.toBe(
+      cache.getKey('price', ProtocolEnum.JUPITER, {
+        ...params,
+        overrideParamsJupiter: { onlyDirectRoutes: true },
+      }),
+    );
+  });
+
+  test('should apply per-protocol ttl overrides', () => {
+    const cache = new ResultsCache({
+      price: 2000,
+      quote: 500,
+      protocols: { [ProtocolEnum.OKX]: { price: 100 } },
+    });
+
+    expect(cache.getTtl('price', ProtocolEnum.ODOS)).toBe(2000);
+    expect(cache.getTtl('price', ProtocolEnum.OKX)).toBe(100);
+    expect(cache.getTtl('quote', ProtocolEnum.OKX)).toBe(500);
+  });
+
+  test('should never serve entries past their ttl, even if the storage keeps them', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const entries = new Map<string, unknown>();
+    const cache = new ResultsCache({
+      storage: {
+        get: async <T>(key: string) => entries.get(key) as T | undefined,
+        set: async (key, value) => {
+          entries.set(key, value);
+        },
+        delete: async key => {
+          entries.delete(key);
+        },
+        clear: async () => entries.clear(),
+      },
+    });
+
+    await cache.set('key', { amountOut: '1' }, 1000);
+    expect(await cache.get('key')).toEqual({ amountOut: '1' });
+
+    jest.setSystemTime(1000);
+    expect(await cache.get('key')).toBeUndefined();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,103 @@
+import { jest } from '@jest/globals';
+import {
+  getHttpStatus,
+  getRetryAfter,
+  isProtocolFailure,
+  isRetryableError,
+} from '../../src/lib/retry/error-classification';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, withRetry } from '../../src/lib/retry/retry';
+import { SdkErrorEnum } from '../../src/types/enums';
+import { sdkError } from '../../src/utils/throw-error';
+
+// Same shape as an AxiosError, axios itself is mocked in tests/setup.ts
+class HttpError extends Error {
+  constructor(public response: { status: number; headers: Record<string, string> }) {
+    super(`Request failed with status code ${response.status}`);
+  }
+}
+
+const httpError = (status: number, headers: Record<string, string> = {}): HttpError =>
+  new HttpError({ status, headers });
+
+const policy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 3, baseDelay: 1, jitter: false };
+
+describe('error classification', () => {
+  test('should classify errors wrapped by services through their cause', () => {
+    const wrapped = sdkError(SdkErrorEnum.PRICE_NOT_FOUND, 'Failed', {
+      cause: httpError(503),
+    });
+
+    expect(getHttpStatus(wrapped)).toBe(503);
+    expect(isRetryableError(wrapped)).toBe(true);
+  });
+
+  test('should retry rate limits and dropped connections but not client errors', () => {
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(reset)).toBe(true);
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(new Error('Insufficient liquidity'))).toBe(false);
+  });
+
+  test('should only blame the protocol for transient and server failures', () => {
+    expect(isProtocolFailure(httpError(500))).toBe(true);
+    expect(isProtocolFailure(new Error('Request timeout'))).toBe(true);
+    expect(isProtocolFailure(httpError(404))).toBe(false);
+    expect(isProtocolFailure(sdkError(SdkErrorEnum.INVALID_PARAMS, 'Invalid amount'))).toBe(false);
+    expect(isProtocolFailure(new Error('Token not supported'))).toBe(false);
+  });
+
+  test('should read Retry-After in seconds', () => {
+    expect(getRetryAfter(httpError(429, { 'retry-after': '2' }))).toBe(2000);
+    expect(getRetryDelay(httpError(429, { 'retry-after': '2' }), 1, policy)).toBe(2000);
+  });
+
+  test('should back off exponentially up to maxDelay', () => {
+    const capped = { ...policy, baseDelay: 100, maxDelay: 300 };
+
+    expect(getRetryDelay(httpError(503), 1, capped)).toBe(100);
+    expect(getRetryDelay(httpError(503), 2, capped)).toBe(200);
+    expect(getRetryDelay(httpError(503), 3, capped)).toBe(300);
+  });
+});
+
+describe('withRetry', () => {
+  test('should retry retryable errors until the task succeeds', async () => {
+    const task = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(502))
+      .mockResolvedValueOnce('ok');
+    const attempts: number[] = [];
+
+    await expect(
+      withRetry(task, policy, { onAttempt: attempt => attempts.push(attempt) }),
+    ).resolves.toBe('ok');
+    expect(attempts).toEqual([1, 2]);
+  });
+
+  test('should not retry non-retryable errors', async () => {
+    const task = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(400));
+
+    await expect(withRetry(task, policy)).rejects.toBeInstanceOf(HttpError);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stop once the attempts are used up', async () => {
+    const task = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(503));
+
+    await expect(withRetry(task, policy)).rejects.toBeInstanceOf(HttpError);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  test('should not wait past the deadline', async () => {
+    const task = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(httpError(429, { 'retry-after': '10' }));
+
+    await expect(withRetry(task, policy, { deadline: Date.now() + 1000 })).rejects.toBeInstanceOf(
+      HttpError,
+    );
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,85 @@
+import { getErrorCode, isRetryableError } from '../../src/lib/retry/error-classification';
+import { ProtocolEnum, SdkErrorEnum } from '../../src/types/enums';
+import { SdkError, isSdkError } from '../../src/utils/sdk-error';
+import { sdkError } from '../../src/utils/throw-error';
+
+// Same shape as an AxiosError, axios itself is mocked in tests/setup.ts
+class HttpError extends Error {
+  constructor(public response: { status: number; data?: unknown }) {
+    super(`Request failed with status code ${response.status}`);
+  }
+}
+
+describe('SdkError', () => {
+  test('should keep the code prefixed message and expose the code', () => {
+    const error = sdkError(SdkErrorEnum.QUOTE_NOT_FOUND, 'No quote', {
+      protocol: ProtocolEnum.ODOS,
+      details: { amount: '1' },
+    });
+
+    expect(error).toBeInstanceOf(SdkError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('QUOTE_NOT_FOUND: No quote');
+    expect(error.code).toBe(SdkErrorEnum.QUOTE_NOT_FOUND);
+    expect(error.protocol).toBe(ProtocolEnum.ODOS);
+    expect(error.details).toEqual({ amount: '1' });
+  });
+
+  test('should derive httpStatus and retryable from the cause', () => {
+    const cause = new HttpError({ status: 503 });
+    const error = sdkError(SdkErrorEnum.PRICE_NOT_FOUND, 'Failed', { cause });
+
+    expect(error.cause).toBe(cause);
+    expect(error.httpStatus).toBe(503);
+    expect(error.retryable).toBe(true);
+    expect(sdkError(SdkErrorEnum.INVALID_PARAMS, 'Bad input').retryable).toBe(false);
+    expect(sdkError(SdkErrorEnum.RATE_LIMITED, 'Slow down').retryable).toBe(true);
+  });
+
+  test('should let an explicit retryable flag win over the cause', () => {
+    const error = sdkError(SdkErrorEnum.CIRCUIT_OPEN, 'Skipped', {
+      cause: new HttpError({ status: 503 }),
+      retryable: false,
+    });
+
+    expect(isRetryableError(error)).toBe(false);
+  });
+
+  test('should match codes with isSdkError', () => {
+    const error = sdkError(SdkErrorEnum.RATE_LIMITED, 'Slow down');
+
+    expect(isSdkError(error)).toBe(true);
+    expect(isSdkError(error, SdkErrorEnum.RATE_LIMITED)).toBe(true);
+    expect(isSdkError(error, SdkErrorEnum.INVALID_PARAMS)).toBe(false);
+    expect(isSdkError(new Error('RATE_LIMITED: Slow down'))).toBe(false);
+  });
+});
+
+describe('getErrorCode', () => {
+  test('should map rate limits and known protocol messages', () => {
+    const fallback = SdkErrorEnum.PRICE_NOT_FOUND;
+
+    expect(getErrorCode(new HttpError({ status: 429 }), fallback)).toBe(SdkErrorEnum.RATE_LIMITED);
+    expect(getErrorCode(new Error('Insufficient liquidity'), fallback)).toBe(
+      SdkErrorEnum.INSUFFICIENT_LIQUIDITY,
+    );
+    expect(
+      getErrorCode(new HttpError({ status: 400, data: { msg: 'Token not supported' } }), fallback),
+    ).toBe(SdkErrorEnum.UNSUPPORTED_TOKEN);
+    expect(getErrorCode(new Error('Slippage too low'), fallback)).toBe(
+      SdkErrorEnum.SLIPPAGE_TOO_LOW,
+    );
+    expect(getErrorCode(new Error('Amount is below the minimum'), fallback)).toBe(
+      SdkErrorEnum.AMOUNT_TOO_SMALL,
+    );
+    expect(getErrorCode(new Error('Something else'), fallback)).toBe(fallback);
+  });
+
+  test('should keep specific codes thrown deeper in a service', () => {
+    const inner = sdkError(SdkErrorEnum.INVALID_PARAMS, 'Unsupported network');
+    const outer = sdkError(SdkErrorEnum.PRICE_NOT_FOUND, 'Failed', { cause: inner });
+
+    expect(getErrorCode(inner, SdkErrorEnum.PRICE_NOT_FOUND)).toBe(SdkErrorEnum.INVALID_PARAMS);
+    expect(getErrorCode(outer, SdkErrorEnum.QUOTE_NOT_FOUND)).toBe(SdkErrorEnum.INVALID_PARAMS);
+  });
+});
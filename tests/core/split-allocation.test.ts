@@ -0,0 +1,43 @@
+import { allocateSplit, getPartAmount } from '../../src/lib/split/split-allocation';
+
+const outputs = (...values: (number | undefined)[]): (bigint | undefined)[] =>
+  values.map(value => (value === undefined ? undefined : BigInt(value)));
+
+describe('split allocation', () => {
+  test('should keep the whole order on one protocol when splitting does not pay', () => {
+    const allocation = allocateSplit([outputs(100, 200, 300, 400), outputs(99, 198, 297, 396)], 4);
+
+    expect(allocation?.total).toBe(BigInt(400));
+    expect(allocation?.allocations).toEqual([{ index: 0, parts: 4, amountOut: BigInt(400) }]);
+  });
+
+  test('should split the order when the price impact of one protocol grows', () => {
+    const allocation = allocateSplit([outputs(100, 190, 260, 310), outputs(100, 195, 270, 320)], 4);
+
+    expect(allocation?.total).toBe(BigInt(385));
+    expect(allocation?.allocations).toEqual([
+      { index: 0, parts: 2, amountOut: BigInt(190) },
+      { index: 1, parts: 2, amountOut: BigInt(195) },
+    ]);
+  });
+
+  test('should respect maxLegs and skip unpriced parts', () => {
+    const allocation = allocateSplit(
+      [outputs(100, 150, 180, 200), outputs(100, undefined, 270, 340), outputs(100, 150, 180, 200)],
+      4,
+      2,
+    );
+
+    expect(allocation?.allocations).toHaveLength(2);
+    expect(allocation?.total).toBe(BigInt(370));
+  });
+
+  test('should return undefined when the order cannot be filled', () => {
+    expect(allocateSplit([outputs(100, undefined, undefined, undefined)], 4)).toBeUndefined();
+  });
+
+  test('should round part amounts down', () => {
+    expect(getPartAmount('1000001', 1, 4)).toBe('250000');
+    expect(getPartAmount('1000001', 4, 4)).toBe('1000001');
+  });
+});
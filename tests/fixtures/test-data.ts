@@ -1,6 +1,11 @@
+import { jest } from '@jest/globals';
+import { IIntentProtocol } from '../../src/interfaces/intent-protocol';
 import { ChainIdEnum, ProtocolEnum } from '../../src/types/enums';
 import { IntentPriceParams } from '../../src/types/price-params';
+import { PriceResponse, RawProtocolPriceResponse } from '../../src/types/price-response';
+import { ProtocolId } from '../../src/types/protocol';
 import { IntentQuoteParams } from '../../src/types/quote-params';
+import { QuoteResponse, RawProtocolQuoteResponse } from '../../src/types/quote-response';
 
 // Common token addresses for testing
 export const TEST_TOKENS = {
@@ -52,6 +57,84 @@ export const createQuoteParams = (overrides: Partial<IntentQuoteParams> = {}): I
   ...overrides,
 });
 
+// Standard price response of a fake protocol
+export const createPriceResponse = (overrides: Partial<PriceResponse> = {}): PriceResponse => ({
+  protocol: ProtocolEnum.ODOS,
+  networkIn: ChainIdEnum.ETHEREUM,
+  networkOut: ChainIdEnum.ETHEREUM,
+  tokenIn: TEST_TOKENS[ChainIdEnum.ETHEREUM].ETH,
+  tokenOut: TEST_TOKENS[ChainIdEnum.ETHEREUM].USDC,
+  amountIn: '1000000000000000000',
+  amountOut: '1800000000',
+  protocolResponse: {} as RawProtocolPriceResponse,
+  slippage: 100,
+  ...overrides,
+});
+
+// Standard quote response of a fake protocol
+export const createQuoteResponse = (overrides: Partial<QuoteResponse> = {}): QuoteResponse => ({
+  ...createPriceResponse(),
+  from: TEST_WALLETS.EVM,
+  receiver: TEST_WALLETS.EVM,
+  protocolResponse: {} as RawProtocolQuoteResponse,
+  ...overrides,
+});
+
+export type FakeProtocolOptions = Partial<
+  Omit<IIntentProtocol, 'protocol' | 'fetchPrice' | 'fetchQuote'>
+> & {
+  fetchPrice?: IIntentProtocol['fetchPrice'];
+  fetchQuote?: IIntentProtocol['fetchQuote'];
+};
+
+export type FakeProtocol = IIntentProtocol & {
+  fetchPrice: jest.Mock<IIntentProtocol['fetchPrice']>;
+  fetchQuote: jest.Mock<IIntentProtocol['fetchQuote']>;
+};
+
+// Same-chain Ethereum protocol for `GeniusIntents.registerProtocol`, requests are jest mocks
+export const createFakeProtocol = (
+  protocol: ProtocolId,
+  options: FakeProtocolOptions = {},
+): FakeProtocol => {
+  const {
+    fetchPrice = async (params: IntentPriceParams): Promise<PriceResponse> =>
+      createPriceResponse({
+        protocol,
+        networkIn: params.networkIn,
+        networkOut: params.networkOut,
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        amountIn: params.amountIn,
+      }),
+    fetchQuote = async (params: IntentQuoteParams): Promise<QuoteResponse> =>
+      createQuoteResponse({
+        protocol,
+        networkIn: params.networkIn,
+        networkOut: params.networkOut,
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        amountIn: params.amountIn,
+        from: params.from,
+        receiver: params.receiver,
+      }),
+    ...capabilities
+  } = options;
+
+  return {
+    protocol,
+    singleChain: true,
+    multiChain: false,
+    chains: [ChainIdEnum.ETHEREUM],
+    isCorrectConfig: <T extends { [key: string]: string }>(config: {
+      [key: string]: string;
+    }): config is T => config !== undefined,
+    ...capabilities,
+    fetchPrice: jest.fn(fetchPrice),
+    fetchQuote: jest.fn(fetchQuote),
+  };
+};
+
 // Cross-chain test scenarios
 export const CROSS_CHAIN_SCENARIOS = [
   {